@@ -5,15 +5,25 @@
  *
  * Enables AI assistants to build, test, and debug Zotero plugins by providing:
  * - UI inspection (screenshots, DOM, styles)
- * - JavaScript execution in Zotero context
+ * - JavaScript execution in Zotero context, REPL sessions that keep their variables, and project scripts
  * - Build tool integration (scaffold)
  * - Log reading and error tracking
+ * - Network capture with HAR export
+ * - Preference snapshots, diffs and restore, and a watch on pref writes
+ * - Zotero.Notifier event recording, waiting for an event, and synthetic events
+ * - Reading and searching Zotero's own JavaScript source
  * - Database access (read-only)
  * - Plugin management
+ * - Debugging (breakpoints, stepping, scopes) and spying on function calls
+ * - CPU profiling (Gecko profiler) and memory leak checks across reloads
+ * - Live console and error streams (MCP resources)
+ * - Several Zotero instances side by side (ZOTERO_INSTANCES)
+ * - Connection diagnostics (zotero_doctor)
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { AsyncLocalStorage } from "node:async_hooks";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 import {
@@ -21,12 +31,20 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolRequest,
+  type ServerNotification,
+  type ServerRequest,
   type Tool,
   type TextContent,
   type ImageContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import { createClient, RDPClient } from "./rdp/index.js";
-import { loadConfig, type Config } from "./utils/config.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { createClient, instanceRecordPath, RDPClient, type Capabilities, type TransferProgress } from "./rdp/index.js";
+import { loadConfig, type Config, type InstanceConfig } from "./utils/config.js";
 
 // Tool handlers - imported from tools directory
 import {
@@ -49,10 +67,12 @@ import {
   getDomTreeTool,
   getStylesTool,
   listWindowsTool,
+  listTargetsTool,
   handleInspectElement,
   handleGetDomTree,
   handleGetStyles,
   handleListWindows,
+  handleListTargets,
 } from "./tools/inspect.js";
 import {
   clickElementTool,
@@ -96,13 +116,51 @@ import {
   handleDbSchema,
   handleDbStats,
 } from "./tools/database.js";
+import {
+  debuggerSourcesTool,
+  debuggerBreakpointTool,
+  debuggerPauseTool,
+  debuggerResumeTool,
+  handleDebuggerSources,
+  handleDebuggerBreakpoint,
+  handleDebuggerPause,
+  handleDebuggerResume,
+} from "./tools/debugger.js";
+import {
+  profileStartTool,
+  profileStopTool,
+  handleProfileStart,
+  handleProfileStop,
+} from "./tools/profiler.js";
+import { memoryLeakCheckTool, handleMemoryLeakCheck } from "./tools/memory.js";
+import { networkCaptureTool, handleNetworkCapture } from "./tools/network.js";
+import { doctorTool, handleDoctor } from "./tools/doctor.js";
+import { replTool, handleRepl } from "./tools/repl.js";
+import { runScriptTool, handleRunScript } from "./tools/script.js";
+import { prefSnapshotTool, watchPrefsTool, handlePrefSnapshot, handleWatchPrefs } from "./tools/prefs.js";
+import { getSourceTool, searchSourceTool, handleGetSource, handleSearchSource } from "./tools/source.js";
+import { spyTool, handleSpy } from "./tools/spy.js";
+import {
+  watchNotifierTool,
+  triggerNotifierTool,
+  handleWatchNotifier,
+  handleTriggerNotifier,
+} from "./tools/notifier.js";
 import { allPrompts, getPromptHandler } from "./prompts/index.js";
+import {
+  allResources,
+  attachConsoleStream,
+  readResource,
+  subscribeResource,
+  unsubscribeResource,
+  setResourceUpdateNotifier,
+} from "./resources/index.js";
 
 // Read the version from package.json so the MCP handshake (serverInfo.version)
 // reports the real published version instead of a hard-coded constant.
 // dist/index.js is CommonJS, so __dirname points at dist/; package.json sits one
 // level up and is always included in the published tarball.
-const { version: serverVersion } = JSON.parse(
+export const { version: serverVersion } = JSON.parse(
   readFileSync(join(__dirname, "../package.json"), "utf8")
 ) as { version: string };
 
@@ -116,30 +174,72 @@ const server = new Server(
     capabilities: {
       tools: {},
       prompts: {},
+      resources: { subscribe: true },
     },
   }
 );
 
-// Shared state
-let rdpClient: RDPClient | null = null;
+// Shared state: one client per configured Zotero instance, created on first use
+const rdpClients = new Map<string, RDPClient>();
+
+// The instance named by the `instance` argument of the tool call being handled.
+// Handlers call getRdpClient() without arguments and get that instance's client.
+const currentInstance = new AsyncLocalStorage<string | undefined>();
+
+// Where the tool call being handled reports long string transfers, if it
+// passed a progressToken. Transfers emit from the async context of the call
+// that started them, so concurrent calls each hear only about their own.
+const currentProgress = new AsyncLocalStorage<((progress: TransferProgress) => void) | undefined>();
 let config: Config;
 
+function getInstanceEndpoint(name: string): InstanceConfig {
+  const endpoint = config.instances.get(name);
+  if (!endpoint) {
+    throw new Error(
+      `Unknown Zotero instance "${name}". Configured instances: ${[...config.instances.keys()].join(", ")}\n` +
+        "Define more with ZOTERO_INSTANCES, e.g. stable=6100,beta=6101"
+    );
+  }
+  return endpoint;
+}
+
 /**
- * Get or create the RDP client
+ * Get or create the RDP client of an instance: the one given, else the one
+ * of the current tool call, else the default instance
  */
-export async function getRdpClient(): Promise<RDPClient> {
-  if (!rdpClient) {
-    rdpClient = createClient({
-      host: config.rdp.host,
-      port: config.rdp.port,
+export async function getRdpClient(instance?: string): Promise<RDPClient> {
+  const name = instance ?? currentInstance.getStore() ?? config.defaultInstance;
+  const endpoint = getInstanceEndpoint(name);
+
+  let client = rdpClients.get(name);
+  if (!client) {
+    const recordPath = process.env.ZOTERO_RDP_RECORD || undefined;
+    client = createClient({
+      host: endpoint.host,
+      port: endpoint.port,
+      // One recording per instance, since replay needs one session per file
+      recordPath: recordPath && config.instances.size > 1 ? instanceRecordPath(recordPath, name) : recordPath,
     });
+    client.on("transferProgress", (progress: TransferProgress) => {
+      currentProgress.getStore()?.(progress);
+    });
+    rdpClients.set(name, client);
   }
 
-  if (!rdpClient.isConnected()) {
-    await rdpClient.connect();
+  if (!client.isConnected()) {
+    await client.connect();
+    // Feed the zotero://console and zotero://errors resources, from the
+    // default instance only so entries of different instances do not mix. A
+    // failure here (no console actor yet) must not fail the tool call that connected.
+    if (name === config.defaultInstance) {
+      await attachConsoleStream(client).catch(() => undefined);
+    }
+    // Record traits, versions and actors now, so handlers can pick a code path
+    // without a round trip (see rdp/capabilities.ts)
+    await client.getCapabilities().catch(() => undefined);
   }
 
-  return rdpClient;
+  return client;
 }
 
 /**
@@ -154,87 +254,133 @@ const pingTool: Tool = {
   name: "zotero_ping",
   description:
     "Test connection to Zotero and get version info. " +
-    "Use this to verify that Zotero is running and the MCP Bridge for Zotero plugin is active.",
+    "Use this to verify that Zotero is running and the MCP Bridge for Zotero plugin is active. " +
+    "Also reports the negotiated capabilities: Zotero and Firefox ESR versions, RDP traits and available actors. " +
+    "Without an instance argument, reports on every configured Zotero instance.",
   inputSchema: {
     type: "object",
-    properties: {},
+    properties: {
+      capabilities: {
+        type: "boolean",
+        description: "Include the full capability report (traits and actors) as JSON (default: false)",
+      },
+    },
     required: [],
   },
 };
 
+function formatCapabilities(capabilities: Capabilities): string {
+  const enabledTraits = Object.keys(capabilities.traits).filter((name) => capabilities.traits[name]);
+  return (
+    `  RDP: ${capabilities.applicationType}, ${enabledTraits.length} trait(s)` +
+    `${enabledTraits.length ? ` (${enabledTraits.join(", ")})` : ""}\n` +
+    `  Actors: ${capabilities.globalActors.length} global, ${capabilities.targetActors.length} on the parent process` +
+    `${capabilities.targetActors.length ? ` (${capabilities.targetActors.join(", ")})` : ""}\n`
+  );
+}
+
 /**
- * Handle the ping tool
+ * Ping one instance. With several instances configured, each report starts
+ * with the instance name.
  */
-async function handlePing(): Promise<TextContent[]> {
+async function pingInstance(name: string, showCapabilities: boolean): Promise<TextContent> {
+  const { port } = getInstanceEndpoint(name);
+  const label = config.instances.size > 1 ? `[${name}] ` : "";
   try {
-    const client = await getRdpClient();
-
-    // Execute JS to get Zotero version
-    const versionResult = await client.evaluateJS("Zotero.version");
-    const version = await client.gripToValueAsync(versionResult.result);
-
-    // Get app name
-    const appResult = await client.evaluateJS("Zotero.appName");
-    const appName = await client.gripToValueAsync(appResult.result);
-
-    // Get platform
-    const platformResult = await client.evaluateJS("Zotero.platformMajorVersion");
-    const platformVersion = await client.gripToValueAsync(platformResult.result);
+    const client = await getRdpClient(name);
+    const capabilities = await client.getCapabilities().catch(() => null);
+
+    // Versions come from the device actor; ask Zotero only when it had none
+    let appName: unknown = capabilities?.appName;
+    let version: unknown = capabilities?.appVersion;
+    let platformVersion: unknown = capabilities?.platformVersion;
+    if (!appName || !version) {
+      const versionResult = await client.evaluateJS("Zotero.version");
+      version = await client.gripToValueAsync(versionResult.result);
+      const appResult = await client.evaluateJS("Zotero.appName");
+      appName = await client.gripToValueAsync(appResult.result);
+    }
+    if (!platformVersion) {
+      const platformResult = await client.evaluateJS("Zotero.platformMajorVersion");
+      platformVersion = await client.gripToValueAsync(platformResult.result);
+    }
 
     // Get data directory
     const dataDirResult = await client.evaluateJS("Zotero.DataDirectory.dir");
     const dataDir = await client.gripToValueAsync(dataDirResult.result);
 
-    return [
-      {
-        type: "text",
-        text:
-          `✓ Connected to ${appName} ${version}\n` +
-          `  Platform: Firefox ${platformVersion}\n` +
-          `  Data directory: ${dataDir}\n` +
-          `  RDP port: ${config.rdp.port}\n\n` +
-          `Ready to help with Zotero plugin development!`,
-      },
-    ];
+    return {
+      type: "text",
+      text:
+        `${label}✓ Connected to ${appName} ${version}\n` +
+        `  Platform: Firefox ${platformVersion}\n` +
+        `  Data directory: ${dataDir}\n` +
+        `  RDP port: ${port}\n` +
+        (capabilities ? formatCapabilities(capabilities) : "  Capabilities: not negotiated\n") +
+        (showCapabilities && capabilities ? `\nCapabilities:\n${JSON.stringify(capabilities, null, 2)}\n` : "") +
+        `\nReady to help with Zotero plugin development!`,
+    };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    return [
-      {
-        type: "text",
-        text:
-          `✗ Cannot connect to Zotero\n\n` +
-          `Error: ${message}\n\n` +
-          `Troubleshooting:\n` +
-          `1. Make sure Zotero is running\n` +
-          `2. Install the MCP Bridge for Zotero plugin in Zotero:\n` +
-          `   Tools → Add-ons → ⚙️ → Install from file\n` +
-          `3. Restart Zotero after installing the plugin\n` +
-          `4. Check that port ${config.rdp.port} is not blocked`,
-      },
-    ];
+    return {
+      type: "text",
+      text:
+        `${label}✗ Cannot connect to Zotero\n\n` +
+        `Error: ${message}\n\n` +
+        `Troubleshooting:\n` +
+        `1. Make sure Zotero is running\n` +
+        `2. Install the MCP Bridge for Zotero plugin in Zotero:\n` +
+        `   Tools → Add-ons → ⚙️ → Install from file\n` +
+        `3. Restart Zotero after installing the plugin\n` +
+        `4. Check that port ${port} is not blocked\n\n` +
+        `Next: zotero_doctor checks each step and names the one that fails`,
+    };
   }
 }
 
+/**
+ * Handle the ping tool: the instance given, or every configured instance
+ */
+async function handlePing(args: Record<string, unknown>): Promise<TextContent[]> {
+  const names = typeof args.instance === "string" ? [args.instance] : [...config.instances.keys()];
+  const reports: TextContent[] = [];
+  for (const name of names) {
+    reports.push(await pingInstance(name, Boolean(args.capabilities)));
+  }
+  return reports;
+}
+
 // Collect all tools
 const allTools: Tool[] = [
   pingTool,
+  doctorTool,
   executeJsTool,
+  replTool,
+  runScriptTool,
   getPrefTool,
   setPrefTool,
   searchPrefsTool,
+  prefSnapshotTool,
+  watchPrefsTool,
   inspectObjectTool,
+  getSourceTool,
+  searchSourceTool,
   openPreferencesTool,
   screenshotTool,
   inspectElementTool,
   getDomTreeTool,
   getStylesTool,
   listWindowsTool,
+  listTargetsTool,
   clickElementTool,
   sendKeysTool,
   readLogsTool,
   readErrorsTool,
   clearLogsTool,
   watchLogsTool,
+  spyTool,
+  watchNotifierTool,
+  triggerNotifierTool,
   scaffoldBuildTool,
   scaffoldServeTool,
   scaffoldLintTool,
@@ -245,11 +391,42 @@ const allTools: Tool[] = [
   dbQueryTool,
   dbSchemaTool,
   dbStatsTool,
+  debuggerSourcesTool,
+  debuggerBreakpointTool,
+  debuggerPauseTool,
+  debuggerResumeTool,
+  profileStartTool,
+  profileStopTool,
+  memoryLeakCheckTool,
+  networkCaptureTool,
 ];
 
 // Register tool listing handler
+/**
+ * Add the `instance` argument every tool accepts
+ */
+function withInstanceArgument(tool: Tool): Tool {
+  const names = [...config.instances.keys()];
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        instance: {
+          type: "string",
+          enum: names,
+          description:
+            `Zotero instance to run against (default: ${config.defaultInstance}). ` +
+            "Instances are configured with ZOTERO_INSTANCES.",
+        },
+      },
+    },
+  };
+}
+
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: allTools };
+  return { tools: allTools.map(withInstanceArgument) };
 });
 
 // Register prompt listing handler
@@ -263,8 +440,81 @@ server.setRequestHandler(GetPromptRequestSchema, async (request) => {
   return getPromptHandler(name, args || {});
 });
 
-// Register tool execution handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// Register resource handlers
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: allResources };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  return readResource(request.params.uri);
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await subscribeResource(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  unsubscribeResource(request.params.uri);
+  return {};
+});
+
+setResourceUpdateNotifier((uri) => {
+  server.sendResourceUpdated({ uri }).catch(() => undefined);
+});
+
+/**
+ * Progress notifications for a tool call that passed a progressToken.
+ * Screenshots, DOM dumps and DB exports arrive as long strings fetched in
+ * chunks; one call may fetch several, so progress counts the characters of
+ * all of them and never goes backwards.
+ */
+function createProgressReporter(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ((progress: TransferProgress) => void) | undefined {
+  const progressToken = request.params._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  const transfers = new Map<string, TransferProgress>();
+  return (progress) => {
+    transfers.set(progress.actor, progress);
+    let received = 0;
+    let total = 0;
+    for (const transfer of transfers.values()) {
+      received += transfer.received;
+      total += transfer.total;
+    }
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: received,
+          total,
+          message: `Receiving ${received} of ${total} characters from Zotero`,
+        },
+      })
+      .catch(() => undefined);
+  };
+}
+
+// Register tool execution handler. The call runs with its `instance`
+// argument as the current instance, see getRdpClient, and reports its own
+// transfers.
+server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+  const instance = request.params.arguments?.instance;
+  return currentInstance.run(typeof instance === "string" ? instance : undefined, () =>
+    currentProgress.run(createProgressReporter(request, extra), () => handleCallTool(request, extra))
+  );
+});
+
+async function handleCallTool(
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
   const { name, arguments: args = {} } = request.params;
 
   try {
@@ -273,10 +523,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     switch (name) {
       // Core tools
       case "zotero_ping":
-        content = await handlePing();
+        content = await handlePing(args);
+        break;
+
+      case "zotero_doctor":
+        content = await handleDoctor(args as Record<string, unknown>);
         break;
+
       case "zotero_execute_js":
-        content = await handleExecuteJs(args as Record<string, unknown>);
+        // Cancelling the tool call interrupts the running script
+        content = await handleExecuteJs(args as Record<string, unknown>, extra.signal);
+        break;
+      case "zotero_repl":
+        content = await handleRepl(args as Record<string, unknown>, extra.signal);
+        break;
+      case "zotero_run_script":
+        content = await handleRunScript(args as Record<string, unknown>, extra.signal);
         break;
       case "zotero_get_pref":
         content = await handleGetPref(args as Record<string, unknown>);
@@ -287,9 +549,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "zotero_search_prefs":
         content = await handleSearchPrefs(args as Record<string, unknown>);
         break;
+      case "zotero_pref_snapshot":
+        content = await handlePrefSnapshot(args as Record<string, unknown>);
+        break;
+      case "zotero_watch_prefs":
+        content = await handleWatchPrefs(args as Record<string, unknown>);
+        break;
       case "zotero_inspect_object":
         content = await handleInspectObject(args as Record<string, unknown>);
         break;
+      case "zotero_get_source":
+        content = await handleGetSource(args as Record<string, unknown>);
+        break;
+      case "zotero_search_source":
+        content = await handleSearchSource(args as Record<string, unknown>);
+        break;
       case "zotero_open_preferences":
         content = await handleOpenPreferences(args as Record<string, unknown>);
         break;
@@ -312,6 +586,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "zotero_list_windows":
         content = await handleListWindows();
         break;
+      case "zotero_list_targets":
+        content = await handleListTargets(args as Record<string, unknown>);
+        break;
 
       // Interaction tools
       case "zotero_click_element":
@@ -334,6 +611,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "zotero_watch_logs":
         content = await handleWatchLogs(args as Record<string, unknown>);
         break;
+      case "zotero_spy":
+        content = await handleSpy(args as Record<string, unknown>);
+        break;
+      case "zotero_watch_notifier":
+        // Cancelling the tool call ends a wait
+        content = await handleWatchNotifier(args as Record<string, unknown>, extra.signal);
+        break;
+      case "zotero_notifier_trigger":
+        content = await handleTriggerNotifier(args as Record<string, unknown>);
+        break;
 
       // Scaffold tools
       case "zotero_scaffold_build":
@@ -371,6 +658,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         content = await handleDbStats();
         break;
 
+      // Debugger tools
+      case "zotero_debugger_sources":
+        content = await handleDebuggerSources(args as Record<string, unknown>);
+        break;
+      case "zotero_debugger_breakpoint":
+        content = await handleDebuggerBreakpoint(args as Record<string, unknown>);
+        break;
+      case "zotero_debugger_pause":
+        content = await handleDebuggerPause(args as Record<string, unknown>);
+        break;
+      case "zotero_debugger_resume":
+        content = await handleDebuggerResume(args as Record<string, unknown>);
+        break;
+
+      // Profiler tools
+      case "zotero_profile_start":
+        content = await handleProfileStart(args as Record<string, unknown>);
+        break;
+      case "zotero_profile_stop":
+        content = await handleProfileStop(args as Record<string, unknown>);
+        break;
+
+      // Memory tools
+      case "zotero_memory_leak_check":
+        content = await handleMemoryLeakCheck(args as Record<string, unknown>);
+        break;
+
+      // Network tools
+      case "zotero_network_capture":
+        content = await handleNetworkCapture(args as Record<string, unknown>);
+        break;
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -383,7 +702,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
 
 // Main entry point
 async function main() {
@@ -391,7 +710,10 @@ async function main() {
   config = loadConfig();
 
   console.error(`MCP Server Zotero Dev starting...`);
-  console.error(`RDP target: ${config.rdp.host}:${config.rdp.port}`);
+  for (const [name, endpoint] of config.instances) {
+    const marker = name === config.defaultInstance ? " (default)" : "";
+    console.error(`RDP target ${name}${marker}: ${endpoint.host}:${endpoint.port}`);
+  }
 
   if (config.zotero.dataDir) {
     console.error(`Zotero data: ${config.zotero.dataDir}`);
@@ -406,16 +728,12 @@ async function main() {
 
 // Handle shutdown
 process.on("SIGINT", () => {
-  if (rdpClient) {
-    rdpClient.disconnect();
-  }
+  rdpClients.forEach((client) => client.disconnect());
   process.exit(0);
 });
 
 process.on("SIGTERM", () => {
-  if (rdpClient) {
-    rdpClient.disconnect();
-  }
+  rdpClients.forEach((client) => client.disconnect());
   process.exit(0);
 });
 
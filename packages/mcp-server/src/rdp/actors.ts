@@ -7,6 +7,7 @@
  * - Optional event notifications
  */
 
+import type { Capabilities } from "./capabilities.js";
 import type { GripValue, TabDescriptor, ConsoleMessage } from "./protocol.js";
 
 /**
@@ -137,6 +138,25 @@ export interface ConnectionState {
   currentTab?: TabActor;
   consoleActor?: string;
   inspectorActor?: string;
+  threadActor?: string;
+  watcherActor?: string;
+  capabilities?: Capabilities;
+}
+
+/**
+ * A target code can be evaluated in: a process (the parent process is the
+ * default everything runs in) or a frame, such as a reader or note-editor
+ * document, each with its own console actor and global
+ */
+export interface DebugTarget {
+  id: string;
+  kind: "process" | "frame";
+  title: string;
+  url: string;
+  consoleActor: string;
+  threadActor?: string;
+  browsingContextID?: number;
+  isParent?: boolean;
 }
 
 /**
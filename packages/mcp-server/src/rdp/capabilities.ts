@@ -0,0 +1,89 @@
+/**
+ * Capabilities of the connected Zotero, negotiated once per connection
+ *
+ * Zotero 7 runs on Firefox 115 ESR and Zotero 8 on a later ESR; the DevTools
+ * server underneath differs in its traits and actors. The client records what
+ * the server reports instead of having tools guess at runtime:
+ *
+ *   - traits of the root actor (intro packet and getRoot)
+ *   - the application and platform versions from the device actor
+ *   - the global actors (getRoot) and the actors of the parent process target
+ */
+
+import type { DeviceDescription } from "./protocol.js";
+
+export interface Capabilities {
+  applicationType: string;
+  appName: string | null;
+  appVersion: string | null;
+  appMajorVersion: number | null;
+  // Gecko version, which is also the Firefox ESR version
+  platformVersion: string | null;
+  platformMajorVersion: number | null;
+  traits: Record<string, unknown>;
+  processTraits: Record<string, unknown>;
+  // Actor names without the "Actor" suffix, e.g. "device", "console", "thread"
+  globalActors: string[];
+  targetActors: string[];
+}
+
+export interface CapabilitySources {
+  applicationType: string;
+  traits: Record<string, unknown>;
+  root: Record<string, unknown>;
+  description: DeviceDescription | null;
+  processTraits?: Record<string, unknown>;
+  target?: Record<string, unknown>;
+}
+
+/**
+ * Names of the actors a form exposes as `<name>Actor: "<actorID>"`
+ */
+export function actorNames(form: Record<string, unknown> | undefined): string[] {
+  if (!form) return [];
+  return Object.keys(form)
+    .filter((key) => key.endsWith("Actor") && typeof form[key] === "string")
+    .map((key) => key.slice(0, -"Actor".length))
+    .sort();
+}
+
+export function majorVersion(version: string | null | undefined): number | null {
+  const major = version ? parseInt(version, 10) : NaN;
+  return Number.isNaN(major) ? null : major;
+}
+
+export function buildCapabilities(sources: CapabilitySources): Capabilities {
+  const description = sources.description;
+  const appVersion = typeof description?.version === "string" ? description.version : null;
+  const platformVersion = typeof description?.platformversion === "string" ? description.platformversion : null;
+
+  return {
+    applicationType: sources.applicationType,
+    appName: typeof description?.name === "string" ? description.name : null,
+    appVersion,
+    appMajorVersion: majorVersion(appVersion),
+    platformVersion,
+    platformMajorVersion: majorVersion(platformVersion),
+    traits: sources.traits,
+    processTraits: sources.processTraits ?? {},
+    globalActors: actorNames(sources.root),
+    targetActors: actorNames(sources.target),
+  };
+}
+
+/**
+ * Zotero's major version, or null when the application is not Zotero or did
+ * not report a version
+ */
+export function zoteroMajorVersion(capabilities: Capabilities | null | undefined): number | null {
+  return capabilities?.appName === "Zotero" ? capabilities.appMajorVersion : null;
+}
+
+export function hasActor(capabilities: Capabilities, name: string): boolean {
+  const bare = name.endsWith("Actor") ? name.slice(0, -"Actor".length) : name;
+  return capabilities.globalActors.includes(bare) || capabilities.targetActors.includes(bare);
+}
+
+export function hasTrait(capabilities: Capabilities, name: string): boolean {
+  return Boolean(capabilities.traits[name] ?? capabilities.processTraits[name]);
+}
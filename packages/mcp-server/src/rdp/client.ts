@@ -3,8 +3,8 @@
  *
  * Handles:
  * - TCP socket connection
- * - Packet framing (<length>:<json>)
- * - Request/response correlation
+ * - Packet framing (<length>:<json> and bulk packets, see framing.ts)
+ * - Request/response correlation (per actor, plus evaluationResult by resultID)
  * - Automatic reconnection
  */
 
@@ -23,8 +23,39 @@ import type {
   TabDescriptor,
   GripValue,
   GripObject,
+  SourceForm,
+  SourcesResponse,
+  BreakpointLocation,
+  BreakpointOptions,
+  FrameForm,
+  FramesResponse,
+  EnvironmentForm,
+  EnvironmentResponse,
+  PausedPacket,
+  ResumeLimit,
+  PropertyDescriptor,
+  PrototypeAndPropertiesResponse,
+  PropertyIteratorResponse,
+  PropertyIteratorSliceResponse,
+  GripMapEntry,
+  GetWatcherResponse,
+  TargetForm,
+  TargetAvailablePacket,
+  TargetDestroyedPacket,
+  BulkResponse,
+  RootActorResponse,
+  DeviceDescription,
+  DeviceDescriptionResponse,
 } from "./protocol.js";
-import { type ConnectionState, createConnectionState, findMainWindow } from "./actors.js";
+import { PacketRecorder } from "./recording.js";
+import { encodeBulkPacket, readFrame, type BulkPacket } from "./framing.js";
+import { buildCapabilities, type Capabilities } from "./capabilities.js";
+import {
+  type ConnectionState,
+  type DebugTarget,
+  createConnectionState,
+  findMainWindow,
+} from "./actors.js";
 
 export interface RDPClientOptions {
   host: string;
@@ -32,9 +63,93 @@ export interface RDPClientOptions {
   reconnectDelay?: number;
   maxReconnectAttempts?: number;
   timeout?: number;
+  // Append every packet sent and received to this JSONL file (see recording.ts)
+  recordPath?: string;
 }
 
-const DEFAULT_OPTIONS: Required<RDPClientOptions> = {
+export interface RequestOptions {
+  // Overrides RDPClientOptions.timeout for this request (ms)
+  timeoutMs?: number;
+  // Rejects the request when aborted, e.g. when the MCP tool call is cancelled
+  signal?: AbortSignal;
+}
+
+export interface LongStringOptions {
+  // Characters per substring request
+  chunkSize?: number;
+  // Called after each chunk; also emitted as a "transferProgress" event
+  onProgress?: (received: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress of a long string fetch, emitted as "transferProgress"
+ */
+export interface TransferProgress {
+  actor: string;
+  received: number;
+  total: number;
+}
+
+/**
+ * A request given up on before its reply arrived, because its timeout expired
+ * or its signal was aborted. The work it started may still be running in Zotero.
+ */
+export class RequestAbortedError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "timeout" | "cancelled"
+  ) {
+    super(message);
+    this.name = "RequestAbortedError";
+  }
+}
+
+/**
+ * Outcome of interruptEvaluation
+ * - paused: the thread stopped and was resumed; `ended` tells whether the
+ *   paused frame was made to throw, which ends the script unless it catches
+ * - requested: the interrupt was accepted but no pause followed in time; it
+ *   was cancelled, so the script runs on
+ * - unresponsive: Zotero's main thread did not answer, typically a
+ *   synchronous loop that never yields; a pause the interrupt causes once it
+ *   does is resumed at once
+ */
+export interface InterruptOutcome {
+  status: "paused" | "requested" | "unresponsive";
+  paused?: PausedPacket;
+  ended?: boolean;
+}
+
+export interface InterruptOptions {
+  // Called while the thread is paused, before the script is ended, e.g. to
+  // read its stack
+  onPaused?: (paused: PausedPacket) => Promise<void>;
+  timeoutMs?: number;
+}
+
+export interface GripExpansionOptions {
+  // Levels of nested objects to expand below the top-level value
+  maxDepth?: number;
+  // Total number of values (properties, items, entries) to emit
+  maxNodes?: number;
+}
+
+export interface GripExpansionResult {
+  value: unknown;
+  // True when the depth or node budget cut the expansion short
+  truncated: boolean;
+}
+
+interface ExpansionBudget {
+  maxDepth: number;
+  remaining: number;
+  truncated: boolean;
+  // Actors the expansion's own requests created, released when it is done
+  created: Set<string>;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RDPClientOptions, "recordPath">> = {
   host: "127.0.0.1",
   port: 6100,
   reconnectDelay: 1000,
@@ -59,19 +174,57 @@ const HEALTH_CHECK_THRESHOLD_MS = 10000; // 10 seconds
  */
 const KEEPALIVE_INTERVAL_MS: number = 30000; // 30 seconds
 
+/**
+ * Default budget for expandGrip. Every expanded object costs one or two
+ * round trips to its actor, so the node budget also bounds the latency.
+ */
+const DEFAULT_EXPAND_DEPTH = 3;
+const DEFAULT_EXPAND_NODES = 500;
+
+/**
+ * How long interruptEvaluation waits for the thread actor (ms). A main thread
+ * stuck in a synchronous loop never answers, so don't wait for the full timeout.
+ */
+const INTERRUPT_TIMEOUT_MS = 3000;
+
+/**
+ * Long strings (screenshots, DOM dumps, DB exports) are fetched in chunks, each
+ * with its own timeout, instead of one substring request for the whole value.
+ * Several chunks are requested at once: the actor answers them in order, so
+ * pipelining hides the round trips without reordering the pieces.
+ */
+const LONG_STRING_CHUNK_SIZE = 512 * 1024;
+const LONG_STRING_PIPELINE = 4;
+
+// Classes whose contents are only reachable through enumEntries
+const ENTRY_CLASSES = new Set(["Map", "Set", "WeakMap", "WeakSet"]);
+
 interface PendingRequest {
   resolve: (value: RDPResponse) => void;
   reject: (error: Error) => void;
   timeout: NodeJS.Timeout;
+  // evaluateJSAsync replies with a { resultID } acknowledgment first; the real
+  // result follows later as an "evaluationResult" packet carrying that ID
+  awaitsEvaluationResult: boolean;
+  // Set once the request timed out. The entry stays queued so that its late
+  // reply is consumed here instead of being handed to the next request.
+  settled: boolean;
+  // The caller allowed more time than the client-wide timeout, which is also
+  // the socket's idle timeout; the connection must not be dropped meanwhile
+  extendedTimeout: boolean;
 }
 
 export class RDPClient extends EventEmitter {
-  private options: Required<RDPClientOptions>;
+  private options: Required<Omit<RDPClientOptions, "recordPath">>;
+  private recorder: PacketRecorder | null;
   private socket: Socket | null = null;
   private state: ConnectionState;
-  private pendingRequests: Map<string, PendingRequest> = new Map();
-  private messageIdCounter = 0;
-  private buffer = Buffer.alloc(0);
+  // One FIFO per actor: the protocol guarantees an actor answers its requests
+  // in the order it received them, but says nothing about ordering across actors
+  private pendingRequests: Map<string, PendingRequest[]> = new Map();
+  // evaluateJSAsync requests that were acknowledged, keyed by resultID
+  private pendingEvaluations: Map<string, PendingRequest> = new Map();
+  private buffer: Buffer = Buffer.alloc(0);
   private reconnectAttempts = 0;
 
   // Connection health tracking
@@ -81,9 +234,29 @@ export class RDPClient extends EventEmitter {
   private keepaliveTimer: NodeJS.Timeout | null = null;
   private isKeepaliveEnabled = true;
 
+  // Debugger state. Breakpoints are remembered here so they can be set again
+  // whenever we attach to a new thread actor (after a reconnect, for instance).
+  private attachedThreadActor: string | null = null;
+  private pausedPacket: PausedPacket | null = null;
+  // Set when interruptEvaluation gave up on an interrupt it sent: the pause it
+  // causes later is resumed instead of leaving unrelated code suspended
+  private abandonedInterrupt = false;
+  private breakpoints: Map<string, { location: BreakpointLocation; options: BreakpointOptions }> =
+    new Map();
+
+  // Console streaming. The listener types are remembered so they can be
+  // started again on whatever console actor we end up talking to next.
+  private consoleListeners: string[] | null = null;
+  private listeningConsoleActor: string | null = null;
+
+  // Frame targets reported by the watcher, kept current by its
+  // target-available-form / target-destroyed-form events
+  private frameTargets: Map<string, TargetForm> = new Map();
+
   constructor(options: Partial<RDPClientOptions> = {}) {
     super();
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.recorder = options.recordPath ? new PacketRecorder(options.recordPath) : null;
     this.state = createConnectionState();
   }
 
@@ -167,11 +340,29 @@ export class RDPClient extends EventEmitter {
       this.socket = null;
     }
     this.state = createConnectionState();
-    this.pendingRequests.forEach((req) => {
+    this.attachedThreadActor = null;
+    this.pausedPacket = null;
+    this.abandonedInterrupt = false;
+    this.listeningConsoleActor = null;
+    this.frameTargets.clear();
+    this.rejectAllPending(new Error("Connection closed"));
+  }
+
+  /**
+   * Reject every in-flight request (queued per actor or awaiting an
+   * evaluationResult) and forget about them
+   */
+  private rejectAllPending(error: Error): void {
+    const settle = (req: PendingRequest) => {
+      if (req.settled) return;
+      req.settled = true;
       clearTimeout(req.timeout);
-      req.reject(new Error("Connection closed"));
-    });
+      req.reject(error);
+    };
+    this.pendingRequests.forEach((queue) => queue.forEach(settle));
+    this.pendingEvaluations.forEach(settle);
     this.pendingRequests.clear();
+    this.pendingEvaluations.clear();
   }
 
   /**
@@ -242,6 +433,7 @@ export class RDPClient extends EventEmitter {
    */
   invalidateActorCache(): void {
     this.state.consoleActor = undefined;
+    this.state.threadActor = undefined;
     this.state.currentTab = undefined;
     this.consoleActorCachedAt = 0;
   }
@@ -386,7 +578,10 @@ export class RDPClient extends EventEmitter {
   /**
    * Send a raw RDP message and wait for response
    */
-  async sendMessage<T extends RDPResponse>(message: Record<string, unknown>): Promise<T> {
+  async sendMessage<T extends RDPResponse>(
+    message: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<T> {
     if (!this.socket || !this.state.connected) {
       throw new Error(
         "Not connected to Zotero. Ensure:\n" +
@@ -396,40 +591,132 @@ export class RDPClient extends EventEmitter {
       );
     }
 
-    return new Promise((resolve, reject) => {
-      const messageId = `msg-${++this.messageIdCounter}`;
+    // RDP packet format: <length>:<json>
+    // The length prefix is the UTF-8 BYTE length, not the JS character
+    // count: json.length undercounts any non-ASCII payload (e.g. emoji or
+    // accented text inside code strings), which corrupts the stream and
+    // wedges the connection. The receive path (processBuffer) already does
+    // byte-based framing for the same reason.
+    const json = JSON.stringify(message);
+    const packet = `${Buffer.byteLength(json, "utf8")}:${json}`;
+
+    return this.request<T>(String(message.to), String(message.type), packet, options, () =>
+      this.recorder?.write("send", message)
+    );
+  }
+
+  /**
+   * Send a bulk packet (raw bytes, see framing.ts) and wait for the actor's reply
+   */
+  async sendBulk<T extends RDPResponse>(
+    actor: string,
+    type: string,
+    data: Buffer,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    if (!this.socket || !this.state.connected) {
+      throw new Error(
+        "Not connected to Zotero. Ensure:\n" +
+          "1. Zotero is running\n" +
+          "2. MCP Bridge for Zotero plugin is installed\n" +
+          `3. Port ${this.options.port} is not blocked`
+      );
+    }
+
+    return this.request<T>(actor, type, encodeBulkPacket(actor, type, data), options, () =>
+      this.recorder?.write("send", { to: actor, type, bulk: true, length: data.length, data: data.toString("base64") })
+    );
+  }
+
+  /**
+   * Queue a request for its actor's reply and write its frame
+   */
+  private request<T extends RDPResponse>(
+    actor: string,
+    type: string,
+    frame: string | Buffer,
+    options: RequestOptions,
+    record: () => void
+  ): Promise<T> {
+    const { signal } = options;
+    const timeoutMs = options.timeoutMs ?? this.options.timeout;
 
-      // Set up timeout
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(messageId);
-        reject(new Error(`Request timeout for ${message.type} to ${message.to}`));
-      }, this.options.timeout);
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(`Request cancelled: ${type} to ${actor}`, "cancelled"));
+    }
 
-      this.pendingRequests.set(messageId, {
+    return new Promise((resolve, reject) => {
+      // Like a timeout, giving up leaves the entry queued as settled
+      const giveUp = (error: RequestAbortedError) => {
+        if (pending.settled) return;
+        pending.settled = true;
+        clearTimeout(pending.timeout);
+        this.forgetEvaluation(pending);
+        reject(error);
+      };
+
+      const pending: PendingRequest = {
         resolve: resolve as (value: RDPResponse) => void,
         reject,
-        timeout,
-      });
+        awaitsEvaluationResult: type === "evaluateJSAsync",
+        settled: false,
+        extendedTimeout: timeoutMs > this.options.timeout,
+        // Set up timeout
+        timeout: setTimeout(() => {
+          giveUp(new RequestAbortedError(`Request timeout for ${type} to ${actor} after ${timeoutMs}ms`, "timeout"));
+        }, timeoutMs),
+      };
+
+      signal?.addEventListener(
+        "abort",
+        () => giveUp(new RequestAbortedError(`Request cancelled: ${type} to ${actor}`, "cancelled")),
+        { once: true }
+      );
+
+      const queue = this.pendingRequests.get(actor);
+      if (queue) {
+        queue.push(pending);
+      } else {
+        this.pendingRequests.set(actor, [pending]);
+      }
+
+      record();
 
-      // RDP packet format: <length>:<json>
-      // The length prefix is the UTF-8 BYTE length, not the JS character
-      // count: json.length undercounts any non-ASCII payload (e.g. emoji or
-      // accented text inside code strings), which corrupts the stream and
-      // wedges the connection. The receive path (processBuffer) already does
-      // byte-based framing for the same reason.
-      const json = JSON.stringify(message);
-      const packet = `${Buffer.byteLength(json, "utf8")}:${json}`;
-
-      this.socket!.write(packet, (err) => {
-        if (err) {
-          this.pendingRequests.delete(messageId);
-          clearTimeout(timeout);
+      this.socket!.write(frame, (err) => {
+        if (err && !pending.settled) {
+          // Nothing was sent, so no reply will arrive for this entry
+          pending.settled = true;
+          clearTimeout(pending.timeout);
+          this.removeFromQueue(actor, pending);
           reject(err);
         }
       });
     });
   }
 
+  /**
+   * Drop a request from its actor's queue
+   */
+  private removeFromQueue(actor: string, pending: PendingRequest): void {
+    const queue = this.pendingRequests.get(actor);
+    if (!queue) return;
+    const index = queue.indexOf(pending);
+    if (index !== -1) queue.splice(index, 1);
+    if (queue.length === 0) this.pendingRequests.delete(actor);
+  }
+
+  /**
+   * Drop a request from the acknowledged-evaluation table, if it is there
+   */
+  private forgetEvaluation(pending: PendingRequest): void {
+    for (const [resultID, entry] of this.pendingEvaluations) {
+      if (entry === pending) {
+        this.pendingEvaluations.delete(resultID);
+        return;
+      }
+    }
+  }
+
   /**
    * Get root actor info
    */
@@ -499,11 +786,15 @@ export class RDPClient extends EventEmitter {
     // Handle frame-based response (traditional tabs)
     if (response.frame?.consoleActor) {
       this.state.consoleActor = response.frame.consoleActor;
+      if (typeof response.frame.threadActor === "string") {
+        this.state.threadActor = response.frame.threadActor;
+      }
     }
 
     // Handle process-based response (Zotero)
     if (response.process?.consoleActor) {
       this.state.consoleActor = response.process.consoleActor;
+      this.state.threadActor = response.process.threadActor;
       // Store additional info about the target
       this.state.currentTab = {
         actorID: response.process.actor,
@@ -516,6 +807,70 @@ export class RDPClient extends EventEmitter {
     return response;
   }
 
+  /**
+   * What the connected server supports (see capabilities.ts). Negotiated on
+   * first use after each connect and cached until the connection closes.
+   */
+  async getCapabilities(): Promise<Capabilities> {
+    if (!this.state.capabilities) {
+      this.state.capabilities = await this.negotiateCapabilities();
+    }
+    return this.state.capabilities;
+  }
+
+  private async negotiateCapabilities(): Promise<Capabilities> {
+    const root = await this.sendMessage<RootActorResponse>({ to: "root", type: "getRoot" });
+    const traits = { ...this.state.root?.traits, ...root.traits };
+    this.state.root = {
+      actorID: "root",
+      applicationType: root.applicationType ?? this.state.root?.applicationType ?? "unknown",
+      traits,
+    };
+
+    let description: DeviceDescription | null = null;
+    if (typeof root.deviceActor === "string") {
+      try {
+        const response = await this.sendMessage<DeviceDescriptionResponse>({
+          to: root.deviceActor,
+          type: "getDescription",
+        });
+        description = response.value ?? null;
+      } catch {
+        // Older servers without getDescription; fall back to Services.appinfo below
+      }
+    }
+
+    const processes = await this.listProcesses();
+    const parent = processes.find((p) => p.isParent);
+    let target: Record<string, unknown> | undefined;
+    if (parent) {
+      // Not this.getTarget(): negotiating must not change the default target
+      const response = await this.sendMessage<GetTargetResponse>({ to: parent.actor, type: "getTarget" });
+      target = (response.process ?? response.frame) as Record<string, unknown> | undefined;
+    }
+
+    if (!description) {
+      try {
+        const response = await this.evaluateJS(
+          "JSON.stringify({ name: Services.appinfo.name, version: Services.appinfo.version, platformversion: Services.appinfo.platformVersion })"
+        );
+        const json = await this.gripToValueAsync(response.result);
+        if (typeof json === "string") description = JSON.parse(json) as DeviceDescription;
+      } catch {
+        // Versions stay unknown
+      }
+    }
+
+    return buildCapabilities({
+      applicationType: this.state.root.applicationType,
+      traits,
+      root,
+      description,
+      processTraits: parent?.traits,
+      target,
+    });
+  }
+
   /**
    * Execute JavaScript in the Zotero context
    *
@@ -525,14 +880,14 @@ export class RDPClient extends EventEmitter {
    * - Automatic reconnection on recoverable errors
    * - Exponential backoff for consecutive failures
    */
-  async evaluateJS(code: string, retryCount = 0): Promise<EvaluateJSResponse> {
+  async evaluateJS(code: string, retryCount = 0, options: RequestOptions = {}): Promise<EvaluateJSResponse> {
     const maxRetries = 2;
 
     // Check connection state and reconnect if needed
     if (!this.isConnected()) {
       if (retryCount < maxRetries) {
         await this.reconnect();
-        return this.evaluateJS(code, retryCount + 1);
+        return this.evaluateJS(code, retryCount + 1, options);
       }
       throw new Error(
         "Not connected to Zotero. Ensure:\n" +
@@ -548,7 +903,7 @@ export class RDPClient extends EventEmitter {
       const healthy = await this.checkHealth();
       if (!healthy) {
         await this.reconnect();
-        return this.evaluateJS(code, retryCount + 1);
+        return this.evaluateJS(code, retryCount + 1, options);
       }
     }
 
@@ -568,13 +923,22 @@ export class RDPClient extends EventEmitter {
       throw new Error("No console actor available. Cannot execute JavaScript.");
     }
 
+    // A new console actor does not inherit the listeners of the old one.
+    // Failing to restart them must not fail the evaluation; the next call retries.
+    if (this.consoleListeners && this.listeningConsoleActor !== this.state.consoleActor) {
+      await this.startConsoleListeners(this.consoleListeners).catch(() => undefined);
+    }
+
     try {
-      const response = await this.sendMessage<EvaluateJSResponse>({
-        to: this.state.consoleActor,
-        type: "evaluateJSAsync",
-        text: code,
-        mapped: { await: true },
-      });
+      const response = await this.sendMessage<EvaluateJSResponse>(
+        {
+          to: this.state.consoleActor,
+          type: "evaluateJSAsync",
+          text: code,
+          mapped: { await: true },
+        },
+        options
+      );
 
       // Success! Update health tracking
       this.lastSuccessfulOperation = Date.now();
@@ -599,7 +963,7 @@ export class RDPClient extends EventEmitter {
         this.invalidateActorCache();
         // Small delay before retry - server may need time to stabilize
         await this.delay(100 * (retryCount + 1));
-        return this.evaluateJS(code, retryCount + 1);
+        return this.evaluateJS(code, retryCount + 1, options);
       }
 
       // Connection errors: reconnect so the NEXT call works, but DO NOT
@@ -682,6 +1046,37 @@ export class RDPClient extends EventEmitter {
     });
   }
 
+  /**
+   * Ask the console actor to push messages as they happen
+   *
+   * Once started, pageError and consoleAPICall packets arrive as events and
+   * are emitted as "message". The listeners are started again automatically
+   * when a later evaluation lands on a different console actor.
+   */
+  async startConsoleListeners(listeners: string[] = ["PageError", "ConsoleAPI"]): Promise<void> {
+    this.consoleListeners = listeners;
+
+    if (!this.state.consoleActor) {
+      await this.ensureConsoleActor();
+      this.consoleActorCachedAt = Date.now();
+    }
+
+    const consoleActor = this.state.consoleActor;
+    if (!consoleActor) {
+      throw new Error("No console actor available");
+    }
+    if (this.listeningConsoleActor === consoleActor) {
+      return;
+    }
+
+    await this.sendMessage({
+      to: consoleActor,
+      type: "startListeners",
+      listeners,
+    });
+    this.listeningConsoleActor = consoleActor;
+  }
+
   /**
    * Ensure we have a console actor by connecting to the main Zotero process
    *
@@ -765,6 +1160,493 @@ export class RDPClient extends EventEmitter {
     }
   }
 
+  // ───────────────────────────────────────────────────────────────────────────
+  // Targets (processes and frames)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * List every target code can be evaluated in
+   *
+   * Processes come from listProcesses/getTarget. Frames come from the watcher
+   * of the parent process descriptor: each chrome window, and each content
+   * document inside one (reader.html, the PDF.js viewer, the note editor), is
+   * a window global with its own console actor.
+   */
+  async listTargets(): Promise<DebugTarget[]> {
+    if (!this.state.root) {
+      await this.getRoot();
+    }
+
+    const processes = await this.listProcesses();
+    const targets: DebugTarget[] = [];
+
+    for (const descriptor of processes) {
+      try {
+        // Not this.getTarget(): that would make this process the default target
+        const response = await this.sendMessage<GetTargetResponse>({
+          to: descriptor.actor,
+          type: "getTarget",
+        });
+        const form = response.process ?? response.frame;
+        if (form?.consoleActor) {
+          targets.push({
+            id: form.actor,
+            kind: "process",
+            title: String(form.title ?? (descriptor.isParent ? "Parent process" : `Process ${descriptor.id}`)),
+            url: String(form.url ?? ""),
+            consoleActor: form.consoleActor,
+            threadActor: typeof form.threadActor === "string" ? form.threadActor : undefined,
+            isParent: descriptor.isParent,
+          });
+        }
+      } catch {
+        // The process exited between listProcesses and getTarget
+      }
+    }
+
+    const parent = processes.find((p) => p.isParent);
+    if (parent?.traits?.watcher) {
+      await this.ensureFrameWatcher(parent.actor);
+    }
+
+    for (const form of this.frameTargets.values()) {
+      targets.push({
+        id: form.actor,
+        kind: "frame",
+        title: form.title ?? "",
+        url: form.url ?? "",
+        consoleActor: form.consoleActor,
+        threadActor: form.threadActor,
+        browsingContextID: form.browsingContextID,
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Start watching frame targets. The watcher sends a target-available-form
+   * event for every existing frame before it answers watchTargets, then one
+   * per frame created later.
+   */
+  private async ensureFrameWatcher(descriptorActor: string): Promise<void> {
+    if (this.state.watcherActor) {
+      return;
+    }
+
+    const watcher = await this.sendMessage<GetWatcherResponse>({
+      to: descriptorActor,
+      type: "getWatcher",
+      isServerTargetSwitchingEnabled: true,
+      isPopupDebuggingEnabled: false,
+    });
+
+    // Set before watchTargets so its events are recognized
+    this.state.watcherActor = watcher.actor;
+    try {
+      await this.sendMessage({
+        to: watcher.actor,
+        type: "watchTargets",
+        targetType: "frame",
+      });
+    } catch (error) {
+      this.state.watcherActor = undefined;
+      this.frameTargets.clear();
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a target selector: a target id from listTargets, or a URL or
+   * title (substring, case-insensitive), e.g. "reader.html" or "note-editor".
+   * "main" is the parent process, the default for every tool.
+   */
+  async resolveTarget(selector: string): Promise<DebugTarget> {
+    const targets = await this.listTargets();
+
+    if (selector === "main" || selector === "parent") {
+      const parent = targets.find((t) => t.kind === "process" && t.isParent);
+      if (parent) return parent;
+    }
+
+    const byId = targets.find((t) => t.id === selector);
+    if (byId) return byId;
+
+    const byUrl = targets.filter((t) => t.url === selector);
+    if (byUrl.length === 1) return byUrl[0];
+
+    const needle = selector.toLowerCase();
+    const matches = targets.filter(
+      (t) => t.url.toLowerCase().includes(needle) || t.title.toLowerCase().includes(needle)
+    );
+    if (matches.length === 1) {
+      return matches[0];
+    }
+
+    if (matches.length === 0) {
+      throw new Error(
+        `No target matches "${selector}". ` +
+          "Use zotero_list_targets to see the available processes and frames " +
+          "(a reader or note editor only has a target while it is open)."
+      );
+    }
+
+    const candidates = matches
+      .slice(0, 10)
+      .map((t) => `  ${t.id}  ${t.url}`)
+      .join("\n");
+    throw new Error(
+      `"${selector}" matches ${matches.length} targets; pass a target id or a more specific URL:\n${candidates}`
+    );
+  }
+
+  /**
+   * Evaluate JavaScript in a specific target. Without a target (or "main")
+   * this is evaluateJS, with its reconnect and retry handling.
+   */
+  async evaluateJSInTarget(
+    code: string,
+    target?: string,
+    options: RequestOptions = {}
+  ): Promise<EvaluateJSResponse> {
+    if (!target || target === "main") {
+      return this.evaluateJS(code, 0, options);
+    }
+
+    if (!this.isConnected()) {
+      await this.reconnect();
+    }
+
+    const resolved = await this.resolveTarget(target);
+    try {
+      return await this.sendMessage<EvaluateJSResponse>(
+        {
+          to: resolved.consoleActor,
+          type: "evaluateJSAsync",
+          text: code,
+          mapped: { await: true },
+        },
+        options
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes("noSuchActor") || errorMessage.includes("No such actor")) {
+        this.frameTargets.delete(resolved.id);
+        throw new Error(
+          `Target ${resolved.id} (${resolved.url}) no longer exists; the frame navigated or closed. ` +
+            "Run zotero_list_targets again."
+        );
+      }
+      throw error;
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Debugger (thread actor)
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Ensure we are attached to the parent process's thread actor
+   *
+   * The thread actor comes with the same getTarget response as the console
+   * actor. It must be attached before breakpoints take effect; on a fresh
+   * attach we set every remembered breakpoint again.
+   */
+  async ensureThreadActor(): Promise<string> {
+    if (!this.state.threadActor) {
+      await this.ensureConsoleActor();
+      this.consoleActorCachedAt = Date.now();
+    }
+
+    const threadActor = this.state.threadActor;
+    if (!threadActor) {
+      throw new Error(
+        "No thread actor available. The debugger needs the parent process target; ensure:\n" +
+          "1. devtools.chrome.enabled is true (the MCP Bridge plugin sets it)\n" +
+          "2. Zotero was restarted after installing the MCP Bridge plugin"
+      );
+    }
+
+    if (this.attachedThreadActor !== threadActor) {
+      try {
+        await this.sendMessage({
+          to: threadActor,
+          type: "attach",
+          options: {
+            pauseOnExceptions: false,
+            ignoreCaughtExceptions: true,
+            shouldShowOverlay: false,
+            skipBreakpoints: false,
+          },
+        });
+      } catch (error) {
+        // Someone (e.g. a Browser Toolbox) attached first - that is fine
+        const message = error instanceof Error ? error.message : String(error);
+        if (!/already attached|wrongState/i.test(message)) {
+          throw error;
+        }
+      }
+      this.attachedThreadActor = threadActor;
+
+      for (const { location, options } of this.breakpoints.values()) {
+        await this.sendMessage({ to: threadActor, type: "setBreakpoint", location, options });
+      }
+    }
+
+    return threadActor;
+  }
+
+  /**
+   * List the scripts the thread actor knows about
+   */
+  async listSources(): Promise<SourceForm[]> {
+    const threadActor = await this.ensureThreadActor();
+    const response = await this.sendMessage<SourcesResponse>({
+      to: threadActor,
+      type: "sources",
+    });
+    return response.sources || [];
+  }
+
+  /**
+   * Set a breakpoint by URL and line. The thread actor keeps it pending until
+   * a matching script is loaded, so this also works before a plugin starts.
+   */
+  async setBreakpoint(location: BreakpointLocation, options: BreakpointOptions = {}): Promise<void> {
+    const threadActor = await this.ensureThreadActor();
+    await this.sendMessage({ to: threadActor, type: "setBreakpoint", location, options });
+    this.breakpoints.set(RDPClient.breakpointKey(location), { location, options });
+  }
+
+  /**
+   * Remove a breakpoint previously set with setBreakpoint
+   */
+  async removeBreakpoint(location: BreakpointLocation): Promise<void> {
+    const threadActor = await this.ensureThreadActor();
+    await this.sendMessage({ to: threadActor, type: "removeBreakpoint", location });
+    this.breakpoints.delete(RDPClient.breakpointKey(location));
+  }
+
+  /**
+   * Breakpoints currently set through this client
+   */
+  getBreakpoints(): Array<{ location: BreakpointLocation; options: BreakpointOptions }> {
+    return Array.from(this.breakpoints.values());
+  }
+
+  private static breakpointKey(location: BreakpointLocation): string {
+    return `${location.sourceUrl}:${location.line}:${location.column ?? ""}`;
+  }
+
+  /**
+   * The last "paused" packet, or null while the thread is running
+   */
+  getPausedPacket(): PausedPacket | null {
+    return this.pausedPacket;
+  }
+
+  /**
+   * Wait until the thread pauses. Resolves immediately if it already is
+   * paused, and with null if nothing paused within timeoutMs.
+   */
+  waitForPause(timeoutMs: number): Promise<PausedPacket | null> {
+    if (this.pausedPacket) {
+      return Promise.resolve(this.pausedPacket);
+    }
+
+    return new Promise((resolve) => {
+      const onPaused = (packet: PausedPacket) => {
+        clearTimeout(timer);
+        resolve(packet);
+      };
+      const timer = setTimeout(() => {
+        this.removeListener("paused", onPaused);
+        resolve(null);
+      }, timeoutMs);
+      this.once("paused", onPaused);
+    });
+  }
+
+  /**
+   * Ask the running thread to pause at the next opportunity
+   */
+  async interruptThread(): Promise<void> {
+    const threadActor = await this.ensureThreadActor();
+    this.abandonedInterrupt = false;
+    await this.sendMessage({ to: threadActor, type: "interrupt", when: "onNext" });
+  }
+
+  /**
+   * Stop a runaway evaluation through the thread actor
+   *
+   * Rejecting the request on our side leaves the script running in Zotero.
+   * Interrupting pauses the thread the next time it runs JavaScript: at once
+   * for a script that awaits or calls into other code, but not before a
+   * synchronous loop yields, since the DevTools server shares Zotero's main
+   * thread. A paused script is ended with endPausedFrame and the thread
+   * resumed, so Zotero is never left suspended; an interrupt that did not
+   * pause in time is cancelled.
+   */
+  async interruptEvaluation(options: InterruptOptions = {}): Promise<InterruptOutcome> {
+    const timeoutMs = options.timeoutMs ?? INTERRUPT_TIMEOUT_MS;
+    let armed = false;
+
+    const interrupt = async (): Promise<InterruptOutcome> => {
+      let paused = this.pausedPacket;
+      if (!paused) {
+        const threadActor = await this.ensureThreadActor();
+        this.abandonedInterrupt = false;
+        armed = true;
+        await this.sendMessage({ to: threadActor, type: "interrupt", when: "onNext" }, { timeoutMs });
+        paused = await this.waitForPause(timeoutMs);
+        if (!paused) {
+          this.cancelInterrupt();
+          return { status: "requested" };
+        }
+      }
+      armed = false;
+
+      await options.onPaused?.(paused).catch(() => {});
+      const ended = await this.endPausedFrame(paused, timeoutMs);
+      await this.resumeThread();
+      return { status: "paused", paused, ended };
+    };
+
+    // Attaching to the thread takes round trips of its own, each of which
+    // would wait for the full timeout on a blocked main thread
+    let timer: NodeJS.Timeout | undefined;
+    const unresponsive = new Promise<InterruptOutcome>((resolve) => {
+      timer = setTimeout(() => resolve({ status: "unresponsive" }), timeoutMs * 2);
+    });
+    let outcome: InterruptOutcome;
+    try {
+      outcome = await Promise.race([
+        interrupt().catch((): InterruptOutcome => ({ status: "unresponsive" })),
+        unresponsive,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (outcome.status === "unresponsive" && armed) {
+      this.cancelInterrupt();
+    }
+    return outcome;
+  }
+
+  /**
+   * Disarm an interrupt that did not pause in time. A resume clears the
+   * thread actor's pending interrupt; should the pause still happen (the
+   * request was queued behind a busy main thread), it is resumed on arrival.
+   */
+  private cancelInterrupt(): void {
+    this.abandonedInterrupt = true;
+    if (this.attachedThreadActor) {
+      this.sendMessage({ to: this.attachedThreadActor, type: "resume", resumeLimit: null }).catch(() => {});
+    }
+  }
+
+  /**
+   * Make the paused frame throw as soon as the thread resumes, which ends the
+   * script unless it catches the error
+   *
+   * The thread actor cannot complete a frame (its forceCompletion was never
+   * implemented), so this evaluates, in the nested event loop of the pause, a
+   * Debugger of our own in an invisible sandbox. It finds the frame by its
+   * line and sets an onStep hook that returns a throw completion. Resolves
+   * with false when the frame was not found or the evaluation failed.
+   */
+  async endPausedFrame(paused: PausedPacket, timeoutMs = INTERRUPT_TIMEOUT_MS): Promise<boolean> {
+    const line = paused.frame?.where?.line;
+    if (line === undefined) {
+      return false;
+    }
+
+    const code = `
+      (() => {
+        const { addDebuggerToGlobal } = ChromeUtils.importESModule("resource://gre/modules/jsdebugger.sys.mjs");
+        const sandbox = Cu.Sandbox(Services.scriptSecurityManager.getSystemPrincipal(), {
+          freshCompartment: true,
+          invisibleToDebugger: true
+        });
+        addDebuggerToGlobal(sandbox);
+        const dbg = new sandbox.Debugger();
+        dbg.addAllGlobalsAsDebuggees();
+
+        // The frames of this evaluation come first; the paused frame is the
+        // next one on its line
+        const own = (frame) => frame.script && frame.script.source.text.includes("_mcpFrameEnder");
+        let frame = dbg.getNewestFrame();
+        while (frame && (own(frame) || !frame.script || frame.script.getOffsetMetadata(frame.offset).lineNumber !== ${line})) {
+          frame = frame.older;
+        }
+        if (!frame) {
+          dbg.removeAllDebuggees();
+          return false;
+        }
+
+        const error = frame.script.global.makeDebuggeeValue(
+          new Error("Evaluation stopped by the MCP server: it ran past its timeout or was cancelled")
+        );
+        // Keep the Debugger alive until its hook has run
+        globalThis._mcpFrameEnder = dbg;
+        frame.onStep = () => {
+          frame.onStep = undefined;
+          dbg.removeAllDebuggees();
+          delete globalThis._mcpFrameEnder;
+          return { throw: error };
+        };
+        return true;
+      })()
+    `;
+
+    try {
+      const response = await this.evaluateJS(code, 0, { timeoutMs });
+      return !response.exception && response.result === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resume a paused thread, optionally stepping (over, in, or out)
+   */
+  async resumeThread(limit?: ResumeLimit): Promise<void> {
+    const threadActor = await this.ensureThreadActor();
+    // Clear before sending: the next "paused" packet may arrive before the
+    // reply to the resume request does
+    this.pausedPacket = null;
+    await this.sendMessage({
+      to: threadActor,
+      type: "resume",
+      resumeLimit: limit ? { type: limit } : null,
+    });
+  }
+
+  /**
+   * Get the stack of the paused thread, innermost frame first
+   */
+  async getFrames(start = 0, count = 20): Promise<FrameForm[]> {
+    const threadActor = await this.ensureThreadActor();
+    const response = await this.sendMessage<FramesResponse>({
+      to: threadActor,
+      type: "frames",
+      start,
+      count,
+    });
+    return response.frames || [];
+  }
+
+  /**
+   * Get the scope chain of a paused frame
+   */
+  async getFrameEnvironment(frameActor: string): Promise<EnvironmentForm> {
+    return this.sendMessage<EnvironmentResponse>({
+      to: frameActor,
+      type: "getEnvironment",
+    });
+  }
+
   /**
    * Handle incoming data from socket
    *
@@ -781,48 +1663,66 @@ export class RDPClient extends EventEmitter {
   /**
    * Process buffered data to extract complete messages
    *
-   * RDP packet format: <byte_length>:<json_utf8>
-   * The length prefix is the byte count of the JSON payload.
-   * We work entirely with Buffers to ensure correct byte-based framing.
+   * RDP packet format: <byte_length>:<json_utf8>, or a bulk packet
+   * (bulk <actor> <type> <byte_length>:<bytes>). Lengths are byte counts, so
+   * framing works entirely on Buffers (see framing.ts).
    */
   private processBuffer(): void {
     while (true) {
-      // Find the colon separator for the length prefix
-      const colonIndex = this.buffer.indexOf(0x3a); // 0x3a = ':'
-      if (colonIndex === -1) {
+      const next = readFrame(this.buffer);
+      if (!next) {
+        // Incomplete packet, wait for more data
         break;
       }
+      this.buffer = next.rest;
+      const { frame } = next;
 
-      const lengthStr = this.buffer.subarray(0, colonIndex).toString("ascii");
-      const length = parseInt(lengthStr, 10);
-
-      if (isNaN(length)) {
+      if (frame.kind === "invalid") {
         // Invalid packet, skip this byte
-        this.buffer = this.buffer.subarray(1);
         continue;
       }
 
-      const messageStart = colonIndex + 1;
-      const messageEnd = messageStart + length;
-
-      if (this.buffer.length < messageEnd) {
-        // Incomplete message, wait for more data
-        break;
+      if (frame.kind === "bulk") {
+        this.handleBulkPacket(frame.packet);
+        continue;
       }
 
-      // Decode the JSON payload from UTF-8 bytes to a JS string
-      const messageStr = this.buffer.subarray(messageStart, messageEnd).toString("utf8");
-      this.buffer = this.buffer.subarray(messageEnd);
-
       try {
-        const message = JSON.parse(messageStr) as RDPResponse;
+        const message = JSON.parse(frame.text) as RDPResponse;
+        this.recorder?.write("recv", message);
         this.handleMessage(message);
       } catch (error) {
-        this.emit("error", new Error(`Failed to parse RDP message: ${messageStr}`));
+        this.emit("error", new Error(`Failed to parse RDP message: ${frame.text}`));
       }
     }
   }
 
+  /**
+   * A bulk packet is the reply of its actor, like a JSON one. Unrequested bulk
+   * packets are emitted as "bulk".
+   */
+  private handleBulkPacket(packet: BulkPacket): void {
+    const message: BulkResponse = {
+      from: packet.actor,
+      type: packet.type,
+      bulk: true,
+      length: packet.length,
+      data: packet.data,
+    };
+    this.recorder?.write("recv", { ...message, data: packet.data.toString("base64") });
+
+    const queue = this.pendingRequests.get(packet.actor);
+    const pending = queue?.shift();
+    if (!pending) {
+      this.emit("bulk", message);
+      return;
+    }
+    if (queue!.length === 0) {
+      this.pendingRequests.delete(packet.actor);
+    }
+    this.settle(pending, message);
+  }
+
   /**
    * Known RDP event types that are unsolicited notifications, not responses
    */
@@ -838,6 +1738,10 @@ export class RDPClient extends EventEmitter {
     "reflowActivity",
     "styleSheetsAdded",
     "styleSheetsRemoved",
+    "paused",
+    "resumed",
+    "target-available-form",
+    "target-destroyed-form",
   ]);
 
   /**
@@ -866,41 +1770,93 @@ export class RDPClient extends EventEmitter {
         this.emit("actorsInvalidated", messageType);
       }
 
+      // Track the debugger's pause state for the thread actor we attached to
+      if (
+        messageType === "paused" &&
+        message.from === this.attachedThreadActor &&
+        this.abandonedInterrupt &&
+        (message as PausedPacket).why?.type === "interrupted"
+      ) {
+        this.abandonedInterrupt = false;
+        this.sendMessage({ to: message.from, type: "resume", resumeLimit: null }).catch(() => {});
+      } else if (messageType === "paused" && message.from === this.attachedThreadActor) {
+        this.pausedPacket = message as PausedPacket;
+        this.emit("paused", this.pausedPacket);
+      } else if (messageType === "resumed" && message.from === this.attachedThreadActor) {
+        this.pausedPacket = null;
+        this.emit("resumed");
+      }
+
+      // Keep the watcher's frame targets current
+      if (message.from === this.state.watcherActor) {
+        if (messageType === "target-available-form") {
+          const { target } = message as TargetAvailablePacket;
+          this.frameTargets.set(target.actor, target);
+        } else if (messageType === "target-destroyed-form") {
+          const { target } = message as TargetDestroyedPacket;
+          this.frameTargets.delete(target.actor);
+        }
+      }
+
       // This is an event, not a response - emit and don't consume pending requests
       this.emit("message", message);
       return;
     }
 
-    // Skip evaluateJSAsync acknowledgment messages
-    // These have only { resultID, from } and are followed by the actual result
-    // with { type: "evaluationResult", resultID, result, ... }
-    if (
-      "resultID" in message &&
-      !("type" in message) &&
-      !("result" in message) &&
-      Object.keys(message).length <= 2
-    ) {
-      // This is just an acknowledgment, wait for the actual result
+    // The result of an evaluateJSAsync arrives as its own packet, after the
+    // acknowledgment, and is matched by the resultID the acknowledgment gave us
+    if (messageType === "evaluationResult") {
+      const resultID = message.resultID as string | undefined;
+      const pending = resultID !== undefined ? this.pendingEvaluations.get(resultID) : undefined;
+      if (pending) {
+        this.pendingEvaluations.delete(resultID!);
+        this.settle(pending, message);
+      } else {
+        // Late result for a request that already timed out
+        this.emit("message", message);
+      }
       return;
     }
 
-    // RDP responses come from actors, not tied to specific request IDs
-    // We use a simple FIFO approach for request/response correlation
-    // The first pending request gets the response
-    const pendingEntry = this.pendingRequests.entries().next();
-    if (!pendingEntry.done) {
-      const [messageId, pending] = pendingEntry.value;
-      clearTimeout(pending.timeout);
-      this.pendingRequests.delete(messageId);
+    // Everything else is a direct reply from an actor: it belongs to the
+    // oldest outstanding request sent to that same actor
+    const queue = this.pendingRequests.get(message.from);
+    const pending = queue?.shift();
+    if (!pending) {
+      // Unsolicited message (event, or the intro packet from root)
+      this.emit("message", message);
+      return;
+    }
+    if (queue!.length === 0) {
+      this.pendingRequests.delete(message.from);
+    }
 
-      if ("error" in message) {
-        pending.reject(new Error((message as RDPErrorResponse).message || message.error as string));
-      } else {
-        pending.resolve(message);
+    // evaluateJSAsync acknowledgment: { from, resultID }. Park the request
+    // until the matching evaluationResult arrives.
+    if (pending.awaitsEvaluationResult && "resultID" in message && !("error" in message)) {
+      if (!pending.settled) {
+        this.pendingEvaluations.set(message.resultID as string, pending);
       }
+      return;
+    }
+
+    this.settle(pending, message);
+  }
+
+  /**
+   * Resolve or reject a request with its reply, unless it already timed out
+   */
+  private settle(pending: PendingRequest, message: RDPResponse): void {
+    if (pending.settled) {
+      return;
+    }
+    pending.settled = true;
+    clearTimeout(pending.timeout);
+
+    if ("error" in message) {
+      pending.reject(new Error((message as RDPErrorResponse).message || message.error as string));
     } else {
-      // Unsolicited message (event)
-      this.emit("message", message);
+      pending.resolve(message);
     }
   }
 
@@ -934,11 +1890,7 @@ export class RDPClient extends EventEmitter {
     // Fail pending requests immediately - their replies can never arrive on
     // a closed socket. They previously sat out the full request timeout
     // (30s by default) before erroring.
-    this.pendingRequests.forEach((req) => {
-      clearTimeout(req.timeout);
-      req.reject(new Error("Connection closed before a reply arrived"));
-    });
-    this.pendingRequests.clear();
+    this.rejectAllPending(new Error("Connection closed before a reply arrived"));
 
     if (wasConnected) {
       this.emit("disconnected");
@@ -960,6 +1912,15 @@ export class RDPClient extends EventEmitter {
    * Handle socket timeout
    */
   private handleTimeout(): void {
+    // A request allowed to run longer than the idle timeout is still waiting
+    // on a reply; silence is expected until then
+    const waitingLonger = [...this.pendingRequests.values(), [...this.pendingEvaluations.values()]].some(
+      (queue) => queue.some((pending) => !pending.settled && pending.extendedTimeout)
+    );
+    if (waitingLonger) {
+      return;
+    }
+
     this.emit("timeout");
     this.disconnect();
   }
@@ -1032,31 +1993,346 @@ export class RDPClient extends EventEmitter {
   }
 
   /**
-   * Fetch the full content of a long string from its actor
+   * Fetch the full content of a long string from its actor, in chunks of
+   * `chunkSize` characters with several requests in flight
    */
-  async fetchLongString(actor: string, length: number): Promise<string> {
-    const response = await this.sendMessage({
-      to: actor,
-      type: "substring",
-      start: 0,
-      end: length,
-    });
-    return (response as unknown as { substring: string }).substring;
+  async fetchLongString(actor: string, length: number, options: LongStringOptions = {}): Promise<string> {
+    const chunkSize = Math.max(1, options.chunkSize ?? LONG_STRING_CHUNK_SIZE);
+    const chunkCount = Math.ceil(length / chunkSize);
+    const chunks: string[] = new Array(chunkCount);
+    let received = 0;
+    let nextChunk = 0;
+    let failed = false;
+
+    const fetchChunks = async () => {
+      while (nextChunk < chunkCount && !failed) {
+        const index = nextChunk++;
+        const start = index * chunkSize;
+        const end = Math.min(start + chunkSize, length);
+        try {
+          const response = await this.sendMessage({ to: actor, type: "substring", start, end }, { signal: options.signal });
+          chunks[index] = (response as unknown as { substring: string }).substring;
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+        received += end - start;
+        options.onProgress?.(received, length);
+        this.emit("transferProgress", { actor, received, total: length } satisfies TransferProgress);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(LONG_STRING_PIPELINE, chunkCount) }, fetchChunks));
+    return chunks.join("");
   }
 
   /**
    * Convert a Grip value to a plain JavaScript value, fetching long strings asynchronously
    */
-  async gripToValueAsync(grip: GripValue): Promise<unknown> {
+  async gripToValueAsync(grip: GripValue, options: LongStringOptions = {}): Promise<unknown> {
     const syncValue = RDPClient.gripToValue(grip);
 
     // If it's a longString grip, fetch the full content
     if (RDPClient.isLongString(syncValue)) {
-      return this.fetchLongString(syncValue.actor, syncValue.length);
+      return this.fetchLongString(syncValue.actor, syncValue.length, options);
     }
 
     return syncValue;
   }
+
+  /**
+   * Convert a Grip value to a plain JavaScript value, asking object actors for
+   * their properties instead of stopping at the preview.
+   *
+   * Arrays, Maps and Sets are paged through property iterators, DOM nodes and
+   * errors are summarized from their preview, and anything past the depth or
+   * node budget falls back to gripToValue.
+   *
+   * The grips of nested values and the property iterators are new actors in
+   * the server's pool, which would otherwise live as long as the connection;
+   * they are released once the expansion is done. The grip passed in belongs
+   * to the caller and is left alone.
+   */
+  async expandGrip(grip: GripValue, options: GripExpansionOptions = {}): Promise<GripExpansionResult> {
+    const budget: ExpansionBudget = {
+      maxDepth: options.maxDepth ?? DEFAULT_EXPAND_DEPTH,
+      remaining: options.maxNodes ?? DEFAULT_EXPAND_NODES,
+      truncated: false,
+      created: new Set(),
+    };
+    try {
+      const value = await this.expandValue(grip, 0, budget, new Set());
+      return { value, truncated: budget.truncated };
+    } finally {
+      const root = (grip as { actor?: string } | null)?.actor;
+      if (root) budget.created.delete(root);
+      await this.releaseActors(budget.created);
+    }
+  }
+
+  /**
+   * Release object, long string or iterator actors. An actor already gone
+   * (released with its pool, or after a reconnect) is not an error.
+   */
+  private async releaseActors(actors: Iterable<string>): Promise<void> {
+    await Promise.all(
+      Array.from(actors, (actor) => this.sendMessage({ to: actor, type: "release" }).catch(() => undefined))
+    );
+  }
+
+  private async expandValue(
+    grip: GripValue,
+    depth: number,
+    budget: ExpansionBudget,
+    ancestors: Set<string>
+  ): Promise<unknown> {
+    if (grip === null || typeof grip !== "object") {
+      return grip;
+    }
+
+    const { type, actor } = grip as { type?: string; actor?: string };
+    if (depth > 0 && actor) {
+      budget.created.add(actor);
+    }
+    switch (type) {
+      case "object":
+        break;
+      case "undefined":
+        return undefined;
+      case "null":
+        return null;
+      // Not representable in JSON, so keep them readable
+      case "NaN":
+      case "Infinity":
+      case "-Infinity":
+        return type;
+      case "-0":
+        return -0;
+      case "BigInt":
+        return `${(grip as unknown as { text: string }).text}n`;
+      case "symbol":
+        return `Symbol(${(grip as { name?: string }).name ?? ""})`;
+      case "longString": {
+        const longStr = grip as { actor: string; length: number };
+        return this.fetchLongString(longStr.actor, longStr.length);
+      }
+      default:
+        return grip;
+    }
+
+    const obj = grip as GripObject;
+    if (obj.class === "Function") {
+      const fn = obj as GripObject & { name?: string; displayName?: string };
+      return `[Function ${fn.displayName || fn.name || "anonymous"}]`;
+    }
+    if (ancestors.has(obj.actor)) {
+      return `[Circular ${obj.class}]`;
+    }
+
+    const kind = obj.preview?.kind;
+    if (kind === "DOMNode") {
+      return describeDomNode(obj);
+    }
+    if (kind === "Error") {
+      const { name, message, stack, fileName, lineNumber } = obj.preview as Record<string, unknown>;
+      return { __class__: obj.class, name, message, stack, fileName, lineNumber };
+    }
+
+    if (depth >= budget.maxDepth || budget.remaining <= 0) {
+      budget.truncated = true;
+      return RDPClient.gripToValue(grip);
+    }
+
+    ancestors.add(obj.actor);
+    try {
+      if (ENTRY_CLASSES.has(obj.class)) {
+        return await this.expandEntries(obj, depth, budget, ancestors);
+      }
+      if (kind === "ArrayLike") {
+        return await this.expandArrayLike(obj, depth, budget, ancestors);
+      }
+      return await this.expandObject(obj, depth, budget, ancestors);
+    } finally {
+      ancestors.delete(obj.actor);
+    }
+  }
+
+  /**
+   * Page through a property iterator, returning at most as many descriptors
+   * as the node budget allows
+   */
+  private async sliceIterator(
+    iteratorResponse: PropertyIteratorResponse,
+    budget: ExpansionBudget
+  ): Promise<{ descriptors: PropertyDescriptor[]; omitted: number }> {
+    const { actor, count } = iteratorResponse.iterator;
+    budget.created.add(actor);
+    const take = Math.min(count, Math.max(budget.remaining, 0));
+    if (take < count) {
+      budget.truncated = true;
+    }
+    if (take === 0) {
+      return { descriptors: [], omitted: count };
+    }
+
+    const slice = (await this.sendMessage({
+      to: actor,
+      type: "slice",
+      start: 0,
+      count: take,
+    })) as PropertyIteratorSliceResponse;
+    const descriptors = Object.entries(slice.ownProperties || {})
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, descriptor]) => descriptor);
+    budget.remaining -= descriptors.length;
+    return { descriptors, omitted: count - descriptors.length };
+  }
+
+  private async expandArrayLike(
+    obj: GripObject,
+    depth: number,
+    budget: ExpansionBudget,
+    ancestors: Set<string>
+  ): Promise<unknown> {
+    const iterator = (await this.sendMessage({
+      to: obj.actor,
+      type: "enumProperties",
+      options: { ignoreNonIndexedProperties: true },
+    })) as PropertyIteratorResponse;
+    const { descriptors, omitted } = await this.sliceIterator(iterator, budget);
+
+    const items: unknown[] = [];
+    for (const descriptor of descriptors) {
+      items.push(await this.expandValue(descriptor.value, depth + 1, budget, ancestors));
+    }
+    if (omitted > 0) {
+      items.push(`[… ${omitted} more]`);
+    }
+    return obj.class === "Array" ? items : { __class__: obj.class, items };
+  }
+
+  private async expandEntries(
+    obj: GripObject,
+    depth: number,
+    budget: ExpansionBudget,
+    ancestors: Set<string>
+  ): Promise<unknown> {
+    const iterator = (await this.sendMessage({
+      to: obj.actor,
+      type: "enumEntries",
+    })) as PropertyIteratorResponse;
+    const { descriptors, omitted } = await this.sliceIterator(iterator, budget);
+
+    const entries: unknown[] = [];
+    for (const descriptor of descriptors) {
+      const value = descriptor.value as GripValue | GripMapEntry;
+      if (value && typeof value === "object" && (value as GripMapEntry).type === "mapEntry") {
+        const { key, value: entryValue } = (value as GripMapEntry).preview;
+        entries.push([
+          await this.expandValue(key, depth + 1, budget, ancestors),
+          await this.expandValue(entryValue, depth + 1, budget, ancestors),
+        ]);
+      } else {
+        entries.push(await this.expandValue(value as GripValue, depth + 1, budget, ancestors));
+      }
+    }
+    if (omitted > 0) {
+      entries.push(`[… ${omitted} more]`);
+    }
+
+    const isMap = obj.class === "Map" || obj.class === "WeakMap";
+    return { __class__: obj.class, size: iterator.iterator.count, [isMap ? "entries" : "values"]: entries };
+  }
+
+  private async expandObject(
+    obj: GripObject,
+    depth: number,
+    budget: ExpansionBudget,
+    ancestors: Set<string>
+  ): Promise<unknown> {
+    const response = (await this.sendMessage({
+      to: obj.actor,
+      type: "prototypeAndProperties",
+    })) as PrototypeAndPropertiesResponse;
+
+    // Every grip in the reply is a new actor, including the ones not expanded
+    // below (the prototype, accessors, properties past the budget)
+    const grips = [
+      response.prototype,
+      ...Object.values(response.ownProperties || {}).flatMap((d) => [d.value, d.get, d.set]),
+      ...Object.values(response.safeGetterValues || {}).map((g) => g.getterValue),
+    ];
+    for (const grip of grips) {
+      const actor = (grip as { actor?: string } | null | undefined)?.actor;
+      if (actor) budget.created.add(actor);
+    }
+
+    const result: Record<string, unknown> = {};
+    if (obj.class !== "Object") {
+      result.__class__ = obj.class;
+    }
+
+    // Own properties first, then getter values the server could read safely
+    // (native accessors such as those on DOM objects live on the prototype)
+    const getters = response.safeGetterValues || {};
+    const names = [
+      ...Object.keys(response.ownProperties || {}),
+      ...Object.keys(getters).filter((name) => !(name in (response.ownProperties || {}))),
+    ];
+
+    let omitted = 0;
+    for (const name of names) {
+      if (budget.remaining <= 0) {
+        omitted++;
+        continue;
+      }
+      budget.remaining--;
+
+      const descriptor = response.ownProperties?.[name];
+      if (descriptor && "value" in descriptor) {
+        result[name] = await this.expandValue(descriptor.value, depth + 1, budget, ancestors);
+      } else if (getters[name]) {
+        result[name] = await this.expandValue(getters[name].getterValue, depth + 1, budget, ancestors);
+      } else {
+        const hasGetter = !!descriptor?.get && (descriptor.get as { type?: string }).type !== "undefined";
+        const hasSetter = !!descriptor?.set && (descriptor.set as { type?: string }).type !== "undefined";
+        result[name] = hasGetter && hasSetter ? "[Getter/Setter]" : hasSetter ? "[Setter]" : "[Getter]";
+      }
+    }
+    if (omitted > 0) {
+      budget.truncated = true;
+      result["…"] = `${omitted} more properties`;
+    }
+    return result;
+  }
+}
+
+/**
+ * Summarize a DOM node from its preview. Walking a node's properties would
+ * mostly return prototype accessors and the whole document behind them.
+ */
+function describeDomNode(obj: GripObject): Record<string, unknown> {
+  const preview = obj.preview as Record<string, unknown>;
+  const result: Record<string, unknown> = {
+    __class__: obj.class,
+    nodeName: preview.nodeName,
+  };
+  if (preview.attributes && Object.keys(preview.attributes as object).length > 0) {
+    result.attributes = preview.attributes;
+  }
+  if (typeof preview.textContent === "string") {
+    result.textContent = preview.textContent;
+  }
+  if (typeof preview.location === "string") {
+    result.location = preview.location;
+  }
+  if (typeof preview.childNodesLength === "number") {
+    result.childNodes = preview.childNodesLength;
+  }
+  if (typeof preview.isConnected === "boolean") {
+    result.isConnected = preview.isConnected;
+  }
+  return result;
 }
 
 // Export a singleton instance with default options from environment
@@ -1064,6 +2340,7 @@ export function createClient(options?: Partial<RDPClientOptions>): RDPClient {
   return new RDPClient({
     host: process.env.ZOTERO_RDP_HOST || options?.host || DEFAULT_OPTIONS.host,
     port: parseInt(process.env.ZOTERO_RDP_PORT || "", 10) || options?.port || DEFAULT_OPTIONS.port,
+    recordPath: process.env.ZOTERO_RDP_RECORD || undefined,
     ...options,
   });
 }
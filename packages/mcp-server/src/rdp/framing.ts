@@ -0,0 +1,101 @@
+/**
+ * RDP packet framing
+ *
+ * Two kinds of packets share the stream:
+ *
+ *   <byte_length>:<json_utf8>                   JSON packets
+ *   bulk <actor> <type> <byte_length>:<bytes>   bulk packets
+ *
+ * Lengths are byte counts, never JS string lengths. Bulk packets carry raw
+ * bytes with no JSON encoding or escaping; DevTools uses them for large binary
+ * transfers such as heap snapshots.
+ */
+
+export interface BulkPacket {
+  actor: string; // "to" when sent by the client, "from" when received
+  type: string;
+  length: number;
+  data: Buffer;
+}
+
+export type Frame =
+  | { kind: "json"; text: string }
+  | { kind: "bulk"; packet: BulkPacket }
+  // Garbage before a length prefix; the reader skips one byte
+  | { kind: "invalid" };
+
+const BULK_PREFIX = Buffer.from("bulk ", "ascii");
+
+// A bulk header is three short tokens; anything longer without a colon is not one
+const MAX_BULK_HEADER = 1024;
+
+export function encodePacket(packet: Record<string, unknown>): Buffer {
+  const json = Buffer.from(JSON.stringify(packet), "utf8");
+  return Buffer.concat([Buffer.from(`${json.length}:`, "ascii"), json]);
+}
+
+export function encodeBulkPacket(actor: string, type: string, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`bulk ${actor} ${type} ${data.length}:`, "ascii"), data]);
+}
+
+/**
+ * Read the first complete frame from a buffer. Returns null when more data is
+ * needed, otherwise the frame and the bytes after it.
+ */
+export function readFrame(buffer: Buffer): { frame: Frame; rest: Buffer } | null {
+  const head = buffer.subarray(0, BULK_PREFIX.length);
+  if (head.length > 0 && head.length < BULK_PREFIX.length && BULK_PREFIX.subarray(0, head.length).equals(head)) {
+    // Could still become "bulk "
+    return null;
+  }
+
+  if (head.equals(BULK_PREFIX)) {
+    const colonIndex = buffer.indexOf(0x3a); // ':'
+    if (colonIndex === -1) {
+      return buffer.length > MAX_BULK_HEADER ? { frame: { kind: "invalid" }, rest: buffer.subarray(1) } : null;
+    }
+
+    const [actor, type, lengthStr, ...extra] = buffer
+      .subarray(BULK_PREFIX.length, colonIndex)
+      .toString("ascii")
+      .split(" ");
+    const length = Number(lengthStr);
+    if (!actor || !type || extra.length > 0 || !/^\d+$/.test(lengthStr ?? "")) {
+      return { frame: { kind: "invalid" }, rest: buffer.subarray(1) };
+    }
+
+    const dataEnd = colonIndex + 1 + length;
+    if (buffer.length < dataEnd) {
+      return null;
+    }
+
+    return {
+      frame: {
+        kind: "bulk",
+        // Copy, so the packet does not pin the whole receive buffer
+        packet: { actor, type, length, data: Buffer.from(buffer.subarray(colonIndex + 1, dataEnd)) },
+      },
+      rest: buffer.subarray(dataEnd),
+    };
+  }
+
+  const colonIndex = buffer.indexOf(0x3a);
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const length = parseInt(buffer.subarray(0, colonIndex).toString("ascii"), 10);
+  if (isNaN(length)) {
+    return { frame: { kind: "invalid" }, rest: buffer.subarray(1) };
+  }
+
+  const messageEnd = colonIndex + 1 + length;
+  if (buffer.length < messageEnd) {
+    return null;
+  }
+
+  return {
+    frame: { kind: "json", text: buffer.subarray(colonIndex + 1, messageEnd).toString("utf8") },
+    rest: buffer.subarray(messageEnd),
+  };
+}
@@ -2,6 +2,20 @@
  * RDP module - Firefox Remote Debugging Protocol client
  */
 
-export { RDPClient, createClient, type RDPClientOptions } from "./client.js";
+export {
+  RDPClient,
+  RequestAbortedError,
+  createClient,
+  type RDPClientOptions,
+  type RequestOptions,
+  type InterruptOptions,
+  type InterruptOutcome,
+  type LongStringOptions,
+  type TransferProgress,
+} from "./client.js";
 export * from "./protocol.js";
 export * from "./actors.js";
+export * from "./capabilities.js";
+export * from "./framing.js";
+export * from "./recording.js";
+export * from "./replay.js";
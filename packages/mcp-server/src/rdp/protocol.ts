@@ -16,6 +16,17 @@ export interface RDPResponse {
   [key: string]: unknown;
 }
 
+/**
+ * A bulk packet received in reply to a request, as sendMessage/sendBulk
+ * resolve it: the raw bytes plus the actor and type from its header
+ */
+export interface BulkResponse extends RDPResponse {
+  type: string;
+  bulk: true;
+  length: number;
+  data: Buffer;
+}
+
 export interface RDPErrorResponse extends RDPResponse {
   error: string;
   message?: string;
@@ -29,6 +40,21 @@ export interface GetRootRequest extends RDPMessage {
 export interface RootActorResponse extends RDPResponse {
   applicationType: string;
   traits: Record<string, boolean>;
+  // getRoot also lists the global actors, e.g. deviceActor, preferenceActor
+}
+
+// Device actor (global): application and platform versions
+export interface DeviceDescription {
+  name?: string; // "Zotero"
+  version?: string; // application version, e.g. "7.0.11"
+  platformversion?: string; // Gecko version, e.g. "115.14.0"
+  appbuildid?: string;
+  os?: string;
+  [key: string]: unknown;
+}
+
+export interface DeviceDescriptionResponse extends RDPResponse {
+  value: DeviceDescription;
 }
 
 // List tabs request/response
@@ -89,6 +115,38 @@ export interface ProcessTargetInfo {
   // ... other actors
 }
 
+// Watcher (target discovery). getWatcher on the parent process descriptor
+// returns a watcher that reports every window global as a "frame" target:
+// chrome windows, and the content <browser>s inside them (reader, note editor).
+export interface GetWatcherResponse extends RDPResponse {
+  actor: string;
+  traits?: Record<string, unknown>;
+}
+
+export interface TargetForm {
+  actor: string;
+  targetType?: string;
+  title?: string;
+  url?: string;
+  consoleActor: string;
+  threadActor?: string;
+  browsingContextID?: number;
+  innerWindowId?: number;
+  isTopLevelTarget?: boolean;
+  [key: string]: unknown;
+}
+
+// Events sent by the watcher after watchTargets
+export interface TargetAvailablePacket extends RDPResponse {
+  type: "target-available-form";
+  target: TargetForm;
+}
+
+export interface TargetDestroyedPacket extends RDPResponse {
+  type: "target-destroyed-form";
+  target: TargetForm;
+}
+
 // Tab actor - attach to get console
 export interface AttachRequest extends RDPMessage {
   type: "attach";
@@ -146,6 +204,8 @@ export interface GripObject {
     [key: string]: unknown;
   };
   ownPropertyLength?: number;
+  // Functions: where the function's script starts (absent for native and bound functions)
+  location?: { url: string; line: number; column?: number };
 }
 
 export interface GripArray {
@@ -186,6 +246,45 @@ export interface GripError {
   };
 }
 
+// Object actor messages (expanding grips beyond their preview)
+
+export interface PropertyDescriptor {
+  value?: GripValue;
+  get?: GripValue;
+  set?: GripValue;
+  enumerable?: boolean;
+  configurable?: boolean;
+  writable?: boolean;
+}
+
+export interface PrototypeAndPropertiesResponse extends RDPResponse {
+  prototype?: GripValue;
+  ownProperties?: Record<string, PropertyDescriptor>;
+  // Values of getters that are safe to call (mostly native DOM accessors)
+  safeGetterValues?: Record<string, { getterValue: GripValue; getterPrototypeLevel: number }>;
+}
+
+// enumProperties / enumEntries hand back an iterator actor to page through
+export interface PropertyIteratorResponse extends RDPResponse {
+  iterator: {
+    actor: string;
+    count: number;
+  };
+}
+
+export interface PropertyIteratorSliceResponse extends RDPResponse {
+  ownProperties: Record<string, PropertyDescriptor>;
+}
+
+// Entry of a Map/WeakMap as returned by enumEntries
+export interface GripMapEntry {
+  type: "mapEntry";
+  preview: {
+    key: GripValue;
+    value: GripValue;
+  };
+}
+
 // Get target (for getting console actor)
 export interface GetTargetRequest extends RDPMessage {
   type: "getTarget";
@@ -224,6 +323,123 @@ export interface GetCachedMessagesResponse extends RDPResponse {
   messages: ConsoleMessage[];
 }
 
+// Console events pushed after startListeners
+
+export interface StackFrameForm {
+  filename: string;
+  lineNumber: number;
+  columnNumber: number;
+  functionName?: string;
+}
+
+export interface ConsoleAPICallPacket extends RDPResponse {
+  type: "consoleAPICall";
+  message: {
+    level: string;
+    arguments: GripValue[];
+    filename?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+    timeStamp?: number;
+    stacktrace?: StackFrameForm[] | null;
+  };
+}
+
+export interface PageErrorPacket extends RDPResponse {
+  type: "pageError";
+  pageError: {
+    errorMessage: GripValue;
+    sourceName?: string;
+    lineNumber?: number;
+    columnNumber?: number;
+    category?: string;
+    timeStamp?: number;
+    warning?: boolean;
+    error?: boolean;
+    stacktrace?: StackFrameForm[] | null;
+  };
+}
+
+// Thread actor (debugger) messages
+
+// A script known to the thread actor. Plugin scripts show up with their
+// chrome:// or jar:file:// URL.
+export interface SourceForm {
+  actor: string;
+  url: string | null;
+  sourceMapURL?: string | null;
+  isBlackBoxed?: boolean;
+  introductionType?: string | null;
+}
+
+export interface SourcesResponse extends RDPResponse {
+  sources: SourceForm[];
+}
+
+// Breakpoint location accepted by the thread actor's setBreakpoint. Lines are
+// 1-based, columns 0-based; the column may be omitted to break on the first
+// breakable position of the line.
+export interface BreakpointLocation {
+  sourceUrl: string;
+  line: number;
+  column?: number;
+}
+
+export interface BreakpointOptions {
+  condition?: string;
+  logValue?: string;
+}
+
+export interface FrameForm {
+  actor: string;
+  type: string;
+  displayName?: string;
+  this?: GripValue;
+  arguments?: GripValue[];
+  where?: {
+    actor: string;
+    line: number;
+    column: number;
+  };
+  oldest?: boolean;
+}
+
+export interface FramesResponse extends RDPResponse {
+  frames: FrameForm[];
+}
+
+// A lexical environment of a paused frame, innermost first via "parent"
+export interface EnvironmentForm {
+  actor: string;
+  type: "function" | "block" | "object" | "with";
+  parent?: EnvironmentForm;
+  function?: GripObject;
+  object?: GripObject;
+  bindings?: {
+    arguments?: Array<Record<string, { value: GripValue }>>;
+    variables?: Record<string, { value: GripValue }>;
+  };
+}
+
+export interface EnvironmentResponse extends RDPResponse, EnvironmentForm {}
+
+// Unsolicited "paused" packet from the thread actor
+export interface PausedPacket extends RDPResponse {
+  type: "paused";
+  actor?: string;
+  frame?: FrameForm;
+  why?: {
+    type: string;
+    actors?: string[];
+    exception?: GripValue;
+    [key: string]: unknown;
+  };
+}
+
+// How far a resume should run: "next" steps over, "step" steps in,
+// "finish" steps out of the current frame
+export type ResumeLimit = "next" | "step" | "finish";
+
 // Utility types
 export function isErrorResponse(response: RDPResponse): response is RDPErrorResponse {
   return "error" in response;
@@ -0,0 +1,71 @@
+/**
+ * RDP session recording
+ *
+ * With a record path set (ZOTERO_RDP_RECORD), RDPClient appends every packet
+ * it sends or receives to a JSONL file, one object per line:
+ *
+ *   {"dir":"recv","t":0,"packet":{"from":"root","applicationType":"browser",...}}
+ *   {"dir":"send","t":12,"packet":{"to":"root","type":"listProcesses"}}
+ *
+ * Bulk packets are recorded as {"from"|"to", "type", "bulk": true, "length",
+ * "data"} with the bytes in base64.
+ *
+ * `t` is milliseconds since the recorder was created. The replay server
+ * (replay.ts) serves such a file back, so tool handlers can be tested against
+ * a recorded Zotero session without Zotero.
+ *
+ * With several instances configured (ZOTERO_INSTANCES), each instance's client
+ * records to its own file, named after the instance: session.stable.jsonl,
+ * session.beta.jsonl. One file would interleave the sessions past replaying.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, extname } from "node:path";
+
+export interface RecordedPacket {
+  dir: "send" | "recv";
+  t: number;
+  packet: Record<string, unknown>;
+}
+
+export class PacketRecorder {
+  private readonly startedAt = Date.now();
+
+  constructor(readonly path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  /**
+   * Append one packet. Written synchronously so that packet order in the file
+   * is wire order, and a crash loses nothing already seen.
+   */
+  write(dir: RecordedPacket["dir"], packet: Record<string, unknown>): void {
+    const entry: RecordedPacket = { dir, t: Date.now() - this.startedAt, packet };
+    appendFileSync(this.path, JSON.stringify(entry) + "\n", "utf8");
+  }
+}
+
+/**
+ * The record path of one instance: the instance name goes before the
+ * extension (session.jsonl becomes session.beta.jsonl)
+ */
+export function instanceRecordPath(path: string, instance: string): string {
+  const extension = extname(path);
+  return `${path.slice(0, path.length - extension.length)}.${instance}${extension}`;
+}
+
+/**
+ * Read a recording, skipping blank lines
+ */
+export function readRecording(path: string): RecordedPacket[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as RecordedPacket;
+      } catch {
+        throw new Error(`Invalid recording ${path}: line ${index + 1} is not JSON`);
+      }
+    });
+}
@@ -0,0 +1,151 @@
+/**
+ * Replay server for recorded RDP sessions
+ *
+ * Listens like Zotero's DevTools server, with the same framing that
+ * RDPClient.processBuffer parses (framing.ts), and answers from a recording
+ * (see recording.ts) instead of from Zotero. Recorded bulk packets are sent
+ * back as bulk packets.
+ *
+ * The recording is split into exchanges: a sent packet plus the packets
+ * received after it, up to the next sent one. When the client sends a request,
+ * the first unused exchange whose request is identical is played back; failing
+ * that, the first unused one with the same actor and type, and the request is
+ * listed in `inexact`. Requests with no recorded exchange get an error reply
+ * and are listed in `unmatched`, so a test fails loudly when a handler starts
+ * sending something new, and can check `inexact` to catch one whose requests
+ * drifted from the recording.
+ *
+ * Exchanges are matched in order, which holds for sessions recorded one tool
+ * call at a time. Each connection starts from the beginning of the recording.
+ */
+
+import { createServer, type Socket } from "node:net";
+import { readRecording, type RecordedPacket } from "./recording.js";
+import { encodeBulkPacket, encodePacket, readFrame } from "./framing.js";
+
+interface Exchange {
+  request: Record<string, unknown>;
+  key: string;
+  replies: Record<string, unknown>[];
+}
+
+export interface ReplayServer {
+  port: number;
+  // Requests that had no recorded exchange, across all connections
+  unmatched: Record<string, unknown>[];
+  // Requests answered by an exchange with the same actor and type only
+  inexact: Record<string, unknown>[];
+  close(): Promise<void>;
+}
+
+function splitExchanges(recording: RecordedPacket[]): {
+  intro: Record<string, unknown>[];
+  exchanges: Exchange[];
+} {
+  const intro: Record<string, unknown>[] = [];
+  const exchanges: Exchange[] = [];
+
+  for (const entry of recording) {
+    if (entry.dir === "send") {
+      exchanges.push({ request: entry.packet, key: JSON.stringify(entry.packet), replies: [] });
+    } else if (exchanges.length > 0) {
+      exchanges[exchanges.length - 1].replies.push(entry.packet);
+    } else {
+      intro.push(entry.packet);
+    }
+  }
+
+  return { intro, exchanges };
+}
+
+/**
+ * Serve a recording (or the path of one) on a local port; 0 picks a free one
+ */
+export async function startReplayServer(
+  recording: RecordedPacket[] | string,
+  port = 0
+): Promise<ReplayServer> {
+  const { intro, exchanges } = splitExchanges(
+    typeof recording === "string" ? readRecording(recording) : recording
+  );
+  const unmatched: Record<string, unknown>[] = [];
+  const inexact: Record<string, unknown>[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    const used = new Set<Exchange>();
+    const send = (packet: Record<string, unknown>) => {
+      if (socket.destroyed) return;
+      // Bulk packets are recorded with their bytes in base64
+      socket.write(
+        packet.bulk === true
+          ? encodeBulkPacket(String(packet.from), String(packet.type), Buffer.from(String(packet.data), "base64"))
+          : encodePacket(packet)
+      );
+    };
+
+    intro.forEach(send);
+
+    const answer = (request: Record<string, unknown>) => {
+      const key = JSON.stringify(request);
+      let exchange = exchanges.find((e) => !used.has(e) && e.key === key);
+      if (!exchange) {
+        exchange = exchanges.find(
+          (e) => !used.has(e) && e.request.to === request.to && e.request.type === request.type
+        );
+        if (exchange) inexact.push(request);
+      }
+
+      if (!exchange) {
+        unmatched.push(request);
+        send({
+          from: request.to,
+          error: "unrecordedRequest",
+          message: `No recorded reply for ${String(request.type)} to ${String(request.to)}`,
+        });
+        return;
+      }
+
+      used.add(exchange);
+      exchange.replies.forEach(send);
+    };
+
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on("data", (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+      let next;
+      while ((next = readFrame(buffer))) {
+        buffer = next.rest;
+        const { frame } = next;
+        if (frame.kind === "bulk") {
+          // Same shape as RDPClient records a sent bulk packet
+          const { actor, type, length, data: bytes } = frame.packet;
+          answer({ to: actor, type, bulk: true, length, data: bytes.toString("base64") });
+        } else if (frame.kind === "json") {
+          try {
+            answer(JSON.parse(frame.text) as Record<string, unknown>);
+          } catch {
+            // Not JSON - nothing to answer
+          }
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const address = server.address();
+
+  return {
+    port: typeof address === "object" && address ? address.port : port,
+    unmatched,
+    inexact,
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
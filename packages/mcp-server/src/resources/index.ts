@@ -0,0 +1,248 @@
+/**
+ * MCP Resources
+ *
+ * Live views of Zotero's console, fed by the console actor's listeners
+ * instead of polling:
+ * - zotero://console - console.* calls (consoleAPICall packets)
+ * - zotero://errors  - uncaught errors and warnings (pageError packets)
+ *
+ * Packets are kept in a ring buffer per resource. Subscribed clients get a
+ * resources/updated notification when new entries arrive and read the
+ * resource again, optionally with ?since=<id> to fetch only the new entries.
+ */
+
+import type { Resource, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  RDPClient,
+  type RDPResponse,
+  type GripValue,
+  type StackFrameForm,
+  type ConsoleAPICallPacket,
+  type PageErrorPacket,
+} from "../rdp/index.js";
+import { RingBuffer } from "../utils/ring-buffer.js";
+import { getRdpClient } from "../index.js";
+
+export interface ConsoleEntry {
+  id: number;
+  time: string;
+  level: string;
+  message: string;
+  source?: string;
+  category?: string;
+  stack?: string;
+}
+
+// Entries kept per resource
+const BUFFER_CAPACITY = 500;
+
+// Bursts (a loop logging per item) are coalesced into one notification
+const NOTIFY_DEBOUNCE_MS = 250;
+
+export const consoleResource: Resource = {
+  uri: "zotero://console",
+  name: "Zotero console",
+  description:
+    "Live console.log/info/warn/error output from Zotero and plugins (last 500 entries). " +
+    "Subscribe to get notified of new entries; read with ?since=<id> to fetch only entries after that id.",
+  mimeType: "application/json",
+};
+
+export const errorsResource: Resource = {
+  uri: "zotero://errors",
+  name: "Zotero errors",
+  description:
+    "Live uncaught errors and warnings from Zotero's error console (last 500 entries). " +
+    "Subscribe to get notified of new entries; read with ?since=<id> to fetch only entries after that id.",
+  mimeType: "application/json",
+};
+
+export const allResources: Resource[] = [consoleResource, errorsResource];
+
+const buffers = new Map<string, RingBuffer<ConsoleEntry>>(
+  allResources.map((resource) => [resource.uri, new RingBuffer<ConsoleEntry>(BUFFER_CAPACITY)])
+);
+
+const subscriptions = new Set<string>();
+const pendingNotifications = new Map<string, NodeJS.Timeout>();
+let notifyUpdated: ((uri: string) => void) | null = null;
+const attachedClients = new WeakSet<RDPClient>();
+let nextEntryId = 1;
+
+/**
+ * Set the callback that sends resources/updated (the MCP server's)
+ */
+export function setResourceUpdateNotifier(notify: (uri: string) => void): void {
+  notifyUpdated = notify;
+}
+
+/**
+ * Format a console argument or error message grip as text
+ */
+function gripToText(grip: GripValue): string {
+  const value = RDPClient.gripToValue(grip);
+  if (typeof value === "string") {
+    return value;
+  }
+  if (RDPClient.isLongString(value)) {
+    return `${value.initial}… (${value.length} chars)`;
+  }
+  if (value !== null && typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+function formatLocation(url?: string, line?: number, column?: number): string | undefined {
+  if (!url) return undefined;
+  return line ? `${url}:${line}:${column ?? 0}` : url;
+}
+
+// Firefox stack format, so the source map helpers can read it
+function formatStack(frames?: StackFrameForm[] | null): string | undefined {
+  if (!frames || frames.length === 0) return undefined;
+  return frames
+    .map((f) => `${f.functionName || ""}@${f.filename}:${f.lineNumber}:${f.columnNumber}`)
+    .join("\n");
+}
+
+function toEntry(packet: RDPResponse): { uri: string; entry: ConsoleEntry } | null {
+  if (packet.type === "consoleAPICall") {
+    const message = (packet as ConsoleAPICallPacket).message;
+    if (!message) return null;
+    return {
+      uri: consoleResource.uri,
+      entry: {
+        id: nextEntryId++,
+        time: new Date(message.timeStamp || Date.now()).toISOString(),
+        level: message.level || "log",
+        message: (message.arguments || []).map(gripToText).join(" "),
+        source: formatLocation(message.filename, message.lineNumber, message.columnNumber),
+        stack: formatStack(message.stacktrace),
+      },
+    };
+  }
+
+  if (packet.type === "pageError") {
+    const error = (packet as PageErrorPacket).pageError;
+    if (!error) return null;
+    return {
+      uri: errorsResource.uri,
+      entry: {
+        id: nextEntryId++,
+        time: new Date(error.timeStamp || Date.now()).toISOString(),
+        level: error.warning ? "warning" : "error",
+        message: gripToText(error.errorMessage),
+        source: formatLocation(error.sourceName, error.lineNumber, error.columnNumber),
+        category: error.category,
+        stack: formatStack(error.stacktrace),
+      },
+    };
+  }
+
+  return null;
+}
+
+function scheduleNotification(uri: string): void {
+  if (!subscriptions.has(uri) || !notifyUpdated || pendingNotifications.has(uri)) {
+    return;
+  }
+  pendingNotifications.set(
+    uri,
+    setTimeout(() => {
+      pendingNotifications.delete(uri);
+      notifyUpdated?.(uri);
+    }, NOTIFY_DEBOUNCE_MS)
+  );
+}
+
+/**
+ * Buffer console events from a client and start the console listeners.
+ * Safe to call on every connection; the packet listener is added once.
+ */
+export async function attachConsoleStream(client: RDPClient): Promise<void> {
+  if (!attachedClients.has(client)) {
+    attachedClients.add(client);
+    client.on("message", (packet: RDPResponse) => {
+      const converted = toEntry(packet);
+      if (!converted) return;
+      buffers.get(converted.uri)?.push(converted.entry);
+      scheduleNotification(converted.uri);
+    });
+  }
+
+  await client.startConsoleListeners();
+}
+
+/**
+ * Connect (if needed) so the buffers fill even when no tool was called yet.
+ * Resources stay readable without Zotero; they are just empty.
+ */
+async function ensureStreaming(): Promise<void> {
+  try {
+    await attachConsoleStream(await getRdpClient());
+  } catch {
+    // Zotero not reachable - serve what is buffered
+  }
+}
+
+function parseResourceUri(uri: string): { base: string; since: number } {
+  const [base, query = ""] = uri.split("?");
+  const since = Number(new URLSearchParams(query).get("since") || 0);
+  return { base, since: Number.isFinite(since) ? since : 0 };
+}
+
+export async function subscribeResource(uri: string): Promise<void> {
+  const { base } = parseResourceUri(uri);
+  if (!buffers.has(base)) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+  subscriptions.add(base);
+  await ensureStreaming();
+}
+
+export function unsubscribeResource(uri: string): void {
+  const { base } = parseResourceUri(uri);
+  subscriptions.delete(base);
+  const pending = pendingNotifications.get(base);
+  if (pending) {
+    clearTimeout(pending);
+    pendingNotifications.delete(base);
+  }
+}
+
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const { base, since } = parseResourceUri(uri);
+  const buffer = buffers.get(base);
+  if (!buffer) {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  await ensureStreaming();
+
+  const entries = buffer.toArray().filter((entry) => entry.id > since);
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(
+          {
+            entries,
+            // Entries received overall and dropped from the buffer, so a reader
+            // can tell whether it missed some between reads
+            received: buffer.total,
+            dropped: buffer.total - buffer.size,
+            lastId: entries.length > 0 ? entries[entries.length - 1].id : since,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
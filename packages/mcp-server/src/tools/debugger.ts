@@ -0,0 +1,478 @@
+/**
+ * Debugger Tools
+ *
+ * Breakpoints, pausing and stepping through plugin code via the parent
+ * process's thread actor. Unlike every other tool group these do not go
+ * through evaluateJS: they talk to the thread actor directly, because a paused
+ * thread is exactly the state in which evaluated code cannot report back.
+ *
+ * Caveat: code that hits a breakpoint does not return until it is resumed. If
+ * the code was started by zotero_execute_js, that call blocks until then, so
+ * triggers should be scheduled (setTimeout) rather than called directly.
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import {
+  RDPClient,
+  type BreakpointLocation,
+  type EnvironmentForm,
+  type GripValue,
+  type PausedPacket,
+  type ResumeLimit,
+  type SourceForm,
+} from "../rdp/index.js";
+
+// Tool definitions
+export const debuggerSourcesTool: Tool = {
+  name: "zotero_debugger_sources",
+  description:
+    "List the scripts loaded in Zotero's main process that can carry breakpoints, " +
+    "including plugin scripts at chrome:// and jar:file:// URLs. " +
+    "Use this to find the exact URL to pass to zotero_debugger_breakpoint.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filter: {
+        type: "string",
+        description: "Substring filter for script URLs (case-insensitive), e.g. 'myplugin'",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of sources to return (default: 100)",
+        default: 100,
+      },
+    },
+  },
+};
+
+export const debuggerBreakpointTool: Tool = {
+  name: "zotero_debugger_breakpoint",
+  description:
+    "Set, remove or list breakpoints by script URL and line. " +
+    "The URL may be a full chrome://, resource:// or jar:file:// URL, or a unique suffix of one " +
+    "(e.g. 'content/scripts/index.js'). Breakpoints on full URLs may be set before the script loads. " +
+    "After setting one, trigger the code and use zotero_debugger_pause with action='wait'.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["set", "remove", "list", "clear"],
+        description: "Action to perform (default: set). 'clear' removes all breakpoints.",
+        default: "set",
+      },
+      url: {
+        type: "string",
+        description: "Script URL or unique URL suffix (required for set/remove)",
+      },
+      line: {
+        type: "number",
+        description: "1-based line number (required for set/remove)",
+      },
+      column: {
+        type: "number",
+        description: "0-based column (optional; defaults to the first breakable position on the line)",
+      },
+      condition: {
+        type: "string",
+        description: "Only pause when this JavaScript expression is truthy in the frame",
+      },
+    },
+  },
+};
+
+export const debuggerPauseTool: Tool = {
+  name: "zotero_debugger_pause",
+  description:
+    "Wait for, request, or inspect a debugger pause. Returns the paused stack and the " +
+    "scope variables of the selected frame. action='wait' blocks until a breakpoint is hit, " +
+    "'interrupt' pauses at the next JavaScript executed, 'status' reports the current pause. " +
+    "Tip: trigger plugin code with zotero_execute_js using setTimeout(() => ..., 0), " +
+    "otherwise that call blocks until you resume.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["wait", "interrupt", "status"],
+        description: "Action to perform (default: status)",
+        default: "status",
+      },
+      timeoutMs: {
+        type: "number",
+        description: "How long 'wait' and 'interrupt' wait for a pause (default: 30000)",
+        default: 30000,
+      },
+      frameIndex: {
+        type: "number",
+        description: "Stack frame whose scopes to show, 0 = innermost (default: 0)",
+        default: 0,
+      },
+    },
+  },
+};
+
+export const debuggerResumeTool: Tool = {
+  name: "zotero_debugger_resume",
+  description:
+    "Resume a paused thread, or step: 'over' runs to the next line, 'in' enters the next call, " +
+    "'out' finishes the current function. After a step the new pause location and scopes are returned.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mode: {
+        type: "string",
+        enum: ["resume", "over", "in", "out"],
+        description: "How to continue (default: resume)",
+        default: "resume",
+      },
+      waitMs: {
+        type: "number",
+        description: "How long to wait for the next pause after a step (default: 5000)",
+        default: 5000,
+      },
+    },
+  },
+};
+
+const RESUME_LIMITS: Record<string, ResumeLimit | undefined> = {
+  resume: undefined,
+  over: "next",
+  in: "step",
+  out: "finish",
+};
+
+// Maximum scopes walked outwards from the selected frame, and bindings per scope
+const MAX_SCOPES = 5;
+const MAX_BINDINGS_PER_SCOPE = 50;
+
+/**
+ * Render a grip as a short, readable value for stack/scope listings
+ */
+function formatGrip(grip: GripValue): string {
+  if (grip && typeof grip === "object" && "type" in grip) {
+    const type = (grip as { type: string }).type;
+    // Values JSON cannot carry are sent as typed grips
+    if (["undefined", "null", "NaN", "Infinity", "-Infinity", "-0"].includes(type)) {
+      return type;
+    }
+    if (type === "object") {
+      const obj = grip as { class: string; preview?: { kind?: string; length?: number } };
+      if (obj.class === "Function") {
+        const fn = grip as { name?: string; displayName?: string };
+        return `function ${fn.displayName || fn.name || "(anonymous)"}()`;
+      }
+      if (obj.preview?.kind === "ArrayLike" && typeof obj.preview.length === "number") {
+        return `${obj.class}(${obj.preview.length})`;
+      }
+    }
+  }
+
+  const value = RDPClient.gripToValue(grip);
+  let text: string;
+  if (typeof value === "string") {
+    text = JSON.stringify(value);
+  } else if (typeof value === "object" && value !== null) {
+    try {
+      text = JSON.stringify(value);
+    } catch {
+      text = String(value);
+    }
+  } else {
+    text = String(value);
+  }
+  return text.length > 200 ? text.slice(0, 200) + "..." : text;
+}
+
+/**
+ * Resolve a URL or URL suffix to the URL of a loaded source
+ */
+function resolveSourceUrl(url: string, sources: SourceForm[]): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return url;
+  }
+
+  const matches = Array.from(
+    new Set(sources.map((s) => s.url).filter((u): u is string => !!u && u.endsWith(url)))
+  );
+
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  if (matches.length === 0) {
+    throw new Error(
+      `No loaded script URL ends with "${url}". ` +
+        "Use zotero_debugger_sources to find the full URL, or pass a full chrome:// URL " +
+        "to set the breakpoint before the script loads."
+    );
+  }
+
+  throw new Error(
+    `"${url}" matches ${matches.length} scripts, pass a longer suffix or full URL:\n` +
+      matches.slice(0, 10).map((m) => `  - ${m}`).join("\n")
+  );
+}
+
+/**
+ * Describe a pause: why it happened, the stack, and the scopes of one frame
+ */
+export async function describePause(
+  client: RDPClient,
+  packet: PausedPacket,
+  frameIndex: number
+): Promise<string> {
+  const [frames, sources] = await Promise.all([client.getFrames(0, 30), client.listSources()]);
+  const urlsByActor = new Map(sources.map((s) => [s.actor, s.url]));
+
+  const lines: string[] = [`⏸ Paused (${packet.why?.type || "unknown reason"})`];
+
+  if (packet.why?.type === "exception" && packet.why.exception !== undefined) {
+    lines.push(`Exception: ${formatGrip(packet.why.exception)}`);
+  }
+
+  lines.push("", "### Stack");
+  frames.forEach((frame, i) => {
+    const name = frame.displayName || "(anonymous)";
+    const where = frame.where
+      ? `${urlsByActor.get(frame.where.actor) || frame.where.actor}:${frame.where.line}:${frame.where.column}`
+      : "unknown location";
+    const marker = i === frameIndex ? "→" : " ";
+    lines.push(`${marker} #${i} ${name} (${where})`);
+  });
+
+  const frame = frames[frameIndex];
+  if (!frame) {
+    lines.push("", `No frame at index ${frameIndex} (stack has ${frames.length}).`);
+    return lines.join("\n");
+  }
+
+  lines.push("", `### Scopes of #${frameIndex} ${frame.displayName || "(anonymous)"}`);
+  if (frame.this !== undefined) {
+    lines.push(`this = ${formatGrip(frame.this)}`);
+  }
+
+  let env: EnvironmentForm | undefined = await client.getFrameEnvironment(frame.actor);
+  for (let depth = 0; env && depth < MAX_SCOPES; depth++) {
+    // An object environment is the global (or a with-block); listing it would
+    // dump every global, so stop there
+    if (env.type === "object" || env.type === "with") {
+      break;
+    }
+
+    const label =
+      env.type === "function"
+        ? `Function scope${env.function ? ` (${formatGrip(env.function)})` : ""}`
+        : "Block scope";
+    lines.push(`${label}:`);
+
+    const entries: Array<[string, GripValue]> = [];
+    for (const arg of env.bindings?.arguments || []) {
+      for (const [name, descriptor] of Object.entries(arg)) {
+        entries.push([name, descriptor.value]);
+      }
+    }
+    for (const [name, descriptor] of Object.entries(env.bindings?.variables || {})) {
+      entries.push([name, descriptor.value]);
+    }
+
+    if (entries.length === 0) {
+      lines.push("  (no bindings)");
+    }
+    for (const [name, value] of entries.slice(0, MAX_BINDINGS_PER_SCOPE)) {
+      lines.push(`  ${name} = ${formatGrip(value)}`);
+    }
+    if (entries.length > MAX_BINDINGS_PER_SCOPE) {
+      lines.push(`  ... and ${entries.length - MAX_BINDINGS_PER_SCOPE} more`);
+    }
+
+    env = env.parent;
+  }
+
+  lines.push(
+    "",
+    "Next: zotero_debugger_resume (mode: over/in/out/resume), or zotero_debugger_pause " +
+      "with frameIndex to inspect another frame."
+  );
+
+  return lines.join("\n");
+}
+
+// Tool handlers
+export async function handleDebuggerSources(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const filter = (args.filter as string | undefined)?.toLowerCase();
+  const limit = (args.limit as number) || 100;
+
+  const client = await getRdpClient();
+  const sources = await client.listSources();
+
+  const urls = Array.from(
+    new Set(sources.map((s) => s.url).filter((u): u is string => !!u))
+  )
+    .filter((u) => !filter || u.toLowerCase().includes(filter))
+    .sort();
+
+  if (urls.length === 0) {
+    return [
+      {
+        type: "text",
+        text: filter
+          ? `No loaded scripts match "${filter}". Is the plugin started?`
+          : "No scripts reported by the thread actor",
+      },
+    ];
+  }
+
+  const shown = urls.slice(0, limit);
+  const lines = [`Found ${urls.length} script(s)${urls.length > limit ? ` (showing first ${limit})` : ""}:\n`];
+  lines.push(...shown);
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
+
+export async function handleDebuggerBreakpoint(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const action = (args.action as string) || "set";
+  const url = args.url as string | undefined;
+  const line = args.line as number | undefined;
+  const column = args.column as number | undefined;
+  const condition = args.condition as string | undefined;
+
+  if (!["set", "remove", "list", "clear"].includes(action)) {
+    throw new Error("Invalid action. Use 'set', 'remove', 'list', or 'clear'");
+  }
+
+  const client = await getRdpClient();
+
+  if (action === "list") {
+    const breakpoints = client.getBreakpoints();
+    if (breakpoints.length === 0) {
+      return [{ type: "text", text: "No breakpoints set" }];
+    }
+    const lines = [`${breakpoints.length} breakpoint(s):\n`];
+    for (const { location, options } of breakpoints) {
+      const col = location.column !== undefined ? `:${location.column}` : "";
+      const cond = options.condition ? ` if (${options.condition})` : "";
+      lines.push(`• ${location.sourceUrl}:${location.line}${col}${cond}`);
+    }
+    return [{ type: "text", text: lines.join("\n") }];
+  }
+
+  if (action === "clear") {
+    const breakpoints = client.getBreakpoints();
+    for (const { location } of breakpoints) {
+      await client.removeBreakpoint(location);
+    }
+    return [{ type: "text", text: `Removed ${breakpoints.length} breakpoint(s)` }];
+  }
+
+  if (!url || typeof url !== "string") {
+    throw new Error("Missing required parameter: url");
+  }
+  if (typeof line !== "number" || line < 1) {
+    throw new Error("Missing or invalid parameter: line (1-based line number)");
+  }
+
+  const sources = await client.listSources();
+  const sourceUrl = resolveSourceUrl(url, sources);
+  const location: BreakpointLocation = { sourceUrl, line };
+  if (typeof column === "number") {
+    location.column = column;
+  }
+
+  if (action === "remove") {
+    await client.removeBreakpoint(location);
+    return [{ type: "text", text: `Removed breakpoint at ${sourceUrl}:${line}` }];
+  }
+
+  await client.setBreakpoint(location, condition ? { condition } : {});
+
+  const loaded = sources.some((s) => s.url === sourceUrl);
+  return [
+    {
+      type: "text",
+      text:
+        `✓ Breakpoint set at ${sourceUrl}:${line}${condition ? ` if (${condition})` : ""}\n` +
+        (loaded ? "" : "Note: this script is not loaded yet; the breakpoint applies once it is.\n") +
+        "\nNext: trigger the code, then zotero_debugger_pause with action='wait'.",
+    },
+  ];
+}
+
+export async function handleDebuggerPause(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const action = (args.action as string) || "status";
+  const timeoutMs = (args.timeoutMs as number) || 30000;
+  const frameIndex = (args.frameIndex as number) ?? 0;
+
+  if (!["wait", "interrupt", "status"].includes(action)) {
+    throw new Error("Invalid action. Use 'wait', 'interrupt', or 'status'");
+  }
+
+  const client = await getRdpClient();
+  await client.ensureThreadActor();
+
+  if (action === "interrupt" && !client.getPausedPacket()) {
+    await client.interruptThread();
+  }
+
+  const packet =
+    action === "status" ? client.getPausedPacket() : await client.waitForPause(timeoutMs);
+
+  if (!packet) {
+    return [
+      {
+        type: "text",
+        text:
+          action === "status"
+            ? "Not paused. Set a breakpoint with zotero_debugger_breakpoint, then wait with action='wait'."
+            : `No pause within ${timeoutMs}ms. Check the breakpoint location with zotero_debugger_breakpoint action='list' ` +
+              "and that the code actually ran.",
+      },
+    ];
+  }
+
+  return [{ type: "text", text: await describePause(client, packet, frameIndex) }];
+}
+
+export async function handleDebuggerResume(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const mode = (args.mode as string) || "resume";
+  const waitMs = (args.waitMs as number) || 5000;
+
+  if (!(mode in RESUME_LIMITS)) {
+    throw new Error("Invalid mode. Use 'resume', 'over', 'in', or 'out'");
+  }
+
+  const client = await getRdpClient();
+  await client.ensureThreadActor();
+
+  if (!client.getPausedPacket()) {
+    return [{ type: "text", text: "Not paused - nothing to resume" }];
+  }
+
+  const limit = RESUME_LIMITS[mode];
+  await client.resumeThread(limit);
+
+  if (!limit) {
+    return [{ type: "text", text: "▶ Resumed" }];
+  }
+
+  const packet = await client.waitForPause(waitMs);
+  if (!packet) {
+    return [
+      {
+        type: "text",
+        text: `▶ Stepped ${mode}; execution continued without pausing again within ${waitMs}ms`,
+      },
+    ];
+  }
+
+  return [{ type: "text", text: await describePause(client, packet, 0) }];
+}
@@ -0,0 +1,340 @@
+/**
+ * TypeScript declarations for zotero_inspect_object
+ *
+ * Walks a live object in Zotero (own and inherited members, nested objects
+ * as namespaces) and renders a .d.ts skeleton from what it finds:
+ *
+ *   - methods, with parameter names parsed from Function.prototype.toString
+ *     and the arity from Function.length when the source is native
+ *   - properties, with types inferred from their current values
+ *   - classes (constructors with prototype methods)
+ *
+ * Types are what the values happen to be, not what the API promises; the
+ * output is a starting point for hand-written declarations.
+ */
+
+import type { RDPClient } from "../rdp/index.js";
+
+export type DeclaredMember =
+  | { kind: "method"; name: string; source: string; length: number }
+  | { kind: "class"; name: string; source: string; length: number; methods: DeclaredMember[] }
+  | { kind: "property"; name: string; type: string; readonly: boolean; note?: string }
+  | { kind: "namespace"; name: string; members: DeclaredMember[] };
+
+export interface DeclarationSource {
+  path: string;
+  zoteroVersion: string;
+  members: DeclaredMember[];
+  truncated: boolean;
+}
+
+// Members described in total, so a deep namespace cannot flood the result
+const MAX_MEMBERS = 3000;
+
+const RESERVED_WORDS = new Set(
+  (
+    "break case catch class const continue debugger default delete do else enum export extends false finally for " +
+    "function if import in instanceof new null return super switch this throw true try typeof var void while with " +
+    "implements interface let package private protected public static yield"
+  ).split(" ")
+);
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Split a parameter list at top-level commas
+ */
+function splitParams(list: string): string[] {
+  const params: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    const c = list[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'" || c === "`") {
+      quote = c;
+    } else if ("([{".includes(c)) {
+      depth++;
+    } else if (")]}".includes(c)) {
+      depth--;
+    } else if (c === "," && depth === 0) {
+      params.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  params.push(list.slice(start));
+  return params.map((param) => param.trim()).filter(Boolean);
+}
+
+/**
+ * The parameter list of a function's source, or null for native code
+ */
+function parameterList(source: string): string | null {
+  if (/\{\s*\[native code\]\s*\}\s*$/.test(source)) {
+    return null;
+  }
+
+  // Arrow function with a single bare parameter: `x => ...`, `async x => ...`
+  const bare = /^(?:async\s+)?([A-Za-z_$][\w$]*)\s*=>/.exec(source);
+  if (bare) {
+    return bare[1];
+  }
+
+  const open = source.indexOf("(");
+  if (open === -1) {
+    return null;
+  }
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    else if (source[i] === ")" && --depth === 0) return source.slice(open + 1, i);
+  }
+  return null;
+}
+
+/**
+ * Parameters as TypeScript, e.g. `(ids: any, options?: any, ...rest: any[])`.
+ * Destructured parameters get a placeholder name; parameters with a default
+ * value, or beyond Function.length, are optional.
+ */
+export function renderParameters(source: string, length: number): string {
+  const list = parameterList(source);
+  if (list === null) {
+    return `(${Array.from({ length }, (_, i) => `arg${i}: any`).join(", ")})`;
+  }
+
+  const params = splitParams(list.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, "")).map((param, index) => {
+    const rest = param.startsWith("...");
+    const binding = param.replace(/^\.\.\./, "");
+    const hasDefault = /^[^=]*=(?!>)/.test(binding) && !/^[{[]/.test(binding);
+    const name = /^[A-Za-z_$][\w$]*/.exec(binding)?.[0];
+    const safeName = name && !RESERVED_WORDS.has(name) ? name : `arg${index}`;
+    if (rest) return `...${safeName}: any[]`;
+    const optional = hasDefault || /^[{[][\s\S]*=/.test(binding) || index >= length;
+    return `${safeName}${optional ? "?" : ""}: any`;
+  });
+  return `(${params.join(", ")})`;
+}
+
+function returnType(source: string): string {
+  return /^async\b/.test(source) ? "Promise<any>" : "any";
+}
+
+function renderMembers(members: DeclaredMember[], indent: string, inClass: boolean): string[] {
+  const lines: string[] = [];
+  for (const member of members) {
+    const valid = IDENTIFIER.test(member.name) && !RESERVED_WORDS.has(member.name);
+    if (!valid && !inClass) {
+      lines.push(`${indent}// skipped "${member.name}": not usable as a namespace member name`);
+      continue;
+    }
+    const name = valid ? member.name : JSON.stringify(member.name);
+
+    switch (member.kind) {
+      case "method": {
+        const signature = `${renderParameters(member.source, member.length)}: ${returnType(member.source)}`;
+        lines.push(inClass ? `${indent}${name}${signature};` : `${indent}function ${name}${signature};`);
+        break;
+      }
+      case "property": {
+        const note = member.note ? ` // ${member.note}` : "";
+        const declaration = inClass
+          ? `${member.readonly ? "readonly " : ""}${name}: ${member.type};`
+          : `${member.readonly ? "const" : "let"} ${name}: ${member.type};`;
+        lines.push(`${indent}${declaration}${note}`);
+        break;
+      }
+      case "class":
+        lines.push(`${indent}class ${name} {`);
+        lines.push(`${indent}  constructor${renderParameters(member.source, member.length)};`);
+        lines.push(...renderMembers(member.methods, `${indent}  `, true));
+        lines.push(`${indent}}`);
+        break;
+      case "namespace":
+        if (inClass) {
+          lines.push(`${indent}${name}: any;`);
+          break;
+        }
+        lines.push(`${indent}namespace ${name} {`);
+        lines.push(...renderMembers(member.members, `${indent}  `, false));
+        lines.push(`${indent}}`);
+        break;
+    }
+  }
+  return lines;
+}
+
+export function renderDeclarations(source: DeclarationSource, generatedAt = new Date().toISOString()): string {
+  const lines = [
+    `// Generated by zotero_inspect_object from ${source.path} in Zotero ${source.zoteroVersion}, ${generatedAt}.`,
+    "// Types are inferred from current values; review before use.",
+  ];
+  if (source.truncated) {
+    lines.push(`// Truncated at ${MAX_MEMBERS} members; inspect nested objects separately.`);
+  }
+  lines.push(`declare namespace ${source.path} {`);
+  lines.push(...renderMembers(source.members, "  ", false));
+  lines.push("}", "");
+  return lines.join("\n");
+}
+
+/**
+ * Describe the object at `path` in Zotero. protoDepth bounds the prototype
+ * chain walk per object, namespaceDepth the nesting of object properties.
+ */
+export async function collectDeclarations(
+  client: RDPClient,
+  path: string,
+  options: { protoDepth: number; namespaceDepth: number; pattern?: string }
+): Promise<DeclarationSource> {
+  const code = `
+    (() => {
+      try {
+        const path = ${JSON.stringify(path)};
+        const PROTO_DEPTH = ${options.protoDepth};
+        const PATTERN = ${JSON.stringify(options.pattern?.toLowerCase() ?? null)};
+        let budget = ${MAX_MEMBERS};
+        let truncated = false;
+
+        let root = globalThis;
+        for (const part of path.split(".")) {
+          if (root === undefined || root === null) {
+            return JSON.stringify({ error: "Cannot access '" + part + "' - parent is " + root });
+          }
+          root = root[part];
+        }
+        if (root === undefined || root === null) {
+          return JSON.stringify({ error: "Object '" + path + "' is " + root });
+        }
+
+        const fnSource = (fn) => {
+          try {
+            return Function.prototype.toString.call(fn).slice(0, 1000);
+          } catch (e) {
+            return "function () { [native code] }";
+          }
+        };
+        const isNative = (fn) => /\\{\\s*\\[native code\\]\\s*\\}\\s*$/.test(fnSource(fn));
+        const BUILTIN_TYPES = { Map: "Map<any, any>", Set: "Set<any>", WeakMap: "WeakMap<object, any>",
+          WeakSet: "WeakSet<object>", Date: "Date", RegExp: "RegExp", Promise: "Promise<any>", Error: "Error" };
+
+        const typeOf = (value) => {
+          if (value === null) return { type: "null" };
+          if (value === undefined) return { type: "any", note: "undefined when inspected" };
+          const t = typeof value;
+          if (t === "string" || t === "number" || t === "boolean" || t === "bigint" || t === "symbol") return { type: t };
+          if (Array.isArray(value)) {
+            const types = new Set(value.slice(0, 20).map((v) => (v === null ? "null" : typeof v)));
+            const [only] = types;
+            return { type: types.size === 1 && ["string", "number", "boolean"].includes(only) ? only + "[]" : "any[]" };
+          }
+          let name = "Object";
+          try { name = value.constructor?.name || "Object"; } catch (e) {}
+          if (BUILTIN_TYPES[name]) return { type: BUILTIN_TYPES[name] };
+          if (name === "Object") return { type: "Record<string, any>" };
+          return { type: "any", note: name };
+        };
+
+        // Objects made by script constructors (or plain objects) are walked as
+        // namespaces; DOM nodes, windows and XPCOM objects are not
+        const isNamespace = (value) => {
+          if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+          const proto = Object.getPrototypeOf(value);
+          if (proto === Object.prototype || proto === null) return true;
+          try {
+            return typeof value.constructor === "function" && !isNative(value.constructor);
+          } catch (e) {
+            return false;
+          }
+        };
+
+        const isClass = (fn) => {
+          const source = fnSource(fn);
+          if (/^class\\b/.test(source)) return true;
+          if (!/^[A-Z]/.test(fn.name || "") || !fn.prototype) return false;
+          return Object.getOwnPropertyNames(fn.prototype).some((key) => key !== "constructor");
+        };
+
+        const seen = new Set();
+        const describe = (obj, namespaceDepth, filter) => {
+          seen.add(obj);
+          const members = [];
+          const names = new Set();
+          let current = obj;
+          for (let level = 0; current && level < PROTO_DEPTH; level++) {
+            if (current === Object.prototype || current === Function.prototype) break;
+            for (const key of Object.getOwnPropertyNames(current)) {
+              if (names.has(key) || key === "constructor" || key === "__proto__") continue;
+              names.add(key);
+              if (filter && !key.toLowerCase().includes(filter)) continue;
+              if (budget-- <= 0) {
+                truncated = true;
+                return members;
+              }
+
+              const descriptor = Object.getOwnPropertyDescriptor(current, key);
+              let value;
+              try {
+                value = obj[key];
+              } catch (e) {
+                members.push({ kind: "property", name: key, type: "any", readonly: false, note: "threw when read" });
+                continue;
+              }
+              const readonly = !!(descriptor && ((descriptor.get && !descriptor.set) || descriptor.writable === false));
+
+              if (typeof value === "function") {
+                if (isClass(value)) {
+                  const methods = Object.getOwnPropertyNames(value.prototype)
+                    .filter((m) => m !== "constructor")
+                    .flatMap((m) => {
+                      const d = Object.getOwnPropertyDescriptor(value.prototype, m);
+                      return d && typeof d.value === "function"
+                        ? [{ kind: "method", name: m, source: fnSource(d.value), length: d.value.length }]
+                        : [];
+                    });
+                  members.push({ kind: "class", name: key, source: fnSource(value), length: value.length, methods });
+                } else {
+                  members.push({ kind: "method", name: key, source: fnSource(value), length: value.length });
+                }
+              } else if (namespaceDepth > 0 && isNamespace(value) && !seen.has(value)) {
+                members.push({ kind: "namespace", name: key, members: describe(value, namespaceDepth - 1, null) });
+              } else {
+                members.push({ kind: "property", name: key, readonly, ...typeOf(value) });
+              }
+            }
+            current = Object.getPrototypeOf(current);
+          }
+          // Code unit order, so regenerated files diff cleanly on any locale
+          members.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+          return members;
+        };
+
+        const members = describe(root, ${options.namespaceDepth}, PATTERN);
+        return JSON.stringify({ path, zoteroVersion: Zotero.version, members, truncated });
+      } catch (error) {
+        return JSON.stringify({ error: String(error.message || error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`Failed to inspect object: ${response.exceptionMessage}`);
+  }
+
+  // Use async method to handle longString grips (declarations of big namespaces)
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Failed to inspect object: received undefined result");
+  }
+
+  const result = JSON.parse(String(jsonString)) as DeclarationSource & { error?: string };
+  if (result.error) {
+    throw new Error(result.error);
+  }
+  return result;
+}
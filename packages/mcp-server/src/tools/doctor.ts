@@ -0,0 +1,462 @@
+/**
+ * Connection Diagnostics
+ *
+ * zotero_doctor walks the path from this server to Zotero's DevTools server
+ * one step at a time, without RDPClient, and names the first step that fails
+ * together with a concrete fix
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { execFile } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { createConnection, type Socket } from "node:net";
+import { platform } from "node:os";
+import { join } from "node:path";
+import { getConfig } from "../index.js";
+import { encodePacket, readFrame } from "../rdp/framing.js";
+
+const BRIDGE_ADDON_ID = "mcp-rdp@zotero.org";
+const BRIDGE_DEFAULT_PORT = 6100;
+const DEFAULT_TIMEOUT_MS = 3000;
+
+export const doctorTool: Tool = {
+  name: "zotero_doctor",
+  description:
+    "Diagnose why the server cannot connect to Zotero. Checks, in order: the bridge plugin in the profile's " +
+    "extensions.json, the extensions.mcp-rdp.* and devtools.debugger.* prefs in prefs.js, whether the port " +
+    "accepts TCP, whether it speaks RDP framing, and whether getRoot succeeds, and finds the process that owns " +
+    "the port. Reports the first failing step with a fix. Works when Zotero is not running.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      profilePath: {
+        type: "string",
+        description: "Zotero profile directory to read prefs.js from (default: ZOTERO_PROFILE_PATH or auto-detected, " +
+          "taken as the default instance's profile)",
+      },
+      timeoutMs: {
+        type: "number",
+        description: `How long each network step may take (default: ${DEFAULT_TIMEOUT_MS})`,
+        default: DEFAULT_TIMEOUT_MS,
+      },
+    },
+    required: [],
+  },
+};
+
+export interface DoctorStep {
+  name: string;
+  status: "ok" | "fail" | "warn" | "skip";
+  detail: string;
+  fix?: string;
+}
+
+export interface PortOwner {
+  pid: number;
+  command: string;
+}
+
+/**
+ * Parse the user_pref() lines of a prefs.js file
+ */
+export function parsePrefsJs(text: string): Map<string, string | number | boolean> {
+  const prefs = new Map<string, string | number | boolean>();
+  const pattern = /^user_pref\("((?:[^"\\]|\\.)*)",\s*(.*)\);\s*$/;
+  for (const line of text.split(/\r?\n/)) {
+    const match = pattern.exec(line.trim());
+    if (!match) continue;
+    try {
+      prefs.set(JSON.parse(`"${match[1]}"`) as string, JSON.parse(match[2]) as string | number | boolean);
+    } catch {
+      // Not a value JSON can read (prefs.js only writes strings, integers and booleans)
+    }
+  }
+  return prefs;
+}
+
+/**
+ * Check the bridge prefs against the port this server dials, or skip that
+ * comparison when expectedPort is null because the profile may belong to
+ * another instance. prefs.js is written by Zotero while it runs and at exit,
+ * so a change made in the Config Editor a moment ago may not be there yet.
+ */
+export function checkBridgePrefs(
+  prefs: Map<string, string | number | boolean>,
+  expectedPort: number | null
+): DoctorStep[] {
+  const steps: DoctorStep[] = [];
+
+  if (prefs.get("extensions.mcp-rdp.enabled") === false) {
+    steps.push({
+      name: "Bridge enabled",
+      status: "fail",
+      detail: "extensions.mcp-rdp.enabled is false, so the bridge does not start",
+      fix: "Set extensions.mcp-rdp.enabled to true in Settings → Advanced → Config Editor and restart Zotero",
+    });
+  } else {
+    steps.push({ name: "Bridge enabled", status: "ok", detail: "extensions.mcp-rdp.enabled is not false" });
+  }
+
+  // Releases up to 1.0.4 stored the port under the extensions.zotero. prefix
+  // (see the bridge's bootstrap.js); the bridge still reads it
+  const portPref = prefs.get("extensions.mcp-rdp.port") || prefs.get("extensions.zotero.extensions.mcp-rdp.port");
+  let bridgePort = BRIDGE_DEFAULT_PORT;
+  if (portPref !== undefined && portPref !== false) {
+    const parsed = parseInt(String(portPref), 10);
+    if (parsed > 0 && parsed < 65536) {
+      bridgePort = parsed;
+    } else {
+      steps.push({
+        name: "Bridge port pref",
+        status: "warn",
+        detail: `extensions.mcp-rdp.port is ${JSON.stringify(portPref)}, which the bridge ignores (it stays on ${BRIDGE_DEFAULT_PORT})`,
+        fix:
+          "Delete the pref and create it again as a Number: the Config Editor pre-selects Boolean, which stores true " +
+          "instead of a port",
+      });
+    }
+  }
+
+  if (expectedPort === null) {
+    steps.push({
+      name: "Bridge port",
+      status: "skip",
+      detail:
+        `The bridge in this profile listens on ${bridgePort}. Not compared with this instance's port: the profile ` +
+        "is the default instance's, and may belong to another Zotero",
+      fix: "Pass profilePath with this instance's profile to compare the ports",
+    });
+  } else if (bridgePort !== expectedPort) {
+    steps.push({
+      name: "Bridge port",
+      status: "fail",
+      detail: `The bridge listens on ${bridgePort}, this server dials ${expectedPort}`,
+      fix:
+        `Set ZOTERO_RDP_PORT (or the instance's port in ZOTERO_INSTANCES) to ${bridgePort}, ` +
+        `or set extensions.mcp-rdp.port to ${expectedPort} and restart Zotero`,
+    });
+  } else {
+    steps.push({ name: "Bridge port", status: "ok", detail: `The bridge listens on ${bridgePort}, as this server expects` });
+  }
+
+  if (prefs.get("devtools.debugger.remote-enabled") !== true) {
+    steps.push({
+      name: "DevTools remote debugging",
+      status: "warn",
+      detail:
+        "devtools.debugger.remote-enabled is not true. The bridge sets it at every start, so it has not run " +
+        "in this profile yet, or prefs.js has not been written since",
+      fix: "Restart Zotero with the bridge installed and enabled",
+    });
+  } else if (prefs.get("devtools.debugger.prompt-connection") === true) {
+    steps.push({
+      name: "DevTools remote debugging",
+      status: "fail",
+      detail: "devtools.debugger.prompt-connection is true: Zotero asks for confirmation before it answers a connection",
+      fix: "Set devtools.debugger.prompt-connection to false in the Config Editor (the bridge does this at startup)",
+    });
+  } else {
+    steps.push({
+      name: "DevTools remote debugging",
+      status: "ok",
+      detail: "devtools.debugger.remote-enabled is true and connections are not prompted",
+    });
+  }
+
+  return steps;
+}
+
+function checkBridgeInstalled(profilePath: string): DoctorStep {
+  const extensionsJson = join(profilePath, "extensions.json");
+  if (!existsSync(extensionsJson)) {
+    return {
+      name: "Bridge installed",
+      status: "skip",
+      detail: `${extensionsJson} does not exist (Zotero has not run with this profile)`,
+    };
+  }
+
+  try {
+    const { addons = [] } = JSON.parse(readFileSync(extensionsJson, "utf8")) as {
+      addons?: Array<{ id: string; version?: string; active?: boolean; userDisabled?: boolean }>;
+    };
+    const bridge = addons.find((addon) => addon.id === BRIDGE_ADDON_ID);
+    if (!bridge) {
+      return {
+        name: "Bridge installed",
+        status: "fail",
+        detail: `${BRIDGE_ADDON_ID} is not installed in this profile`,
+        fix: "Install the MCP Bridge for Zotero XPI: Tools → Add-ons → ⚙️ → Install Add-on From File, then restart Zotero",
+      };
+    }
+    const name = `MCP Bridge${bridge.version ? ` ${bridge.version}` : ""}`;
+    if (bridge.userDisabled || bridge.active === false) {
+      return {
+        name: "Bridge installed",
+        status: "fail",
+        detail: `${name} is installed but disabled`,
+        fix: "Enable MCP Bridge for Zotero in Tools → Add-ons",
+      };
+    }
+    return { name: "Bridge installed", status: "ok", detail: `${name} is installed and active` };
+  } catch (error) {
+    return {
+      name: "Bridge installed",
+      status: "skip",
+      detail: `Could not read ${extensionsJson}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Connect and walk the protocol: TCP, the root intro packet, then getRoot
+ */
+export async function probeRdp(host: string, port: number, timeoutMs: number): Promise<DoctorStep[]> {
+  const steps: DoctorStep[] = [];
+  let socket: Socket | undefined;
+  let buffer: Buffer = Buffer.alloc(0);
+  let closed = false;
+  const waiters = new Set<() => void>();
+
+  // Resolves with the next JSON packet, null on timeout or close, or the raw
+  // bytes received when they are not RDP framing
+  const nextPacket = (): Promise<Record<string, unknown> | null | Buffer> =>
+    new Promise((resolve) => {
+      const attempt = () => {
+        const read = readFrame(buffer);
+        if (!read) return false;
+        if (read.frame.kind !== "json") {
+          resolve(buffer);
+          return true;
+        }
+        buffer = read.rest;
+        try {
+          resolve(JSON.parse(read.frame.text) as Record<string, unknown>);
+        } catch {
+          resolve(Buffer.from(read.frame.text));
+        }
+        return true;
+      };
+      if (attempt()) return;
+      const timer = setTimeout(() => finish(buffer.length ? buffer : null), timeoutMs);
+      const finish = (value: Record<string, unknown> | null | Buffer) => {
+        clearTimeout(timer);
+        waiters.delete(onData);
+        resolve(value);
+      };
+      const onData = () => {
+        // A prefix that is neither digits nor "bulk " will never frame
+        if (closed || /^[^0-9b]/.test(buffer.subarray(0, 1).toString("latin1"))) {
+          finish(buffer);
+        } else if (attempt()) {
+          clearTimeout(timer);
+          waiters.delete(onData);
+        }
+      };
+      waiters.add(onData);
+    });
+
+  try {
+    socket = await new Promise<Socket>((resolve, reject) => {
+      const candidate = createConnection({ host, port });
+      const timer = setTimeout(() => {
+        candidate.destroy();
+        reject(new Error(`no answer within ${timeoutMs}ms`));
+      }, timeoutMs);
+      candidate.once("connect", () => {
+        clearTimeout(timer);
+        resolve(candidate);
+      });
+      candidate.once("error", (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        reject(new Error(error.code ?? error.message));
+      });
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    steps.push({
+      name: "TCP",
+      status: "fail",
+      detail: `${host}:${port} does not accept connections (${reason})`,
+      fix:
+        reason === "ECONNREFUSED"
+          ? "Nothing listens on that port: start Zotero, and check its debug output for [MCP RDP] lines if it is running"
+          : "Check the host and any firewall between this server and Zotero",
+    });
+    return steps;
+  }
+
+  steps.push({ name: "TCP", status: "ok", detail: `${host}:${port} accepts connections` });
+  socket.on("data", (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data]);
+    waiters.forEach((waiter) => waiter());
+  });
+  socket.on("close", () => {
+    closed = true;
+    waiters.forEach((waiter) => waiter());
+  });
+  socket.on("error", () => undefined);
+
+  try {
+    const intro = await nextPacket();
+    if (intro === null || Buffer.isBuffer(intro) || intro.from !== "root") {
+      const received = Buffer.isBuffer(intro)
+        ? `received ${JSON.stringify(intro.subarray(0, 40).toString("latin1"))}`
+        : intro === null
+          ? `nothing within ${timeoutMs}ms`
+          : `a packet from ${JSON.stringify(intro.from)}`;
+      steps.push({
+        name: "RDP framing",
+        status: "fail",
+        detail: `The port does not greet like a DevTools server: ${received}`,
+        fix:
+          intro === null
+            ? "A DevTools server that is waiting for a connection prompt stays silent: check Zotero for a dialog, and " +
+              "that devtools.debugger.prompt-connection is false. Otherwise another program owns the port (see Port owner)"
+            : "Another program owns the port (see Port owner): stop it, or move the bridge to another extensions.mcp-rdp.port",
+      });
+      return steps;
+    }
+    steps.push({
+      name: "RDP framing",
+      status: "ok",
+      detail: `Root intro packet received (applicationType ${String(intro.applicationType)})`,
+    });
+
+    socket.write(encodePacket({ to: "root", type: "getRoot" }));
+    const root = await nextPacket();
+    if (root === null || Buffer.isBuffer(root) || root.from !== "root" || root.error) {
+      const error = root && !Buffer.isBuffer(root) && root.error ? `${String(root.error)}: ${String(root.message ?? "")}` : "no reply";
+      steps.push({
+        name: "getRoot",
+        status: "fail",
+        detail: `The root actor did not answer getRoot (${error})`,
+        fix: "Restart Zotero. If it persists, reinstall the bridge: its DevTools server is up but not serving actors",
+      });
+      return steps;
+    }
+    const actors = Object.keys(root).filter((key) => key.endsWith("Actor"));
+    steps.push({ name: "getRoot", status: "ok", detail: `The root actor answered with ${actors.length} global actor(s)` });
+  } finally {
+    socket.destroy();
+  }
+
+  return steps;
+}
+
+function run(command: string, args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: DEFAULT_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      resolve(error && !stdout ? null : stdout);
+    });
+  });
+}
+
+/**
+ * Find the process listening on a local TCP port: ss or lsof on Linux, lsof
+ * on macOS, netstat and tasklist on Windows. Null when none is found or the
+ * tools are missing.
+ */
+export async function findPortOwner(port: number): Promise<PortOwner | null> {
+  if (platform() === "win32") {
+    const netstat = await run("netstat", ["-ano", "-p", "TCP"]);
+    const line = netstat
+      ?.split(/\r?\n/)
+      .find((l) => /LISTENING/.test(l) && new RegExp(`:${port}\\s`).test(l));
+    const pid = line ? parseInt(line.trim().split(/\s+/).pop() ?? "", 10) : NaN;
+    if (Number.isNaN(pid)) return null;
+    const tasklist = await run("tasklist", ["/FI", `PID eq ${pid}`, "/FO", "CSV", "/NH"]);
+    return { pid, command: tasklist?.match(/^"([^"]+)"/)?.[1] ?? "unknown" };
+  }
+
+  if (platform() === "linux") {
+    const ss = await run("ss", ["-Hltnp", `sport = :${port}`]);
+    const match = ss?.match(/users:\(\("([^"]+)",pid=(\d+)/);
+    if (match) return { pid: parseInt(match[2], 10), command: match[1] };
+  }
+
+  const lsof = await run("lsof", ["-nP", `-iTCP:${port}`, "-sTCP:LISTEN", "-Fpc"]);
+  const pid = lsof?.match(/^p(\d+)$/m)?.[1];
+  if (!pid) return null;
+  return { pid: parseInt(pid, 10), command: lsof?.match(/^c(.+)$/m)?.[1] ?? "unknown" };
+}
+
+const STATUS_ICONS: Record<DoctorStep["status"], string> = { ok: "✓", fail: "✗", warn: "⚠", skip: "–" };
+
+export async function handleDoctor(args: Record<string, unknown>): Promise<TextContent[]> {
+  const config = getConfig();
+  const instance = (args.instance as string | undefined) ?? config.defaultInstance;
+  const endpoint = config.instances.get(instance);
+  if (!endpoint) {
+    throw new Error(`Unknown Zotero instance "${instance}". Configured instances: ${[...config.instances.keys()].join(", ")}`);
+  }
+  const timeoutMs = (args.timeoutMs as number) || DEFAULT_TIMEOUT_MS;
+  const profilePath = (args.profilePath as string | undefined) ?? config.zotero.profilePath;
+
+  const steps: DoctorStep[] = [];
+  if (!profilePath || !existsSync(profilePath)) {
+    steps.push({
+      name: "Profile",
+      status: "skip",
+      detail: profilePath ? `${profilePath} does not exist` : "No Zotero profile found",
+      fix: "Pass profilePath, or set ZOTERO_PROFILE_PATH, to check the bridge and its prefs",
+    });
+  } else {
+    steps.push({ name: "Profile", status: "ok", detail: profilePath });
+    steps.push(checkBridgeInstalled(profilePath));
+    const prefsJs = join(profilePath, "prefs.js");
+    if (existsSync(prefsJs)) {
+      // The configured profile is the default instance's; other instances need their own
+      const ownProfile = instance === config.defaultInstance || args.profilePath !== undefined;
+      steps.push(...checkBridgePrefs(parsePrefsJs(readFileSync(prefsJs, "utf8")), ownProfile ? endpoint.port : null));
+    } else {
+      steps.push({ name: "Prefs", status: "skip", detail: `${prefsJs} does not exist` });
+    }
+  }
+
+  const connection = await probeRdp(endpoint.host, endpoint.port, timeoutMs);
+  const connected = connection.some((step) => step.name === "getRoot" && step.status === "ok");
+
+  const local = ["127.0.0.1", "localhost", "::1"].includes(endpoint.host);
+  if (local) {
+    const owner = await findPortOwner(endpoint.port);
+    const ownerIsZotero = owner ? /zotero/i.test(owner.command) : false;
+    connection.push({
+      name: "Port owner",
+      status: owner && !ownerIsZotero && !connected ? "fail" : owner || connected ? "ok" : "skip",
+      detail: owner
+        ? `Port ${endpoint.port} is held by ${owner.command} (pid ${owner.pid})`
+        : `No listening process found on port ${endpoint.port} (or ss/lsof/netstat are unavailable)`,
+      fix:
+        owner && !ownerIsZotero
+          ? `Stop ${owner.command} (pid ${owner.pid}), or give the bridge another extensions.mcp-rdp.port and ` +
+            "set ZOTERO_RDP_PORT (or the instance's port in ZOTERO_INSTANCES) to match"
+          : undefined,
+    });
+  }
+  steps.push(...connection);
+
+  const lines = [
+    `Diagnosing ${instance !== "default" ? `instance ${instance} at ` : ""}${endpoint.host}:${endpoint.port}\n`,
+    ...steps.map((step) => `${STATUS_ICONS[step.status]} ${step.name}: ${step.detail}`),
+    "",
+  ];
+
+  // Once getRoot succeeds the connection works; prefs.js may just be stale
+  const firstFailure = connected ? undefined : steps.find((step) => step.status === "fail");
+  if (connected) {
+    lines.push("The connection works.");
+    const warnings = steps.filter((step) => step.status === "warn" && step.fix);
+    warnings.forEach((step) => lines.push(`Note (${step.name}): ${step.fix}`));
+    lines.push("Next: zotero_ping for versions and capabilities");
+  } else if (firstFailure) {
+    lines.push(`First failing step: ${firstFailure.name}`);
+    if (firstFailure.fix) lines.push(`Fix: ${firstFailure.fix}`);
+    lines.push("Next: run zotero_doctor again after the fix, then zotero_ping");
+  } else {
+    lines.push("No step failed outright, but Zotero did not answer.");
+    lines.push("Next: check Zotero's debug output for [MCP RDP] lines (Help → Debug Output Logging)");
+  }
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
@@ -0,0 +1,244 @@
+/**
+ * Dry runs for zotero_execute_js
+ *
+ * The code runs inside Zotero.DB.executeTransaction, which is always rolled
+ * back. While it runs, the notifier and Zotero.DB.queryAsync are wrapped to
+ * record what the code did:
+ *
+ *   - notifier events, recorded as triggered (observers never see them: Zotero
+ *     queues events during a transaction and drops the queue on rollback)
+ *   - INSERT/UPDATE/DELETE/REPLACE statements per table, with changed rows
+ *
+ * Nested executeTransaction calls (saveTx, eraseTx) made by the code join the
+ * dry-run transaction instead of waiting for it to end, which would never
+ * happen. The code runs as a function with a name unique to the run, and a
+ * call joins when that name is on its stack, awaited callers included (the
+ * engine's async stacks). Writes from elsewhere in Zotero (sync, observers,
+ * other plugins) wait for the rollback as usual.
+ *
+ * Only one dry run can patch Zotero at a time: a second one started while the
+ * first still runs (say, after a timed-out call) would save the first one's
+ * wrappers as the originals and leave them installed, so it is refused.
+ *
+ * A dry run that outlives its timeout is ended with abortDryRun: the
+ * transaction is rolled back and the originals restored without waiting for
+ * the code to finish. After the rollback, cached items, collections and searches the code touched
+ * are reloaded from the database so memory matches the data again.
+ */
+
+import type { RDPClient } from "../rdp/index.js";
+import { prepareReplInput } from "../utils/repl.js";
+
+export interface DryRunEvent {
+  event: string;
+  type: string;
+  ids: unknown[];
+  count: number;
+}
+
+export interface DryRunReport {
+  rolledBack: boolean;
+  failed: boolean;
+  events: DryRunEvent[];
+  tables: Record<string, { statements: number; rows: number }>;
+  totalChanges: number;
+  reloaded: number;
+}
+
+// Ids listed per notifier event; the count is always complete
+const MAX_EVENT_IDS = 20;
+
+/**
+ * The code to evaluate: the user's code as the body of an async function
+ * (the value of its last expression is returned, as in zotero_repl), run
+ * between the recorders inside a transaction that is rolled back. The report
+ * is left in Zotero._mcpDryRun for readDryRunReport.
+ */
+export function buildDryRunCode(code: string): string {
+  const { body } = prepareReplInput(code);
+  const marker = `_mcpDryRun_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  return `
+    (async () => {
+      // Named after the run, so the transaction wrapper can find it on a stack
+      const userCode = { ${marker}: async () => {
+${body}
+      } }.${marker};
+
+      Zotero._mcpDryRun = null;
+      if (Zotero._mcpDryRunAbort) {
+        throw new Error(
+          "Another dry run is still running (an earlier call that timed out?), so this one was not started. " +
+            "Wait for it to finish, then try again."
+        );
+      }
+
+      const report = { rolledBack: false, failed: false, events: [], tables: {}, totalChanges: 0, reloaded: 0 };
+
+      const notifier = Zotero.Notifier;
+      const db = Zotero.DB;
+      const originals = {
+        trigger: notifier.trigger,
+        queue: notifier.queue,
+        queryAsync: db.queryAsync,
+        executeTransaction: db.executeTransaction
+      };
+
+      // trigger() queues during a transaction; record each event once
+      let inTrigger = 0;
+      const record = (event, type, ids) => {
+        const list = Array.isArray(ids) ? ids : [ids];
+        report.events.push({ event, type, ids: list.slice(0, ${MAX_EVENT_IDS}), count: list.length });
+      };
+      notifier.trigger = function (event, type, ids) {
+        if (!inTrigger) record(event, type, ids);
+        inTrigger++;
+        try {
+          return originals.trigger.apply(this, arguments);
+        } finally {
+          inTrigger--;
+        }
+      };
+      notifier.queue = function (event, type, ids) {
+        if (!inTrigger) record(event, type, ids);
+        return originals.queue.apply(this, arguments);
+      };
+
+      db.queryAsync = async function (sql) {
+        const result = await originals.queryAsync.apply(this, arguments);
+        const write = typeof sql === "string" && /^\\s*(?:insert|update|delete|replace)\\b/i.exec(sql);
+        if (write) {
+          const table = (/\\b(?:into|update|from)\\s+["'\`\\[]?([\\w.]+)/i.exec(sql) || [])[1] || "?";
+          const entry = report.tables[table] || (report.tables[table] = { statements: 0, rows: 0 });
+          entry.statements++;
+          try {
+            entry.rows += await db.valueQueryAsync("SELECT changes()");
+          } catch (e) {}
+        }
+        return result;
+      };
+
+      // Only calls from the code join; others wait their turn
+      let joining = false;
+      db.executeTransaction = function (func) {
+        const fromCode = joining && String(new Error().stack).includes("${marker}");
+        return fromCode ? func() : originals.executeTransaction.apply(this, arguments);
+      };
+
+      const ROLLBACK = new Error("MCP dry run: rolling back");
+      let abort;
+      const aborted = new Promise((resolve, reject) => {
+        abort = () => reject(new Error("MCP dry run aborted: the code did not finish in time"));
+      });
+      Zotero._mcpDryRunAbort = abort;
+
+      let value;
+      let userError = null;
+      try {
+        await originals.executeTransaction.call(db, async () => {
+          const before = await db.valueQueryAsync("SELECT total_changes()");
+          joining = true;
+          try {
+            value = await Promise.race([userCode(), aborted]);
+          } catch (e) {
+            userError = e;
+          } finally {
+            joining = false;
+          }
+          report.totalChanges = (await db.valueQueryAsync("SELECT total_changes()")) - before;
+          throw ROLLBACK;
+        });
+      } catch (e) {
+        if (e !== ROLLBACK) throw e;
+        report.rolledBack = true;
+      } finally {
+        Zotero._mcpDryRunAbort = null;
+        notifier.trigger = originals.trigger;
+        notifier.queue = originals.queue;
+        db.queryAsync = originals.queryAsync;
+        db.executeTransaction = originals.executeTransaction;
+      }
+
+      // Objects created in the transaction no longer exist; changed ones are
+      // stale in the cache
+      for (const { event, type, ids } of report.events) {
+        if (!["item", "collection", "search"].includes(type)) continue;
+        try {
+          const objects = Zotero.DataObjectUtilities.getObjectsClassForObjectType(type);
+          const known = ids.filter((id) => typeof id === "number");
+          if (!known.length) continue;
+          if (event === "add") {
+            objects.unload(known);
+          } else {
+            await objects.reload(known, null, true);
+          }
+          report.reloaded += known.length;
+        } catch (e) {}
+      }
+
+      report.failed = userError !== null;
+      Zotero._mcpDryRun = report;
+      if (userError) throw userError;
+      return value;
+    })()
+  `;
+}
+
+export async function readDryRunReport(client: RDPClient): Promise<DryRunReport | null> {
+  const response = await client.evaluateJS("JSON.stringify(Zotero._mcpDryRun || null)");
+  if (response.exception) {
+    return null;
+  }
+  const json = await client.gripToValueAsync(response.result);
+  return json ? (JSON.parse(String(json)) as DryRunReport | null) : null;
+}
+
+/**
+ * Roll back a dry run whose code is still running, and restore what it
+ * patched. Resolves with false if there was none to abort, or Zotero did not
+ * answer.
+ */
+export async function abortDryRun(client: RDPClient, timeoutMs: number): Promise<boolean> {
+  try {
+    const response = await client.evaluateJS(
+      "typeof Zotero._mcpDryRunAbort === 'function' ? (Zotero._mcpDryRunAbort(), true) : false",
+      0,
+      { timeoutMs }
+    );
+    return !response.exception && (await client.gripToValueAsync(response.result)) === true;
+  } catch {
+    return false;
+  }
+}
+
+export function formatDryRunReport(report: DryRunReport | null): string {
+  if (!report) {
+    return "Dry run: no report. The transaction could not be started, so the code did not run.";
+  }
+
+  const lines = [
+    report.rolledBack
+      ? "Dry run: rolled back, nothing was saved."
+      : "Dry run: the transaction did not roll back cleanly. Check the library.",
+  ];
+
+  lines.push("", `Notifier events (${report.events.length}):`);
+  if (report.events.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const event of report.events) {
+    const more = event.count > event.ids.length ? ` … ${event.count} in total` : "";
+    lines.push(`  ${event.event} ${event.type} [${event.ids.map((id) => JSON.stringify(id)).join(", ")}${more}]`);
+  }
+
+  const tables = Object.entries(report.tables).sort(([a], [b]) => a.localeCompare(b));
+  lines.push("", `Rows changed: ${report.totalChanges}`);
+  for (const [table, counts] of tables) {
+    lines.push(`  ${table}: ${counts.rows} row(s) in ${counts.statements} statement(s)`);
+  }
+
+  if (report.reloaded > 0) {
+    lines.push("", `Reloaded ${report.reloaded} cached object(s) from the database.`);
+  }
+
+  return lines.join("\n");
+}
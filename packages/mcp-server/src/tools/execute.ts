@@ -5,7 +5,14 @@
  */
 
 import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
 import { getRdpClient } from "../index.js";
+import { RequestAbortedError, type RDPClient, type EvaluateJSResponse } from "../rdp/index.js";
+import { createStackMapper } from "../utils/sourcemap.js";
+import { collectDeclarations, renderDeclarations } from "./declarations.js";
+import { describePause } from "./debugger.js";
+import { abortDryRun, buildDryRunCode, formatDryRunReport, readDryRunReport } from "./dry-run.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // IIFE Wrapping Helpers
@@ -18,7 +25,7 @@ import { getRdpClient } from "../index.js";
  * Note: This is a heuristic. The fallback retry mechanism in handleExecuteJs
  * catches cases where detection fails.
  */
-function needsIIFEWrapper(code: string): boolean {
+export function needsIIFEWrapper(code: string): boolean {
   // Quick check - if no 'return' keyword, definitely doesn't need wrapping
   if (!/\breturn\b/.test(code)) {
     return false;
@@ -70,7 +77,7 @@ function needsIIFEWrapper(code: string): boolean {
 /**
  * Wraps code in an IIFE. Uses async IIFE if code contains 'await'.
  */
-function wrapInIIFE(code: string): string {
+export function wrapInIIFE(code: string): string {
   const hasAwait = /\bawait\s/.test(code);
   if (hasAwait) {
     return `(async () => {\n${code}\n})()`;
@@ -78,28 +85,6 @@ function wrapInIIFE(code: string): string {
   return `(() => {\n${code}\n})()`;
 }
 
-/**
- * Detects if a result contains truncated grip values that lost information.
- */
-function hasTruncatedValues(value: unknown): boolean {
-  if (typeof value === "string") {
-    // Check for common grip placeholder patterns
-    return (
-      value === "[Array]" ||
-      value === "[Object]" ||
-      value.includes('"[Array]"') ||
-      value.includes('"[Object]"')
-    );
-  }
-  if (Array.isArray(value)) {
-    return value.some((item) => hasTruncatedValues(item));
-  }
-  if (typeof value === "object" && value !== null) {
-    return Object.values(value).some((v) => hasTruncatedValues(v));
-  }
-  return false;
-}
-
 // Tool definitions
 export const executeJsTool: Tool = {
   name: "zotero_execute_js",
@@ -109,7 +94,8 @@ export const executeJsTool: Tool = {
     "Use for testing code snippets, inspecting state, or performing actions. " +
     "Prefer a dedicated tool when one fits the question (zotero_db_query for library data, zotero_read_logs/zotero_read_errors for output, zotero_inspect_object for API discovery); reach for raw JS only when none does. " +
     "Code with top-level 'return' statements is auto-wrapped in an IIFE. " +
-    "Tip: For complex objects, use JSON.stringify(obj) to get full data. " +
+    "With dryRun, the code runs in a database transaction that is rolled back, and the result lists what it changed. " +
+    "Returned objects are expanded through their actors, so nested objects, arrays, Maps, Sets, DOM nodes and Zotero objects come back as real structures (bounded by depth and maxNodes). " +
     "IMPORTANT: Before calling unknown APIs, use zotero_inspect_object to discover available methods - don't guess API names.",
   inputSchema: {
     type: "object",
@@ -125,6 +111,46 @@ export const executeJsTool: Tool = {
         description: "Whether to await the result if it's a Promise (default: true)",
         default: true,
       },
+      target: {
+        type: "string",
+        description:
+          "Where to run the code: 'main' (default, the parent process) or a target from zotero_list_targets - " +
+          "its id, or a URL/title substring such as 'reader.html', 'viewer.html' (PDF.js) or 'note-editor'. " +
+          "In a frame target the globals are that document's (window, document, PDFViewerApplication), not Zotero's.",
+      },
+      timeoutMs: {
+        type: "number",
+        description:
+          "Stop waiting after this many milliseconds (default: the connection timeout, 30000) and end the script " +
+          "through the debugger. A script that calls functions is stopped right away; one waiting on an await runs on, " +
+          "and a synchronous loop cannot be interrupted until it yields.",
+      },
+      depth: {
+        type: "number",
+        description: "How many levels of nested objects to expand in the result (default: 3)",
+        default: 3,
+      },
+      maxNodes: {
+        type: "number",
+        description:
+          "Maximum number of properties, items and entries to fetch in total (default: 500). " +
+          "Raise it for large results; each expanded object costs a round trip to Zotero.",
+        default: 500,
+      },
+      dryRun: {
+        type: "boolean",
+        description:
+          "Run the code inside a database transaction that is always rolled back, and report the notifier events " +
+          "fired and the rows changed per table (default: false). Use it to try destructive code on a real library. " +
+          "Main process only. Anything else written to the database while it runs is rolled back too, and changes " +
+          "outside the database (files, prefs) are not undone.",
+        default: false,
+      },
+      projectPath: {
+        type: "string",
+        description:
+          "Plugin project whose source maps resolve the stack of an error (default: current working directory)",
+      },
     },
     required: ["code"],
   },
@@ -167,9 +193,147 @@ export const setPrefTool: Tool = {
   },
 };
 
+/**
+ * Interrupt an evaluation that timed out or was cancelled, and explain what
+ * happened to the script
+ */
+export async function interruptRunaway(
+  client: RDPClient,
+  error: RequestAbortedError,
+  timeoutMs: number | undefined
+): Promise<TextContent[]> {
+  let pause = "";
+  const outcome = await client.interruptEvaluation({
+    onPaused: async (paused) => {
+      pause = await describePause(client, paused, 0).catch(() => "");
+    },
+  });
+  const headline =
+    error.reason === "timeout"
+      ? `Evaluation stopped: no result after ${timeoutMs ?? "the default"} ms.`
+      : "Evaluation cancelled.";
+
+  let text: string;
+  if (outcome.status === "paused") {
+    text = outcome.ended
+      ? `${headline}\n\nThe script was interrupted and ended with an error thrown where it was paused ` +
+        "(unless it catches that error). Zotero is running again.\n\nWhere it stopped:\n" +
+        pause
+      : `${headline}\n\nThe script was interrupted, but could not be ended, so it was resumed and runs on.\n\n` +
+        "Where it was paused:\n" +
+        pause;
+  } else if (outcome.status === "requested") {
+    text =
+      `${headline}\n\nThe script did not reach a point where it could be paused (it is probably waiting on an await), ` +
+      "so the interrupt was cancelled. It runs on and may still finish.";
+  } else {
+    text =
+      `${headline}\n\nZotero did not answer the interrupt: its main thread is still busy, usually in a synchronous ` +
+      "loop, which the debugger cannot stop until it yields. Later calls will time out until it finishes; " +
+      "if it never does, restart Zotero.";
+  }
+
+  return [{ type: "text", text }];
+}
+
+/**
+ * The exception of a failed evaluation, with its stack mapped through source
+ * maps and a hint for the usual mistakes
+ */
+export function describeEvaluationError(
+  response: EvaluateJSResponse,
+  target?: string,
+  projectPath: string = process.cwd()
+): string {
+  const error = response.exceptionMessage || "Unknown error";
+  let errorDetail = error;
+
+  // Try to extract more info from the exception grip
+  if (response.exception && typeof response.exception === "object") {
+    const exc = response.exception as {
+      preview?: { message?: string; stack?: string };
+    };
+    if (exc.preview?.stack) {
+      // Frames in a built plugin point into bundled output; map them back
+      // to the sources of the plugin project
+      const mapper = createStackMapper(projectPath);
+      const mapped = mapper?.mapStack(exc.preview.stack);
+      errorDetail = `${error}\n\nStack trace:\n${mapped ? mapped.stack : exc.preview.stack}`;
+      if (mapped && mapped.ambiguous.length > 0) {
+        errorDetail +=
+          `\n\nNot mapped, several source maps in ${mapper!.buildDir} fit equally well: ` +
+          mapped.ambiguous.join(", ");
+      }
+    }
+  }
+
+  // Add contextual hints based on error type
+  let hint = "";
+  if (target && error.includes("Zotero is not defined")) {
+    hint =
+      `\n\n💡 Tip: Code runs in the global of target "${target}", where Zotero is not defined. ` +
+      "Omit target to run in the parent process.";
+  } else if (error.includes("is not a function")) {
+    hint =
+      "\n\n💡 Tip: Use zotero_inspect_object to discover available methods.\n" +
+      'Example: zotero_inspect_object(path: "Zotero.Prefs", filter: "methods")';
+  } else if (
+    error.includes("is undefined") ||
+    error.includes("is not defined")
+  ) {
+    hint =
+      "\n\n💡 Tip: Use zotero_inspect_object to explore the API.\n" +
+      'Example: zotero_inspect_object(path: "Zotero", pattern: "your_keyword")';
+  }
+
+  return `${errorDetail}${hint}`;
+}
+
+/**
+ * Expand a result grip within the depth and maxNodes arguments of the call
+ * and render it as text
+ */
+export async function formatEvaluationResult(
+  client: RDPClient,
+  grip: EvaluateJSResponse["result"],
+  args: Record<string, unknown>
+): Promise<{ text: string; truncationHint: string }> {
+  // Expand object grips through their actors (long strings are fetched too)
+  const { value: result, truncated } = await client.expandGrip(grip, {
+    maxDepth: typeof args.depth === "number" ? Math.max(0, Math.floor(args.depth)) : undefined,
+    maxNodes: typeof args.maxNodes === "number" ? Math.max(1, Math.floor(args.maxNodes)) : undefined,
+  });
+  let text: string;
+
+  if (result === undefined) {
+    text = "undefined";
+  } else if (result === null) {
+    text = "null";
+  } else if (typeof result === "object") {
+    try {
+      text = JSON.stringify(result, null, 2);
+    } catch {
+      text = String(result);
+    }
+  } else {
+    text = String(result);
+  }
+
+  // Say where the budget cut the expansion short
+  let truncationHint = "";
+  if (truncated) {
+    truncationHint =
+      "\n\nNote: The result was cut short by the expansion budget (nested values shown as previews, " +
+      "or '… more' markers). Raise depth or maxNodes, or return only the part you need.";
+  }
+
+  return { text, truncationHint };
+}
+
 // Tool handlers
 export async function handleExecuteJs(
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  signal?: AbortSignal
 ): Promise<TextContent[]> {
   let code = args.code as string;
 
@@ -177,6 +341,17 @@ export async function handleExecuteJs(
     throw new Error("Missing required parameter: code");
   }
 
+  const target = typeof args.target === "string" && args.target ? args.target : undefined;
+  const timeoutMs = typeof args.timeoutMs === "number" && args.timeoutMs > 0 ? args.timeoutMs : undefined;
+  const projectPath = (args.projectPath as string | undefined) || process.cwd();
+
+  if (args.dryRun === true) {
+    if (target && target !== "main") {
+      throw new Error("dryRun runs in the parent process, where Zotero.DB lives. Omit target.");
+    }
+    return executeDryRun(code, args, timeoutMs, signal);
+  }
+
   const client = await getRdpClient();
   const originalCode = code;
 
@@ -185,85 +360,93 @@ export async function handleExecuteJs(
     code = wrapInIIFE(code);
   }
 
-  let response = await client.evaluateJS(code);
+  let response: EvaluateJSResponse;
+  try {
+    response = await client.evaluateJSInTarget(code, target, { timeoutMs, signal });
 
-  // Fallback: if detection failed and we get "return not in function" error,
-  // wrap the original code and retry
-  if (
-    response.exceptionMessage?.includes("return not in function") &&
-    code === originalCode // Only retry if we didn't already wrap
-  ) {
-    code = wrapInIIFE(originalCode);
-    response = await client.evaluateJS(code);
-  }
-
-  if (response.exception || response.exceptionMessage) {
-    const error = response.exceptionMessage || "Unknown error";
-    let errorDetail = error;
-
-    // Try to extract more info from the exception grip
-    if (response.exception && typeof response.exception === "object") {
-      const exc = response.exception as {
-        preview?: { message?: string; stack?: string };
-      };
-      if (exc.preview?.stack) {
-        errorDetail = `${error}\n\nStack trace:\n${exc.preview.stack}`;
-      }
-    }
-
-    // Add contextual hints based on error type
-    let hint = "";
-    if (error.includes("is not a function")) {
-      hint =
-        "\n\n💡 Tip: Use zotero_inspect_object to discover available methods.\n" +
-        'Example: zotero_inspect_object(path: "Zotero.Prefs", filter: "methods")';
-    } else if (
-      error.includes("is undefined") ||
-      error.includes("is not defined")
+    // Fallback: if detection failed and we get "return not in function" error,
+    // wrap the original code and retry
+    if (
+      response.exceptionMessage?.includes("return not in function") &&
+      code === originalCode // Only retry if we didn't already wrap
     ) {
-      hint =
-        "\n\n💡 Tip: Use zotero_inspect_object to explore the API.\n" +
-        'Example: zotero_inspect_object(path: "Zotero", pattern: "your_keyword")';
+      code = wrapInIIFE(originalCode);
+      response = await client.evaluateJSInTarget(code, target, { timeoutMs, signal });
+    }
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      return interruptRunaway(client, error, timeoutMs);
     }
+    throw error;
+  }
 
+  if (response.exception || response.exceptionMessage) {
     return [
       {
         type: "text",
-        text: `Error executing JavaScript:\n\n${errorDetail}${hint}`,
+        text: `Error executing JavaScript:\n\n${describeEvaluationError(response, target, projectPath)}`,
       },
     ];
   }
 
-  // Use async method to handle longString grips
-  const result = await client.gripToValueAsync(response.result);
-  let resultText: string;
+  const { text: resultText, truncationHint } = await formatEvaluationResult(client, response.result, args);
 
-  if (result === undefined) {
-    resultText = "undefined";
-  } else if (result === null) {
-    resultText = "null";
-  } else if (typeof result === "object") {
-    try {
-      resultText = JSON.stringify(result, null, 2);
-    } catch {
-      resultText = String(result);
+  return [
+    {
+      type: "text",
+      text: `Result${target ? ` (in ${target})` : ""}:\n${resultText}${truncationHint}`,
+    },
+  ];
+}
+
+// How long Zotero gets to roll back a dry run that outlived its timeout
+const DRY_RUN_ABORT_TIMEOUT_MS = 5000;
+
+async function executeDryRun(
+  code: string,
+  args: Record<string, unknown>,
+  timeoutMs: number | undefined,
+  signal?: AbortSignal
+): Promise<TextContent[]> {
+  const client = await getRdpClient();
+
+  let response: EvaluateJSResponse;
+  try {
+    response = await client.evaluateJS(buildDryRunCode(code), 0, { timeoutMs, signal });
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      const [content] = await interruptRunaway(client, error, timeoutMs);
+      if (await abortDryRun(client, DRY_RUN_ABORT_TIMEOUT_MS)) {
+        content.text +=
+          "\n\nThe dry-run transaction was rolled back and Zotero's database functions restored. " +
+          "If the script is still running, writes it makes from now on are not part of the dry run and are saved.";
+      } else {
+        content.text +=
+          "\n\nThe dry-run transaction stays open until the script finishes, and is rolled back then. " +
+          "Until then, other writes to the database wait for it, and another dry run cannot start.";
+      }
+      return [content];
     }
-  } else {
-    resultText = String(result);
+    throw error;
   }
 
-  // Check for truncated values and add hint
-  let truncationHint = "";
-  if (hasTruncatedValues(result) || hasTruncatedValues(resultText)) {
-    truncationHint =
-      "\n\nNote: Some nested values appear truncated ([Array] or [Object]). " +
-      "For full data, modify your code to return JSON.stringify(yourObject).";
+  const report = formatDryRunReport(await readDryRunReport(client));
+
+  if (response.exception || response.exceptionMessage) {
+    return [
+      {
+        type: "text",
+        text: `Error executing JavaScript:\n\n${describeEvaluationError(response, undefined, args.projectPath as string | undefined)}\n\n${report}`,
+      },
+    ];
   }
 
+  const { text: resultText, truncationHint } = await formatEvaluationResult(client, response.result, args);
+
   return [
     {
       type: "text",
-      text: `Result:\n${resultText}${truncationHint}`,
+      text: `Result (dry run):\n${resultText}${truncationHint}\n\n${report}`,
     },
   ];
 }
@@ -541,7 +724,8 @@ export const inspectObjectTool: Tool = {
   description:
     "Inspect a Zotero/JavaScript object to discover its methods and properties. " +
     "Use to explore APIs like Zotero.Items, ZoteroPane, Zotero.Prefs without manual JS execution. " +
-    "Returns methods with signatures and properties with their types/values.",
+    "Returns methods with signatures and properties with their types/values, or with format='dts' a .d.ts " +
+    "skeleton for patching local type declarations when Zotero adds an API.",
   inputSchema: {
     type: "object",
     properties: {
@@ -566,13 +750,31 @@ export const inspectObjectTool: Tool = {
         type: "string",
         description: "Filter member names by substring (case-insensitive)",
       },
+      format: {
+        type: "string",
+        enum: ["text", "dts"],
+        description:
+          "'text' (default) lists members; 'dts' emits a TypeScript declaration skeleton: methods with parameter " +
+          "names from their source, properties with types inferred from their values, classes, and nested objects " +
+          "as namespaces",
+        default: "text",
+      },
+      namespaceDepth: {
+        type: "number",
+        description: "With format='dts', how many levels of nested objects to declare as namespaces (default: 1, max: 4)",
+        default: 1,
+      },
+      outputPath: {
+        type: "string",
+        description: "With format='dts', also write the declarations to this file (e.g. 'typings/zotero-items.d.ts')",
+      },
     },
     required: ["path"],
   },
 };
 
 // Security: Validate object path to prevent code injection
-function isValidObjectPath(path: string): boolean {
+export function isValidObjectPath(path: string): boolean {
   // Reject obvious code injection attempts
   const dangerousPatterns = [";", "{", "}", "eval", "Function", "(", ")", "`", "$"];
   for (const pattern of dangerousPatterns) {
@@ -606,6 +808,21 @@ export async function handleInspectObject(
 
   const client = await getRdpClient();
 
+  if (args.format === "dts") {
+    const namespaceDepth = Math.min(Math.max(Math.floor((args.namespaceDepth as number | undefined) ?? 1), 0), 4);
+    const declarations = renderDeclarations(
+      await collectDeclarations(client, path, { protoDepth: depth, namespaceDepth, pattern })
+    );
+    const outputPath = args.outputPath as string | undefined;
+    if (outputPath) {
+      const file = resolve(outputPath);
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, declarations, "utf8");
+      return [{ type: "text", text: `Wrote declarations for ${path} to ${file}\n\n${declarations}` }];
+    }
+    return [{ type: "text", text: declarations }];
+  }
+
   // Return as JSON string to get full data
   const code = `
     (() => {
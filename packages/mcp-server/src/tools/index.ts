@@ -10,3 +10,14 @@ export * from "./logs.js";
 export * from "./scaffold.js";
 export * from "./plugins.js";
 export * from "./database.js";
+export * from "./debugger.js";
+export * from "./profiler.js";
+export * from "./memory.js";
+export * from "./network.js";
+export * from "./doctor.js";
+export * from "./repl.js";
+export * from "./script.js";
+export * from "./prefs.js";
+export * from "./source.js";
+export * from "./spy.js";
+export * from "./notifier.js";
@@ -55,6 +55,12 @@ export const getDomTreeTool: Tool = {
         type: "number",
         description: "Window outerWindowID (optional, defaults to main window)",
       },
+      target: {
+        type: "string",
+        description:
+          "Walk the document of a target from zotero_list_targets instead of a window: its id, or a URL/title " +
+          "substring such as 'reader.html', 'viewer.html' (PDF.js) or 'note-editor'. Takes precedence over windowId.",
+      },
     },
   },
 };
@@ -97,6 +103,23 @@ export const listWindowsTool: Tool = {
   },
 };
 
+export const listTargetsTool: Tool = {
+  name: "zotero_list_targets",
+  description:
+    "List the targets code can run in: Zotero's processes and every frame with its own document - " +
+    "chrome windows plus the reader (reader.html, the PDF.js viewer) and note-editor documents inside them. " +
+    "Pass a target's id or a URL substring as 'target' to zotero_execute_js, zotero_get_dom_tree or zotero_screenshot.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filter: {
+        type: "string",
+        description: "Only list targets whose URL or title contains this text (case-insensitive)",
+      },
+    },
+  },
+};
+
 // Tool handlers
 export async function handleInspectElement(
   args: Record<string, unknown>
@@ -208,6 +231,7 @@ export async function handleGetDomTree(
   const selector = args.selector as string | undefined;
   const depth = (args.depth as number) || 3;
   const windowId = args.windowId as number | undefined;
+  const target = typeof args.target === "string" && args.target ? args.target : undefined;
 
   const client = await getRdpClient();
 
@@ -216,7 +240,12 @@ export async function handleGetDomTree(
     (() => {
       let win;
       ${
-        windowId
+        target
+          ? `
+        // Evaluated in the target's own global
+        win = window;
+      `
+          : windowId
           ? `
         const windows = Services.wm.getEnumerator(null);
         while (windows.hasMoreElements()) {
@@ -285,7 +314,7 @@ export async function handleGetDomTree(
     })()
   `;
 
-  const response = await client.evaluateJS(code);
+  const response = await client.evaluateJSInTarget(code, target);
 
   if (response.exception) {
     throw new Error(`Failed to get DOM tree: ${response.exceptionMessage}`);
@@ -306,7 +335,7 @@ export async function handleGetDomTree(
   return [
     {
       type: "text",
-      text: `DOM Tree${selector ? ` (from ${selector})` : ""}:\n\n${JSON.stringify(result, null, 2)}`,
+      text: `DOM Tree${selector ? ` (from ${selector})` : ""}${target ? ` in ${target}` : ""}:\n\n${JSON.stringify(result, null, 2)}`,
     },
   ];
 }
@@ -497,3 +526,40 @@ export async function handleListWindows(): Promise<TextContent[]> {
 
   return [{ type: "text", text: lines.join("\n") }];
 }
+
+export async function handleListTargets(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const filter = typeof args.filter === "string" ? args.filter.toLowerCase() : "";
+
+  const client = await getRdpClient();
+  const targets = (await client.listTargets()).filter(
+    (t) => !filter || t.url.toLowerCase().includes(filter) || t.title.toLowerCase().includes(filter)
+  );
+
+  if (targets.length === 0) {
+    return [
+      {
+        type: "text",
+        text: filter
+          ? `No targets match "${filter}". A reader or note editor only has a target while it is open.`
+          : "No targets found",
+      },
+    ];
+  }
+
+  const lines = [`Found ${targets.length} target(s):\n`];
+
+  for (const target of targets) {
+    const label = target.kind === "process" ? (target.isParent ? "process, parent (default)" : "process") : "frame";
+    lines.push(`• ${target.id} [${label}]`);
+    if (target.title) lines.push(`  Title: ${target.title}`);
+    if (target.url) lines.push(`  URL: ${target.url}`);
+    if (target.browsingContextID !== undefined) lines.push(`  Browsing context: ${target.browsingContextID}`);
+    lines.push("");
+  }
+
+  lines.push("Next: pass an id or a URL substring (e.g. target: \"reader.html\") to zotero_execute_js.");
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
@@ -6,6 +6,49 @@
 
 import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
 import { getRdpClient } from "../index.js";
+import { zoteroMajorVersion, type Capabilities } from "../rdp/index.js";
+import { createStackMapper } from "../utils/sourcemap.js";
+
+/**
+ * Ways to read Zotero.Debug's output. Zotero 7 and later keep the lines in
+ * the console viewer's buffer; Zotero 6 hands the stored output out from the
+ * async get(); before that, only the internal buffers had it.
+ */
+const DEBUG_OUTPUT_METHODS = {
+  consoleViewer: `
+        if (typeof Zotero.Debug.getConsoleViewerOutput === 'function') {
+          try {
+            // An array of lines in current Zotero
+            const cvo = Zotero.Debug.getConsoleViewerOutput();
+            output = Array.isArray(cvo) ? cvo.join('\\n') : (cvo || '');
+          } catch (e) {}
+        }`,
+  get: `
+        if (!output && typeof Zotero.Debug.get === 'function') {
+          try {
+            output = (await Zotero.Debug.get()) || '';
+          } catch (e) {}
+        }`,
+  internal: `
+        if (!output && Array.isArray(Zotero.Debug._console)) {
+          output = Zotero.Debug._console.join('\\n');
+        }
+        if (!output && typeof Zotero.Debug._output === 'string') {
+          output = Zotero.Debug._output;
+        }`,
+};
+
+/**
+ * The code reading the debug output for the negotiated Zotero version: one
+ * method when the version is known, all of them in turn when it is not
+ */
+function debugOutputCode(capabilities: Capabilities | null): string {
+  const major = zoteroMajorVersion(capabilities);
+  if (major === null) {
+    return DEBUG_OUTPUT_METHODS.consoleViewer + DEBUG_OUTPUT_METHODS.get + DEBUG_OUTPUT_METHODS.internal;
+  }
+  return major >= 7 ? DEBUG_OUTPUT_METHODS.consoleViewer : DEBUG_OUTPUT_METHODS.get;
+}
 
 // Tool definitions
 export const readLogsTool: Tool = {
@@ -39,7 +82,9 @@ export const readErrorsTool: Tool = {
   name: "zotero_read_errors",
   description:
     "Read errors from Zotero's error console. " +
-    "Returns JavaScript errors with stack traces and source locations.",
+    "Returns JavaScript errors with stack traces and source locations. " +
+    "Locations in a built plugin are mapped back to the original sources when the " +
+    "project's build/ (or dist/) directory contains source maps.",
   inputSchema: {
     type: "object",
     properties: {
@@ -48,6 +93,11 @@ export const readErrorsTool: Tool = {
         description: "Number of recent errors to return (default: 20)",
         default: 20,
       },
+      projectPath: {
+        type: "string",
+        description:
+          "Plugin project whose source maps resolve stack frames (default: current working directory)",
+      },
     },
   },
 };
@@ -88,11 +138,11 @@ export async function handleReadLogs(
   const level = (args.level as string) || "all";
 
   const client = await getRdpClient();
+  const capabilities = await client.getCapabilities().catch(() => null);
 
-  // Try to get console viewer output (if debug output is enabled)
   // Return as JSON string to avoid RDP preview limitations with arrays
   const code = `
-    (() => {
+    (async () => {
       try {
         // Check if Zotero.Debug exists
         if (!Zotero.Debug) {
@@ -115,35 +165,9 @@ export async function handleReadLogs(
           });
         }
 
-        // Try multiple methods to get debug output (Zotero API varies by version)
+        // The method for this Zotero version (see DEBUG_OUTPUT_METHODS)
         let output = '';
-
-        // Method 1: getConsoleViewerOutput (Zotero 7+) returns an ARRAY in current Zotero
-        if (!output && typeof Zotero.Debug.getConsoleViewerOutput === 'function') {
-          try {
-            const cvo = Zotero.Debug.getConsoleViewerOutput();
-            output = Array.isArray(cvo) ? cvo.join('\\n') : (cvo || '');
-          } catch (e) {}
-        }
-
-        // Method 2: get() method
-        if (!output && typeof Zotero.Debug.get === 'function') {
-          try {
-            output = Zotero.Debug.get() || '';
-          } catch (e) {}
-        }
-
-        // Method 3: _console array (internal)
-        if (!output && Array.isArray(Zotero.Debug._console)) {
-          try {
-            output = Zotero.Debug._console.join('\\n');
-          } catch (e) {}
-        }
-
-        // Method 4: _output string (internal)
-        if (!output && typeof Zotero.Debug._output === 'string') {
-          output = Zotero.Debug._output;
-        }
+        ${debugOutputCode(capabilities)}
 
         if (!output) {
           return JSON.stringify({
@@ -259,6 +283,7 @@ export async function handleReadErrors(
   args: Record<string, unknown>
 ): Promise<TextContent[]> {
   const lines = (args.lines as number) || 20;
+  const projectPath = (args.projectPath as string | undefined) || process.cwd();
 
   const client = await getRdpClient();
 
@@ -351,6 +376,10 @@ export async function handleReadErrors(
 
   const lines_output: string[] = [`Found ${errors.length} error(s):\n`];
 
+  // Resolve bundled plugin locations through the project's source maps
+  const mapper = createStackMapper(projectPath);
+  let mappedFrames = 0;
+
   for (const err of errors) {
     const time = err.timestamp
       ? new Date(err.timestamp).toLocaleTimeString()
@@ -360,18 +389,41 @@ export async function handleReadErrors(
     lines_output.push(`[${time}] ${err.message}`);
 
     if (err.sourceName) {
-      lines_output.push(
-        `  at ${err.sourceName}:${err.lineNumber}:${err.columnNumber}`
+      const original = mapper?.mapLocation(
+        err.sourceName,
+        err.lineNumber || 0,
+        err.columnNumber || 0
       );
+      if (original) {
+        mappedFrames++;
+        lines_output.push(
+          `  at ${original.source}:${original.line}:${original.column}` +
+            ` (${err.sourceName}:${err.lineNumber}:${err.columnNumber})`
+        );
+      } else {
+        lines_output.push(
+          `  at ${err.sourceName}:${err.lineNumber}:${err.columnNumber}`
+        );
+      }
     }
 
     if (err.stack && typeof err.stack === "string") {
-      lines_output.push(`  Stack:\n    ${err.stack.replace(/\n/g, "\n    ")}`);
+      let stack = err.stack;
+      if (mapper) {
+        const result = mapper.mapStack(stack);
+        stack = result.stack;
+        mappedFrames += result.mapped;
+      }
+      lines_output.push(`  Stack:\n    ${stack.replace(/\n/g, "\n    ")}`);
     }
 
     lines_output.push("");
   }
 
+  if (mapper && mappedFrames > 0) {
+    lines_output.push(`(${mappedFrames} location(s) mapped through source maps in ${mapper.buildDir})`);
+  }
+
   return [{ type: "text", text: lines_output.join("\n") }];
 }
 
@@ -0,0 +1,512 @@
+/**
+ * Memory Tools
+ *
+ * Detect memory leaks across plugin reloads: memory reporter totals, windows,
+ * DOM nodes and Notifier observers per reload, and live objects counted by
+ * the plugin script that allocated them
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import { findPluginCode } from "./plugins.js";
+import { createStackMapper, type StackMapper } from "../utils/sourcemap.js";
+
+// Each reload waits for the plugin to settle, collects garbage and takes a census
+const CYCLE_TIMEOUT_MS = 20000;
+
+// One reload cannot show growth; more than MAX_CYCLES only makes the call longer
+const MIN_CYCLES = 2;
+const MAX_CYCLES = 20;
+const MAX_SETTLE_MS = 60000;
+
+// Growth per reload below these is noise, not a leak
+const MIN_OBJECT_GROWTH = 10;
+const MIN_PLUGIN_BYTES_GROWTH = 10 * 1024;
+const MIN_BYTES_GROWTH = 1024 * 1024;
+
+export const memoryLeakCheckTool: Tool = {
+  name: "zotero_memory_leak_check",
+  description:
+    "Check a plugin for memory leaks across reloads. Reloads it N times and after each reload (and a full GC/CC) " +
+    "records memory reporter totals, open windows, DOM nodes, Zotero.Notifier observers, system realms and " +
+    "live objects allocated by the plugin's scripts. Metrics that grow on every reload are flagged as probable " +
+    "leaks, with the plugin code that allocated the surviving objects.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      pluginId: {
+        type: "string",
+        description:
+          "Plugin ID to check (e.g., 'my-plugin@example.com'). Default: the only development plugin.",
+      },
+      cycles: {
+        type: "number",
+        description: `Number of reloads (default: 3, ${MIN_CYCLES} to ${MAX_CYCLES})`,
+        default: 3,
+      },
+      settleMs: {
+        type: "number",
+        description:
+          `Time to let the plugin finish its async startup after each reload (default: 2000, at most ${MAX_SETTLE_MS})`,
+        default: 2000,
+      },
+      url: {
+        type: "string",
+        description:
+          "Count objects allocated from script URLs containing this " +
+          "(default: the plugin's root URI and the chrome:// packages it registers)",
+      },
+      saveSnapshot: {
+        type: "boolean",
+        description:
+          "Also save a heap snapshot (.fxsnapshot) after the last reload, for the Firefox DevTools memory panel",
+        default: false,
+      },
+      projectPath: {
+        type: "string",
+        description:
+          "Plugin project whose source maps resolve allocation sites (default: current working directory)",
+      },
+    },
+  },
+};
+
+interface MemorySample {
+  label: string;
+  explicit: number | null;
+  resident: number | null;
+  jsGcHeap: number | null;
+  systemRealms: number | null;
+  ghostWindows: number | null;
+  windows: number;
+  domNodes: number;
+  notifierObservers: number | null;
+  pluginObjects: number | null; // null before allocation tracking starts
+  pluginBytes: number | null;
+}
+
+interface AllocationSite {
+  site: string; // "url:line:column" of the innermost plugin frame
+  count: number;
+  bytes: number;
+}
+
+interface LeakCheckResult {
+  plugin?: { id: string; name: string; version: string };
+  samples: MemorySample[];
+  sites: AllocationSite[];
+  snapshotPath?: string;
+  error?: string;
+  plugins?: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Read an integer argument, clamped to [min, max]. Both end up in the
+ * evaluated code and the call's timeout, so anything else is rejected.
+ */
+function integerArg(args: Record<string, unknown>, name: string, fallback: number, min: number, max: number): number {
+  const value = args[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  return Math.min(Math.max(value, min), max);
+}
+
+export async function handleMemoryLeakCheck(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const pluginId = args.pluginId as string | undefined;
+  const cycles = integerArg(args, "cycles", 3, MIN_CYCLES, MAX_CYCLES);
+  const settleMs = integerArg(args, "settleMs", 2000, 0, MAX_SETTLE_MS);
+  const url = args.url as string | undefined;
+  const saveSnapshot = args.saveSnapshot === true;
+  const projectPath = (args.projectPath as string | undefined) || process.cwd();
+
+  const client = await getRdpClient();
+
+  // The Debugger that tracks allocation sites lives in its own invisible
+  // compartment: a Debugger cannot share one with its debuggees
+  const code = `
+    (async () => {
+      let dbg;
+      try {
+        const { AddonManager } = ChromeUtils.importESModule(
+          "resource://gre/modules/AddonManager.sys.mjs"
+        );
+
+        ${findPluginCode(pluginId)}
+
+        const id = addon.id;
+        const rootURI = addon.getResourceURI("").spec;
+        const FILTER = ${JSON.stringify(url ?? null)};
+
+        // chrome:// packages count as plugin code when they resolve into the plugin
+        const chromeRegistry = Cc["@mozilla.org/chrome/chrome-registry;1"].getService(Ci.nsIChromeRegistry);
+        const packages = new Map();
+        const isPluginSource = (source) => {
+          if (!source) return false;
+          if (FILTER) return source.includes(FILTER);
+          if (source.startsWith(rootURI)) return true;
+          const match = /^chrome:\\/\\/([^/]+)\\//.exec(source);
+          if (!match) return false;
+          if (!packages.has(match[1])) {
+            let resolved = false;
+            try {
+              const uri = chromeRegistry.convertChromeURL(Services.io.newURI("chrome://" + match[1] + "/content/"));
+              resolved = uri.spec.startsWith(rootURI);
+            } catch (e) {}
+            packages.set(match[1], resolved);
+          }
+          return packages.get(match[1]);
+        };
+
+        const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+        const collectGarbage = async () => {
+          for (let i = 0; i < 3; i++) {
+            Cu.forceGC();
+            Cu.forceCC();
+            await sleep(50);
+          }
+          Cu.forceShrinkingGC();
+        };
+
+        const reporter = Cc["@mozilla.org/memory-reporter-manager;1"].getService(Ci.nsIMemoryReporterManager);
+        const read = (name) => {
+          try {
+            return reporter[name];
+          } catch (e) {
+            return null;
+          }
+        };
+
+        const countWindows = () => {
+          let windows = 0;
+          let domNodes = 0;
+          const enumerator = Services.wm.getEnumerator(null);
+          while (enumerator.hasMoreElements()) {
+            const win = enumerator.getNext();
+            windows++;
+            try {
+              domNodes += win.document.getElementsByTagName("*").length;
+            } catch (e) {}
+          }
+          return { windows, domNodes };
+        };
+
+        const census = () => {
+          const result = dbg.memory.takeCensus({
+            breakdown: {
+              by: "allocationStack",
+              then: { by: "count", count: true, bytes: true },
+              noStack: { by: "count", count: true, bytes: true }
+            }
+          });
+          const sites = new Map();
+          let count = 0;
+          let bytes = 0;
+          for (const [stack, value] of result) {
+            if (typeof stack !== "object" || !stack) continue;
+            // Attribute to the innermost plugin frame, even when the allocation
+            // itself happened in Zotero or Gecko code the plugin called
+            for (let frame = stack; frame; frame = frame.parent) {
+              if (isPluginSource(frame.source)) {
+                const site = frame.source + ":" + frame.line + ":" + frame.column;
+                const entry = sites.get(site) || { site, count: 0, bytes: 0 };
+                entry.count += value.count;
+                entry.bytes += value.bytes;
+                sites.set(site, entry);
+                count += value.count;
+                bytes += value.bytes;
+                break;
+              }
+            }
+          }
+          return { count, bytes, sites: [...sites.values()] };
+        };
+
+        const measure = (label, allocations) => {
+          const { windows, domNodes } = countWindows();
+          let notifierObservers = null;
+          try {
+            notifierObservers = Object.keys(Zotero.Notifier._observers || {}).length;
+          } catch (e) {}
+          return {
+            label,
+            explicit: read("explicit"),
+            resident: read("resident"),
+            jsGcHeap: read("JSMainRuntimeGCHeap"),
+            systemRealms: read("JSMainRuntimeRealmsSystem"),
+            ghostWindows: read("ghostWindows"),
+            windows,
+            domNodes,
+            notifierObservers,
+            pluginObjects: allocations ? allocations.count : null,
+            pluginBytes: allocations ? allocations.bytes : null
+          };
+        };
+
+        await collectGarbage();
+        const samples = [measure("before", null)];
+
+        // Allocation sites are only recorded from here on: what the reloads allocate
+        const sandbox = Cu.Sandbox(Services.scriptSecurityManager.getSystemPrincipal(), {
+          freshCompartment: true,
+          invisibleToDebugger: true
+        });
+        const { addDebuggerToGlobal } = ChromeUtils.importESModule("resource://gre/modules/jsdebugger.sys.mjs");
+        addDebuggerToGlobal(sandbox);
+        dbg = new sandbox.Debugger();
+        dbg.addAllGlobalsAsDebuggees();
+        dbg.onNewGlobalObject = (global) => {
+          try { dbg.addDebuggee(global); } catch (e) {}
+        };
+        dbg.memory.allocationSamplingProbability = 1;
+        dbg.memory.trackingAllocationSites = true;
+
+        let allocations;
+        for (let cycle = 1; cycle <= ${cycles}; cycle++) {
+          const current = await AddonManager.getAddonByID(id);
+          await current.reload();
+          await sleep(${settleMs});
+          await collectGarbage();
+          allocations = census();
+          samples.push(measure("reload " + cycle, allocations));
+        }
+
+        dbg.memory.trackingAllocationSites = false;
+
+        let snapshotPath;
+        if (${saveSnapshot}) {
+          snapshotPath = ChromeUtils.saveHeapSnapshot({ runtime: true });
+        }
+
+        return JSON.stringify({
+          plugin: { id: addon.id, name: addon.name, version: addon.version },
+          samples,
+          sites: allocations.sites.sort((a, b) => b.count - a.count).slice(0, 10),
+          snapshotPath
+        });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      } finally {
+        if (dbg) {
+          dbg.onNewGlobalObject = undefined;
+          dbg.memory.trackingAllocationSites = false;
+          dbg.removeAllDebuggees();
+        }
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code, 0, {
+    timeoutMs: cycles * (settleMs + CYCLE_TIMEOUT_MS) + CYCLE_TIMEOUT_MS,
+  });
+
+  if (response.exception) {
+    throw new Error(`Memory leak check failed: ${response.exceptionMessage}`);
+  }
+
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Memory leak check failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as LeakCheckResult;
+
+  if (result.error) {
+    if (result.plugins) {
+      const list = result.plugins.map((p) => `  - ${p.id} (${p.name})`).join("\n");
+      throw new Error(`${result.error}\n${list}`);
+    }
+    throw new Error(result.error);
+  }
+
+  return [{ type: "text", text: formatLeakCheck(result, createStackMapper(projectPath)) }];
+}
+
+interface Metric {
+  name: string;
+  value: (sample: MemorySample) => number | null;
+  format: (value: number) => string;
+  // Smallest growth per reload that counts
+  threshold: number;
+  hint: string;
+}
+
+const formatBytes = (bytes: number) => {
+  const sign = bytes < 0 ? "-" : "";
+  const abs = Math.abs(bytes);
+  if (abs < 1024) return `${sign}${abs} B`;
+  if (abs < 1024 * 1024) return `${sign}${(abs / 1024).toFixed(1)} KB`;
+  return `${sign}${(abs / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatCount = (count: number) => count.toLocaleString();
+
+const METRICS: Metric[] = [
+  {
+    name: "plugin objects",
+    value: (s) => s.pluginObjects,
+    format: formatCount,
+    threshold: MIN_OBJECT_GROWTH,
+    hint: "objects allocated by an earlier instance are still reachable; see the allocation sites below",
+  },
+  {
+    name: "plugin bytes",
+    value: (s) => s.pluginBytes,
+    format: formatBytes,
+    threshold: MIN_PLUGIN_BYTES_GROWTH,
+    hint: "memory held by objects the plugin allocated",
+  },
+  {
+    name: "notifier observers",
+    value: (s) => s.notifierObservers,
+    format: formatCount,
+    threshold: 1,
+    hint: "Zotero.Notifier.registerObserver() in startup without unregisterObserver() in shutdown",
+  },
+  {
+    name: "windows",
+    value: (s) => s.windows,
+    format: formatCount,
+    threshold: 1,
+    hint: "a window (or dialog) opened by the plugin is not closed on shutdown",
+  },
+  {
+    name: "ghost windows",
+    value: (s) => s.ghostWindows,
+    format: formatCount,
+    threshold: 1,
+    hint: "closed windows kept alive by references from plugin code (listeners, caches, globals)",
+  },
+  {
+    name: "DOM nodes",
+    value: (s) => s.domNodes,
+    format: formatCount,
+    threshold: 1,
+    hint: "elements inserted into Zotero windows are not removed on shutdown",
+  },
+  {
+    name: "system realms",
+    value: (s) => s.systemRealms,
+    format: formatCount,
+    threshold: 1,
+    hint: "sandboxes or script globals of earlier instances are never released",
+  },
+  {
+    name: "JS GC heap",
+    value: (s) => s.jsGcHeap,
+    format: formatBytes,
+    threshold: MIN_BYTES_GROWTH,
+    hint: "JS heap grows on every reload",
+  },
+  {
+    name: "explicit",
+    value: (s) => s.explicit,
+    format: formatBytes,
+    threshold: MIN_BYTES_GROWTH,
+    hint: "total allocated memory grows on every reload",
+  },
+  {
+    name: "resident",
+    value: (s) => s.resident,
+    format: formatBytes,
+    threshold: MIN_BYTES_GROWTH,
+    hint: "process memory grows on every reload",
+  },
+];
+
+/**
+ * Average growth per reload when the metric grew on every reload by at least
+ * the threshold, null otherwise. Needs two reloads with values.
+ */
+function steadyGrowth(values: number[], threshold: number): number | null {
+  if (values.length < 2) return null;
+  const deltas = values.slice(1).map((v, i) => v - values[i]);
+  if (!deltas.every((d) => d >= threshold)) return null;
+  return deltas.reduce((sum, d) => sum + d, 0) / deltas.length;
+}
+
+function formatLeakCheck(result: LeakCheckResult, mapper: StackMapper | null): string {
+  const { samples } = result;
+  const reloads = samples.length - 1;
+  const lines = [
+    `Memory across ${reloads} reload(s) of ${result.plugin?.name} (${result.plugin?.id})`,
+    "",
+  ];
+
+  // Table: one row per metric, one column per sample
+  const width = 12;
+  lines.push("".padEnd(20) + samples.map((s) => s.label.padStart(width)).join(""));
+  for (const metric of METRICS) {
+    const values = samples.map(metric.value);
+    if (values.every((v) => v === null)) continue;
+    lines.push(
+      metric.name.padEnd(20) +
+        values.map((v) => (v === null ? "-" : metric.format(v)).padStart(width)).join("")
+    );
+  }
+
+  // Growth is judged on the reloads only; the first sample still has the
+  // instance that was running before the check, with its own history
+  const leaks: string[] = [];
+  for (const metric of METRICS) {
+    const values = samples.slice(1).map(metric.value);
+    if (values.some((v) => v === null)) continue;
+    const growth = steadyGrowth(values as number[], metric.threshold);
+    if (growth !== null) {
+      leaks.push(`  - ${metric.name}: +${metric.format(Math.round(growth))} per reload — ${metric.hint}`);
+    }
+  }
+
+  lines.push("");
+  if (reloads < 2) {
+    lines.push("One reload is not enough to tell growth from the new instance's own state. Use cycles >= 2.");
+  } else if (leaks.length > 0) {
+    lines.push("⚠ Probable leaks (grew on every reload):", ...leaks);
+  } else {
+    lines.push("✓ No metric grew on every reload.");
+  }
+
+  if (result.sites.length > 0) {
+    lines.push("", "Live objects by plugin allocation site (after the last reload):");
+    for (const site of result.sites) {
+      lines.push(
+        `  ${formatCount(site.count).padStart(8)} objects ${formatBytes(site.bytes).padStart(10)}  ` +
+          describeSite(site.site, mapper)
+      );
+    }
+    lines.push(
+      "",
+      `A clean plugin keeps about one reload's worth of objects alive; ${reloads} reloads' worth means ` +
+        "each earlier instance is still reachable (typically from a Notifier observer, an event listener " +
+        "on a Zotero window, or a global)."
+    );
+  } else if (samples.some((s) => s.pluginObjects !== null)) {
+    lines.push("", "No live objects were allocated from the plugin's scripts.");
+  }
+
+  if (result.snapshotPath) {
+    lines.push(
+      "",
+      `Heap snapshot: ${result.snapshotPath}`,
+      "Load it in the Firefox DevTools memory panel (Browser Toolbox → Memory → Import) to follow retaining paths."
+    );
+  }
+
+  return lines.join("\n");
+}
+
+function describeSite(site: string, mapper: StackMapper | null): string {
+  const match = /^(.+):(\d+):(\d+)$/.exec(site);
+  if (!match || !mapper) return site;
+
+  const original = mapper.mapLocation(match[1], Number(match[2]), Number(match[3]));
+  if (!original) return site;
+
+  const name = original.name ? `${original.name} ` : "";
+  return `${name}${original.source}:${original.line}:${original.column}  [${site}]`;
+}
@@ -0,0 +1,608 @@
+/**
+ * Network Tools
+ *
+ * Capture HTTP traffic from Zotero, plugins, translators and sync with
+ * http-on-* observers in the parent process, and export it as HAR
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { getRdpClient, serverVersion } from "../index.js";
+import { buildHar, type NetworkEntry } from "../utils/har.js";
+
+// Requests kept in Zotero; the oldest are dropped first
+const MAX_ENTRIES = 500;
+
+const DEFAULT_MAX_BODY_SIZE = 4096;
+const MAX_BODY_SIZE = 1024 * 1024;
+
+export const networkCaptureTool: Tool = {
+  name: "zotero_network_capture",
+  description:
+    "Capture HTTP requests made by Zotero, plugins, translators and sync: method, URL, status, timings, " +
+    "request/response headers and truncated bodies. " +
+    "Use action='start' to begin recording, 'get' to list captured requests (or show one with id), " +
+    "'export' to write a HAR file, 'clear' to empty the buffer, and 'stop' to remove the observers " +
+    "(captured requests stay available until the next start).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "get", "export", "clear", "stop"],
+        description: "Action to perform",
+      },
+      urlPattern: {
+        type: "string",
+        description:
+          "Only requests whose URL contains this, or matches it as a regular expression when written /like this/. " +
+          "With start, limits what is recorded; with get/export, what is returned.",
+      },
+      plugin: {
+        type: "string",
+        description:
+          "Only requests initiated by this plugin (ID, or 'zotero' for Zotero itself), found from the JavaScript stack " +
+          "that opened the request. With start, limits what is recorded; with get/export, what is returned.",
+      },
+      maxBodySize: {
+        type: "number",
+        description:
+          `Bytes of each request and response body to keep (start only, default: ${DEFAULT_MAX_BODY_SIZE}, ` +
+          `0 for none, at most ${MAX_BODY_SIZE})`,
+        default: DEFAULT_MAX_BODY_SIZE,
+      },
+      id: {
+        type: "number",
+        description: "Show one captured request in full, with headers and bodies (get only)",
+      },
+      limit: {
+        type: "number",
+        description: `Number of most recent requests to list (get only, default: 50, at most ${MAX_ENTRIES})`,
+        default: 50,
+      },
+      outputPath: {
+        type: "string",
+        description:
+          "HAR file to write (export only, default: zotero-network-<time>.har in the current working directory)",
+      },
+    },
+    required: ["action"],
+  },
+};
+
+interface CaptureResult {
+  action?: string;
+  message?: string;
+  active?: boolean;
+  total?: number;
+  entries?: NetworkEntry[];
+  zoteroVersion?: string;
+  error?: string;
+}
+
+/**
+ * Read an integer argument of at least min, clamped to max. Both limits are
+ * written into the code evaluated in Zotero.
+ */
+function integerArg(args: Record<string, unknown>, name: string, fallback: number, min: number, max: number): number {
+  const value = args[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be a ${min > 0 ? "positive" : "non-negative"} integer`);
+  }
+  return Math.min(value, max);
+}
+
+export async function handleNetworkCapture(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const action = args.action as string;
+  const urlPattern = args.urlPattern as string | undefined;
+  const plugin = args.plugin as string | undefined;
+  const maxBodySize = integerArg(args, "maxBodySize", DEFAULT_MAX_BODY_SIZE, 0, MAX_BODY_SIZE);
+  const id = args.id as number | undefined;
+  const limit = integerArg(args, "limit", 50, 1, MAX_ENTRIES);
+
+  if (!action || !["start", "get", "export", "clear", "stop"].includes(action)) {
+    throw new Error("Invalid action. Use 'start', 'get', 'export', 'clear' or 'stop'");
+  }
+
+  if (urlPattern?.startsWith("/")) {
+    // Fail here rather than inside Zotero, with the pattern in the message
+    try {
+      patternToRegExp(urlPattern);
+    } catch {
+      throw new Error(`Invalid urlPattern regular expression: ${urlPattern}`);
+    }
+  }
+
+  const client = await getRdpClient();
+
+  const code = `
+    (async () => {
+      try {
+        const action = ${JSON.stringify(action)};
+        const URL_PATTERN = ${JSON.stringify(urlPattern ?? null)};
+        const PLUGIN = ${JSON.stringify(plugin ?? null)};
+
+        const toMatcher = (pattern) => {
+          if (!pattern) return () => true;
+          const regex = /^\\/(.*)\\/([a-z]*)$/.exec(pattern);
+          if (regex) {
+            const re = new RegExp(regex[1], regex[2]);
+            return (url) => re.test(url);
+          }
+          return (url) => url.includes(pattern);
+        };
+        const matches = (entry, urlMatcher, plugin) =>
+          urlMatcher(entry.url) && (!plugin || entry.initiator?.plugin === plugin);
+
+        if (action === "start") {
+          const previous = Zotero._mcpNetwork;
+          if (previous?.active) {
+            for (const topic of previous.topics) Services.obs.removeObserver(previous.observer, topic);
+          }
+
+          const state = {
+            active: true,
+            entries: [],
+            byChannel: new Map(),
+            nextId: 1,
+            maxBodySize: ${maxBodySize},
+            topics: [
+              "http-on-opening-request",
+              "http-on-examine-response",
+              "http-on-examine-cached-response",
+              "http-on-examine-merged-response"
+            ]
+          };
+          const urlMatcher = toMatcher(URL_PATTERN);
+
+          // Plugin of a script URL: under an add-on's root URI, or in a chrome
+          // package that resolves there
+          const { AddonManager } = ChromeUtils.importESModule("resource://gre/modules/AddonManager.sys.mjs");
+          const roots = (await AddonManager.getAddonsByTypes(["extension"]))
+            .map((addon) => {
+              try {
+                return { id: addon.id, root: addon.getResourceURI("").spec };
+              } catch (e) {
+                return null;
+              }
+            })
+            .filter(Boolean);
+          const chromeRegistry = Cc["@mozilla.org/chrome/chrome-registry;1"].getService(Ci.nsIChromeRegistry);
+          const packages = new Map();
+          const pluginOfUrl = (url) => {
+            let resolved = url;
+            const chrome = /^chrome:\\/\\/([^/]+)\\//.exec(url);
+            if (chrome) {
+              if (chrome[1] === "zotero") return "zotero";
+              if (!packages.has(chrome[1])) {
+                let spec = null;
+                try {
+                  spec = chromeRegistry.convertChromeURL(Services.io.newURI("chrome://" + chrome[1] + "/content/")).spec;
+                } catch (e) {}
+                packages.set(chrome[1], spec);
+              }
+              resolved = packages.get(chrome[1]) || url;
+            } else if (url.startsWith("resource://zotero/")) {
+              return "zotero";
+            }
+            return roots.find((r) => resolved.startsWith(r.root))?.id || null;
+          };
+
+          // The opening notification runs on the stack of the code that opened
+          // the request (XHR send, Zotero.HTTP.request); fetch() may open later
+          const findInitiator = () => {
+            let zoteroFrame = null;
+            for (let frame = Components.stack; frame; frame = frame.caller) {
+              if (!frame.filename || frame.filename.startsWith("debugger eval")) continue;
+              const owner = pluginOfUrl(frame.filename);
+              const location = frame.filename + ":" + frame.lineNumber;
+              if (owner && owner !== "zotero") return { plugin: owner, frame: location };
+              if (owner === "zotero" && !zoteroFrame) zoteroFrame = location;
+            }
+            return zoteroFrame ? { plugin: "zotero", frame: zoteroFrame } : null;
+          };
+
+          const readHeaders = (channel, visit) => {
+            const headers = [];
+            try {
+              channel[visit]({ visitHeader: (name, value) => headers.push({ name, value }) });
+            } catch (e) {}
+            return headers;
+          };
+
+          const TEXT_TYPES = /^text\\/|json|xml|javascript|x-www-form-urlencoded|graphql/i;
+          const decodeBody = (binary, size, mimeType, truncated) => {
+            const isText = !mimeType || TEXT_TYPES.test(mimeType);
+            let text = null;
+            if (isText) {
+              const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+              text = new TextDecoder("utf-8").decode(bytes);
+            }
+            return { text, size, mimeType: mimeType || "", truncated };
+          };
+          const readBytes = (stream, count) => {
+            const input = Cc["@mozilla.org/binaryinputstream;1"].createInstance(Ci.nsIBinaryInputStream);
+            input.setInputStream(stream);
+            return input.readBytes(count);
+          };
+
+          const readUpload = (channel) => {
+            try {
+              const stream = channel.QueryInterface(Ci.nsIUploadChannel).uploadStream;
+              if (!stream) return null;
+              const seekable = stream.QueryInterface(Ci.nsISeekableStream);
+              seekable.seek(Ci.nsISeekableStream.NS_SEEK_SET, 0);
+              const size = stream.available();
+              const binary = readBytes(stream, Math.min(size, state.maxBodySize));
+              seekable.seek(Ci.nsISeekableStream.NS_SEEK_SET, 0);
+              let mimeType = "";
+              try { mimeType = channel.getRequestHeader("Content-Type"); } catch (e) {}
+              return decodeBody(binary, size, mimeType, size > binary.length);
+            } catch (e) {
+              return null;
+            }
+          };
+
+          const timingsOf = (channel) => {
+            try {
+              const t = channel.QueryInterface(Ci.nsITimedChannel);
+              // PRTime microseconds; 0 when a phase did not happen (reused connection, cache)
+              const span = (from, to) => (from && to && to >= from ? (to - from) / 1000 : -1);
+              const firstPhase = t.domainLookupStartTime || t.connectStartTime || t.requestStartTime;
+              return {
+                blocked: span(t.asyncOpenTime, firstPhase),
+                dns: span(t.domainLookupStartTime, t.domainLookupEndTime),
+                connect: span(t.connectStartTime, t.connectEndTime),
+                ssl: span(t.secureConnectionStartTime, t.connectEndTime),
+                send: 0,
+                wait: span(t.requestStartTime, t.responseStartTime),
+                receive: span(t.responseStartTime, t.responseEndTime)
+              };
+            } catch (e) {
+              return null;
+            }
+          };
+
+          const byteStream = (data) => {
+            const stream = Cc["@mozilla.org/io/string-input-stream;1"].createInstance(Ci.nsIStringInputStream);
+            if (stream.setByteStringData) {
+              stream.setByteStringData(data);
+            } else {
+              stream.setData(data, data.length);
+            }
+            return stream;
+          };
+
+          // Tee the response: the original listener gets every byte unchanged,
+          // a copy goes (through decoders for Content-Encoding) to the capture
+          const captureResponse = (channel, entry) => {
+            const mimeType = channel.contentType || "";
+            let captured = "";
+            let overflow = false;
+            let decodedDone = state.maxBodySize === 0;
+            let rawSize = 0;
+            let undecodable = null;
+
+            const sink = {
+              onStartRequest() {},
+              onDataAvailable(request, stream, offset, count) {
+                const data = readBytes(stream, count);
+                const room = state.maxBodySize - captured.length;
+                captured += data.slice(0, room);
+                if (data.length > room) {
+                  overflow = true;
+                  decodedDone = true;
+                }
+              },
+              onStopRequest() {},
+              QueryInterface: ChromeUtils.generateQI(["nsIStreamListener", "nsIRequestObserver"])
+            };
+
+            let decoder = sink;
+            let contentEncoding = "";
+            try { contentEncoding = channel.getResponseHeader("Content-Encoding"); } catch (e) {}
+            const converters = Cc["@mozilla.org/streamConverters;1"].getService(Ci.nsIStreamConverterService);
+            for (const encoding of contentEncoding.split(",").map((e) => e.trim().toLowerCase())) {
+              if (!encoding || encoding === "identity") continue;
+              try {
+                decoder = converters.asyncConvertData(encoding, "uncompressed", decoder, null);
+              } catch (e) {
+                undecodable = encoding;
+                decodedDone = true;
+              }
+            }
+
+            const tee = {
+              original: null,
+              onStartRequest(request) {
+                try { decoder.onStartRequest(request); } catch (e) { decodedDone = true; }
+                this.original.onStartRequest(request);
+              },
+              onDataAvailable(request, stream, offset, count) {
+                const data = readBytes(stream, count);
+                rawSize += count;
+                if (!decodedDone) {
+                  try { decoder.onDataAvailable(request, byteStream(data), 0, count); } catch (e) { decodedDone = true; }
+                }
+                this.original.onDataAvailable(request, byteStream(data), offset, count);
+              },
+              onStopRequest(request, status) {
+                try { decoder.onStopRequest(request, status); } catch (e) {}
+                entry.responseBody = undecodable
+                  ? { text: null, size: rawSize, mimeType, truncated: true, encoding: undecodable }
+                  : decodeBody(captured, rawSize, mimeType, overflow || (decodedDone && rawSize > 0 && !captured));
+                if (!Components.isSuccessCode(status)) {
+                  entry.error = ChromeUtils.getXPCOMErrorName?.(status) || "0x" + (status >>> 0).toString(16);
+                }
+                entry.timings = timingsOf(channel);
+                entry.time = Date.now() - entry.started;
+                entry.pending = false;
+                state.byChannel.delete(channel.channelId);
+                this.original.onStopRequest(request, status);
+              },
+              QueryInterface: ChromeUtils.generateQI(["nsIStreamListener", "nsIRequestObserver"])
+            };
+            tee.original = channel.QueryInterface(Ci.nsITraceableChannel).setNewListener(tee);
+          };
+
+          state.observer = {
+            observe(subject, topic) {
+              let channel;
+              try {
+                channel = subject.QueryInterface(Ci.nsIHttpChannel);
+              } catch (e) {
+                return;
+              }
+
+              try {
+                if (topic === "http-on-opening-request") {
+                  const url = channel.URI.spec;
+                  if (!urlMatcher(url)) return;
+                  const initiator = findInitiator();
+                  if (PLUGIN && initiator?.plugin !== PLUGIN) return;
+                  try { channel.QueryInterface(Ci.nsITimedChannel).timingEnabled = true; } catch (e) {}
+
+                  const entry = {
+                    id: state.nextId++,
+                    channelId: channel.channelId,
+                    started: Date.now(),
+                    startedDateTime: new Date().toISOString(),
+                    time: -1,
+                    method: channel.requestMethod,
+                    url,
+                    httpVersion: "",
+                    status: null,
+                    statusText: "",
+                    error: null,
+                    fromCache: false,
+                    pending: true,
+                    requestHeaders: readHeaders(channel, "visitRequestHeaders"),
+                    responseHeaders: [],
+                    requestBody: state.maxBodySize > 0 ? readUpload(channel) : null,
+                    responseBody: null,
+                    timings: null,
+                    initiator
+                  };
+                  state.byChannel.set(channel.channelId, entry);
+                  state.entries.push(entry);
+                  if (state.entries.length > ${MAX_ENTRIES}) {
+                    state.byChannel.delete(state.entries.shift().channelId);
+                  }
+                  return;
+                }
+
+                const entry = state.byChannel.get(channel.channelId);
+                if (!entry) return;
+                // Final request headers: cookies and auth are added after opening
+                entry.requestHeaders = readHeaders(channel, "visitRequestHeaders");
+                entry.responseHeaders = readHeaders(channel, "visitResponseHeaders");
+                entry.status = channel.responseStatus;
+                entry.statusText = channel.responseStatusText;
+                entry.fromCache = topic !== "http-on-examine-response";
+                try { entry.httpVersion = channel.protocolVersion?.toUpperCase() || ""; } catch (e) {}
+                captureResponse(channel, entry);
+              } catch (e) {
+                // Never break a request because capturing it failed
+              }
+            }
+          };
+
+          for (const topic of state.topics) Services.obs.addObserver(state.observer, topic);
+          Zotero._mcpNetwork = state;
+
+          return JSON.stringify({ action: "started", message: "Network capture started" });
+        }
+
+        const state = Zotero._mcpNetwork;
+        if (!state) {
+          return JSON.stringify({
+            action: "not_running",
+            message: 'Network capture not started. Use action="start" first.'
+          });
+        }
+
+        if (action === "stop") {
+          if (state.active) {
+            for (const topic of state.topics) Services.obs.removeObserver(state.observer, topic);
+            state.active = false;
+          }
+          return JSON.stringify({
+            action: "stopped",
+            message: "Network capture stopped. " + state.entries.length + " request(s) kept for get/export."
+          });
+        }
+
+        if (action === "clear") {
+          const count = state.entries.length;
+          state.entries = [];
+          return JSON.stringify({ action: "cleared", message: "Cleared " + count + " captured request(s)" });
+        }
+
+        // get and export
+        const urlMatcher = toMatcher(URL_PATTERN);
+        const selected = state.entries.filter((entry) => matches(entry, urlMatcher, PLUGIN));
+        const ID = ${JSON.stringify(id ?? null)};
+        const entries = ID !== null
+          ? selected.filter((entry) => entry.id === ID)
+          : action === "export"
+            ? selected
+            : selected.slice(-${limit});
+
+        return JSON.stringify({
+          action,
+          active: state.active,
+          total: selected.length,
+          zoteroVersion: Zotero.version,
+          entries: entries.map(({ started, pending, channelId, ...entry }) => (
+            // Bodies only where they are shown: one request, or the HAR file
+            ID !== null || action === "export"
+              ? entry
+              : { ...entry, requestBody: null, responseBody: entry.responseBody && { ...entry.responseBody, text: null } }
+          ))
+        });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`Network capture failed: ${response.exceptionMessage}`);
+  }
+
+  // Use async method to handle longString grips (bodies, long request lists)
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Network capture failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as CaptureResult;
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  if (!result.entries) {
+    return [{ type: "text", text: result.message || "Done" }];
+  }
+
+  if (action === "export") {
+    const outputPath = resolve((args.outputPath as string | undefined) || `zotero-network-${Date.now()}.har`);
+    const har = buildHar(
+      result.entries,
+      { name: "mcp-server-zotero-dev", version: serverVersion },
+      result.zoteroVersion ? { name: "Zotero", version: result.zoteroVersion } : undefined
+    );
+    mkdirSync(dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, JSON.stringify(har, null, 2), "utf8");
+    return [
+      {
+        type: "text",
+        text:
+          `Exported ${result.entries.length} request(s) to ${outputPath}\n` +
+          "Open it in the DevTools Network panel (Import HAR) or any HAR viewer.",
+      },
+    ];
+  }
+
+  if (id !== undefined) {
+    const entry = result.entries[0];
+    if (!entry) {
+      throw new Error(`No captured request with id ${id}. Use action='get' to list them.`);
+    }
+    return [{ type: "text", text: formatEntry(entry) }];
+  }
+
+  return [{ type: "text", text: formatList(result) }];
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const match = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+  if (!match) {
+    throw new Error("Not a /regex/");
+  }
+  return new RegExp(match[1], match[2]);
+}
+
+function describeStatus(entry: NetworkEntry): string {
+  if (entry.error) return entry.error;
+  if (entry.status === null) return "pending";
+  return `${entry.status}${entry.fromCache ? " (cache)" : ""}`;
+}
+
+function formatList(result: CaptureResult): string {
+  const entries = result.entries || [];
+  const state = result.active ? "capturing" : "stopped";
+
+  if (entries.length === 0) {
+    return `No requests captured yet (${state}).`;
+  }
+
+  const lines = [
+    `${result.total} request(s) captured (${state}), showing the last ${entries.length}:`,
+    "",
+  ];
+  for (const entry of entries) {
+    const time = entry.time >= 0 ? `${Math.round(entry.time)}ms` : "";
+    const size = entry.responseBody ? `${entry.responseBody.size}B` : "";
+    const by = entry.initiator?.plugin ? ` [${entry.initiator.plugin}]` : "";
+    lines.push(
+      `#${entry.id} ${entry.method} ${describeStatus(entry)} ${entry.url} ${time} ${size}${by}`.replace(/ +/g, " ")
+    );
+  }
+  lines.push("", "Next: zotero_network_capture action='get' id=<n> for headers and bodies, or action='export' for HAR.");
+
+  return lines.join("\n");
+}
+
+function formatEntry(entry: NetworkEntry): string {
+  const lines = [
+    `#${entry.id} ${entry.method} ${entry.url}`,
+    `Status: ${describeStatus(entry)} ${entry.statusText}`.trimEnd(),
+    `Started: ${entry.startedDateTime}${entry.time >= 0 ? `, took ${Math.round(entry.time)}ms` : ""}`,
+  ];
+
+  if (entry.initiator) {
+    lines.push(`Initiator: ${entry.initiator.plugin ?? "unknown"}${entry.initiator.frame ? ` at ${entry.initiator.frame}` : ""}`);
+  }
+
+  if (entry.timings) {
+    const phases = Object.entries(entry.timings)
+      .filter(([, ms]) => ms >= 0)
+      .map(([phase, ms]) => `${phase} ${Math.round(ms)}ms`);
+    lines.push(`Timings: ${phases.join(", ")}`);
+  }
+
+  const section = (title: string, headers: { name: string; value: string }[]) => {
+    lines.push("", `${title}:`);
+    if (headers.length === 0) lines.push("  (none)");
+    for (const h of headers) lines.push(`  ${h.name}: ${h.value}`);
+  };
+  section("Request headers", entry.requestHeaders);
+  section("Response headers", entry.responseHeaders);
+
+  for (const [title, body] of [
+    ["Request body", entry.requestBody],
+    ["Response body", entry.responseBody],
+  ] as const) {
+    if (!body) continue;
+    lines.push("", `${title} (${body.mimeType || "unknown type"}, ${body.size} bytes):`);
+    if (body.encoding) {
+      lines.push(`  [not captured: Content-Encoding ${body.encoding}]`);
+    } else if (body.text === null) {
+      lines.push("  [binary]");
+    } else {
+      lines.push(body.text + (body.truncated ? `\n  [… truncated, ${body.size} bytes in total]` : ""));
+    }
+  }
+
+  return lines.join("\n");
+}
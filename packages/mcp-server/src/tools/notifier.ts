@@ -0,0 +1,548 @@
+/**
+ * Notifier Event Tool
+ *
+ * Register a Zotero.Notifier observer for chosen types and record every
+ * event it receives (event, type, ids, extraData) with a timestamp, so the
+ * events a UI action or plugin fires, and their order, can be read back.
+ * 'wait' blocks until a matching event arrives, which lets a caller trigger
+ * something and continue once Zotero has reacted, instead of sleeping.
+ *
+ * State lives on Zotero._mcpNotifier, as zotero_watch_prefs does with its
+ * observer.
+ *
+ * zotero_notifier_trigger goes the other way: it fires an event nothing in
+ * the library caused, so observers can be tested on demand.
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import { RequestAbortedError, type RDPClient } from "../rdp/index.js";
+
+// Events kept in Zotero between reads; the oldest are dropped first
+const MAX_NOTIFIER_EVENTS = 1000;
+
+// extraData longer than this is cut when shown
+const MAX_EXTRA_DATA_LENGTH = 1000;
+
+// Room for the reply on top of the wait itself
+const WAIT_REPLY_MARGIN_MS = 10000;
+
+// Observers are awaited one after another; slow ones can take a while
+const DELIVERY_TIMEOUT_MS = 60000;
+
+export const watchNotifierTool: Tool = {
+  name: "zotero_watch_notifier",
+  description:
+    "Record Zotero.Notifier events, the ones plugins observe: action='start' registers an observer for 'types' " +
+    "(e.g. ['item', 'collection-item', 'tab']; default all), 'get' returns the events recorded since the last get " +
+    "with event, type, ids and extraData, 'stop' unregisters the observer. 'wait' returns the next event matching " +
+    "event/type/id (unread ones included, so triggering first cannot miss it), waiting up to timeoutMs for one to " +
+    "arrive; use it after triggering an action instead of sleeping.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "get", "wait", "stop"],
+        description: "Action to perform",
+      },
+      types: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Notifier types to record (start only), e.g. 'item', 'collection', 'collection-item', 'item-tag', 'tag', " +
+          "'setting', 'tab', 'trash', 'sync'. Default: all types. Starting again replaces them.",
+      },
+      event: {
+        type: "string",
+        description: "With 'wait', the event to wait for, e.g. 'add', 'modify', 'delete', 'select', 'trash'",
+      },
+      type: {
+        type: "string",
+        description: "With 'wait', the type to wait for, e.g. 'item'",
+      },
+      id: {
+        type: "string",
+        description: "With 'wait', an id the event must include (item ID, tab ID, setting key...)",
+      },
+      timeoutMs: {
+        type: "number",
+        description: "With 'wait', how long to wait for a matching event (default: 30000)",
+        default: 30000,
+      },
+    },
+    required: ["action"],
+  },
+};
+
+export const triggerNotifierTool: Tool = {
+  name: "zotero_notifier_trigger",
+  description:
+    "Fire a synthetic Zotero.Notifier event to test observers (e.g. a plugin's onNotify) without changing the " +
+    "library: calls Zotero.Notifier.trigger, or with queue=true queues the event and commits the queue, with any " +
+    "event, type, ids and extraData. Reports the observers that received it, in order, the exceptions they threw, " +
+    "and the errors that reached the error console. Note that observers act on the event as if it were real.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      event: {
+        type: "string",
+        description: "Event name, e.g. 'add', 'modify', 'delete', 'trash', 'refresh', 'select'",
+      },
+      type: {
+        type: "string",
+        description: "Notifier type, e.g. 'item', 'collection', 'collection-item', 'tag', 'setting', 'tab'",
+      },
+      ids: {
+        type: "array",
+        items: { type: ["string", "number"] },
+        description: "IDs the event is about (default: [])",
+      },
+      extraData: {
+        type: "object",
+        description:
+          "extraData as observers receive it, usually keyed by id, e.g. {\"12\": {\"libraryID\": 1, \"key\": \"ABCD2345\"}} " +
+          "for a 'delete'",
+      },
+      queue: {
+        type: "boolean",
+        description: "Queue the event with Zotero.Notifier.queue and commit it, as a transaction does (default: false)",
+        default: false,
+      },
+      settleMs: {
+        type: "number",
+        description:
+          "How long to wait after delivery before reading the error console, for handlers that continue " +
+          "asynchronously (default: 200)",
+        default: 200,
+      },
+    },
+    required: ["event", "type"],
+  },
+};
+
+interface NotifierEvent {
+  seq: number;
+  time: string;
+  event: string;
+  type: string;
+  ids: Array<string | number>;
+  extraData: unknown;
+}
+
+interface NotifierResult {
+  error?: string;
+  action: string;
+  message?: string;
+  types?: string[] | null;
+  events?: NotifierEvent[];
+  dropped?: number;
+  event?: NotifierEvent | null;
+  waitedMs?: number;
+  // Found among the events recorded before the wait
+  already?: boolean;
+  unread?: number;
+}
+
+export function formatNotifierEvent(entry: NotifierEvent): string {
+  const line = `[${entry.time}] ${entry.event} ${entry.type} ${JSON.stringify(entry.ids)}`;
+  if (entry.extraData === null || entry.extraData === undefined) {
+    return line;
+  }
+  if (typeof entry.extraData === "object" && Object.keys(entry.extraData).length === 0) {
+    return line;
+  }
+  let extra = JSON.stringify(entry.extraData);
+  if (extra.length > MAX_EXTRA_DATA_LENGTH) {
+    extra = `${extra.slice(0, MAX_EXTRA_DATA_LENGTH)}… (${extra.length} chars)`;
+  }
+  return `${line}\n  extraData: ${extra}`;
+}
+
+/**
+ * Read a duration argument in milliseconds. It is written into the evaluated
+ * code, so anything but a non-negative number is rejected.
+ */
+function durationArg(args: Record<string, unknown>, name: string, fallback: number): number {
+  const value = args[name] ?? fallback;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number of milliseconds`);
+  }
+  return Math.floor(value);
+}
+
+/**
+ * Resolve pending waits in Zotero, e.g. when the tool call was cancelled
+ */
+async function cancelWaits(client: RDPClient): Promise<void> {
+  await client
+    .evaluateJS("Zotero._mcpNotifier && Zotero._mcpNotifier.cancelWaits(); undefined")
+    .catch(() => undefined);
+}
+
+export async function handleWatchNotifier(
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<TextContent[]> {
+  const action = args.action as string;
+  const types = args.types as string[] | undefined;
+  const timeoutMs = durationArg(args, "timeoutMs", 30000);
+  const id = args.id as string | number | undefined;
+
+  if (!action || !["start", "get", "wait", "stop"].includes(action)) {
+    throw new Error("Invalid action. Use 'start', 'get', 'wait', or 'stop'");
+  }
+  if (action === "wait" && !args.event && !args.type && id === undefined) {
+    throw new Error("Nothing to wait for: pass event, type and/or id");
+  }
+
+  const client = await getRdpClient();
+
+  const code = `
+    (async () => {
+      try {
+        const action = ${JSON.stringify(action)};
+        const previous = Zotero._mcpNotifier;
+
+        if (action === "start") {
+          if (previous) {
+            Zotero.Notifier.unregisterObserver(previous.observerID);
+            previous.cancelWaits();
+          }
+
+          const TYPES = ${JSON.stringify(types?.length ? types : null)};
+          const state = { types: TYPES, events: [], dropped: 0, seq: 0, waitedSeq: 0, waiters: new Set() };
+
+          // extraData as plain JSON: it can hold objects we should not keep alive
+          const copy = (value) => {
+            if (value === undefined) return null;
+            try {
+              return JSON.parse(JSON.stringify(value));
+            } catch (e) {
+              return String(value);
+            }
+          };
+
+          state.cancelWaits = () => {
+            for (const waiter of state.waiters) waiter.resolve(null);
+          };
+
+          const observer = {
+            notify(event, type, ids, extraData) {
+              const entry = {
+                seq: ++state.seq,
+                time: new Date().toISOString(),
+                event,
+                type,
+                ids: Array.isArray(ids) ? ids.slice() : [ids],
+                extraData: copy(extraData)
+              };
+              state.events.push(entry);
+              if (state.events.length > ${MAX_NOTIFIER_EVENTS}) {
+                state.events.shift();
+                state.dropped++;
+              }
+              for (const waiter of state.waiters) {
+                if (waiter.match(entry)) waiter.resolve(entry);
+              }
+            }
+          };
+          state.observerID = Zotero.Notifier.registerObserver(observer, TYPES || undefined, "mcp-notifier");
+          Zotero._mcpNotifier = state;
+
+          return JSON.stringify({
+            action: "started",
+            message: (previous ? "Notifier recording restarted" : "Notifier recording started") +
+              " for " + (TYPES ? TYPES.join(", ") : "all types")
+          });
+        }
+
+        if (!previous) {
+          return JSON.stringify({
+            action: "not_running",
+            message: 'Notifier recording not started. Use action="start" first.'
+          });
+        }
+
+        if (action === "get") {
+          // Get and clear buffer
+          const events = previous.events.splice(0);
+          const dropped = previous.dropped;
+          previous.dropped = 0;
+          return JSON.stringify({ action: "events", types: previous.types, events, dropped });
+        }
+
+        if (action === "wait") {
+          const EVENT = ${JSON.stringify((args.event as string | undefined) ?? null)};
+          const TYPE = ${JSON.stringify((args.type as string | undefined) ?? null)};
+          const ID = ${JSON.stringify(id ?? null)};
+          const match = (entry) =>
+            (!EVENT || entry.event === EVENT) &&
+            (!TYPE || entry.type === TYPE) &&
+            (ID === null || entry.ids.some((entryID) => String(entryID) === String(ID)));
+
+          // An event that arrived before the wait counts, so that triggering
+          // and then waiting cannot miss it; one an earlier wait returned does not
+          const started = Date.now();
+          let event = previous.events.find((entry) => entry.seq > previous.waitedSeq && match(entry)) || null;
+          const already = !!event;
+          if (!event) {
+            event = await new Promise((resolve) => {
+              const waiter = { match };
+              const timer = setTimeout(() => waiter.resolve(null), ${timeoutMs});
+              waiter.resolve = (value) => {
+                clearTimeout(timer);
+                previous.waiters.delete(waiter);
+                resolve(value);
+              };
+              previous.waiters.add(waiter);
+            });
+          }
+          if (event) previous.waitedSeq = event.seq;
+          return JSON.stringify({
+            action: "waited",
+            event,
+            already,
+            waitedMs: Date.now() - started,
+            unread: previous.events.length
+          });
+        }
+
+        Zotero.Notifier.unregisterObserver(previous.observerID);
+        previous.cancelWaits();
+        delete Zotero._mcpNotifier;
+        return JSON.stringify({
+          action: "stopped",
+          message: "Notifier recording stopped" +
+            (previous.events.length ? ", " + previous.events.length + " unread event(s) discarded" : "")
+        });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  let response;
+  try {
+    response = await client.evaluateJS(
+      code,
+      0,
+      action === "wait" ? { timeoutMs: timeoutMs + WAIT_REPLY_MARGIN_MS, signal } : {}
+    );
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      await cancelWaits(client);
+    }
+    throw error;
+  }
+
+  if (response.exception) {
+    throw new Error(`Notifier recording failed: ${response.exceptionMessage}`);
+  }
+
+  // Use async method to handle longString grips (many events, large extraData)
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Notifier recording failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as NotifierResult;
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  if (result.action === "waited") {
+    const wanted = [args.event, args.type, id !== undefined ? `id ${id}` : undefined].filter(Boolean).join(" ");
+    if (!result.event) {
+      return [
+        {
+          type: "text",
+          text:
+            `No ${wanted} event within ${timeoutMs}ms. ` +
+            "Check the recorded types, or use action='get' to see what did fire.",
+        },
+      ];
+    }
+    const unread = result.unread ? `\n\n${result.unread} event(s) unread; use action='get' to see them all.` : "";
+    return [
+      {
+        type: "text",
+        text:
+          `${result.already ? "Already recorded" : `Received after ${result.waitedMs}ms`}:\n` +
+          `${formatNotifierEvent(result.event)}${unread}`,
+      },
+    ];
+  }
+
+  if (result.action !== "events" || !result.events) {
+    return [{ type: "text", text: result.message || "Done" }];
+  }
+
+  const scope = result.types ? result.types.join(", ") : "all types";
+  if (result.events.length === 0) {
+    return [{ type: "text", text: `No notifier events (${scope}) since last check` }];
+  }
+
+  const lines = [`Recorded ${result.events.length} notifier event(s) (${scope}):`, ""];
+  if (result.dropped) {
+    lines.push(`(${result.dropped} older event(s) were dropped; get more often to keep them)`, "");
+  }
+  lines.push(...result.events.map(formatNotifierEvent));
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
+
+interface TriggerResult {
+  error?: string;
+  disabled: boolean;
+  observers: Array<{ id: string; ms: number; errors: string[] }>;
+  console: Array<{ message: string; source: string; line: number; warning: boolean }>;
+}
+
+function formatTriggerResult(summary: string, result: TriggerResult): string {
+  const lines = [summary];
+  if (result.disabled) {
+    lines.push("Zotero.Notifier is disabled (Zotero.Notifier.disable()), so no observer was called.");
+  }
+
+  if (result.observers.length === 0) {
+    lines.push("", "No observer received it: none is registered for this type.");
+  } else {
+    lines.push("", `Delivered to ${result.observers.length} observer(s), in order:`);
+    for (const observer of result.observers) {
+      const status = observer.errors.length ? "✗" : "✓";
+      lines.push(`  ${status} ${observer.id} (${observer.ms} ms)`);
+      for (const error of observer.errors) {
+        lines.push(`      ${error.split("\n").join("\n      ")}`);
+      }
+    }
+  }
+
+  if (result.console.length > 0) {
+    lines.push("", `Error console, since the event was fired (${result.console.length}):`);
+    for (const entry of result.console) {
+      const location = entry.source ? ` (${entry.source}:${entry.line})` : "";
+      lines.push(`  [${entry.warning ? "warning" : "error"}] ${entry.message}${location}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export async function handleTriggerNotifier(args: Record<string, unknown>): Promise<TextContent[]> {
+  const event = args.event as string | undefined;
+  const type = args.type as string | undefined;
+  const ids = (args.ids as Array<string | number> | undefined) ?? [];
+  const extraData = (args.extraData as Record<string, unknown> | undefined) ?? {};
+  const queue = Boolean(args.queue);
+  const settleMs = durationArg(args, "settleMs", 200);
+
+  if (!event || !type) {
+    throw new Error("Missing required parameters: event and type");
+  }
+  if (!Array.isArray(ids)) {
+    throw new Error("ids must be an array, e.g. [12] or ['zotero-pane']");
+  }
+
+  const client = await getRdpClient();
+
+  // Zotero.Notifier keeps its observers private, but announces each call on
+  // Zotero.debug and passes what they throw to Zotero.logError: both are
+  // wrapped while the event is delivered
+  const code = `
+    (async () => {
+      const EVENT = ${JSON.stringify(event)};
+      const TYPE = ${JSON.stringify(type)};
+      const IDS = ${JSON.stringify(ids)};
+      const EXTRA_DATA = ${JSON.stringify(extraData)};
+      const { debug, logError } = Zotero;
+      const observers = [];
+      let current = null;
+      const close = () => {
+        if (current) current.ms = Date.now() - current.started;
+      };
+
+      const disabled = typeof Zotero.Notifier.isEnabled === "function" && !Zotero.Notifier.isEnabled();
+      const started = Date.now();
+      try {
+        Zotero.debug = function (message, ...rest) {
+          const call = typeof message === "string" && /^Calling notify\\(\\) .*on observer with id '([^']+)'/.exec(message);
+          if (call) {
+            close();
+            current = { id: call[1], started: Date.now(), ms: 0, errors: [] };
+            observers.push(current);
+          }
+          return debug.call(this, message, ...rest);
+        };
+        Zotero.logError = function (error, ...rest) {
+          if (current) {
+            let text = error && error.message ? (error.name || "Error") + ": " + error.message : String(error);
+            const frame = error && typeof error.stack === "string" ? error.stack.split("\\n").find(Boolean) : null;
+            if (frame) text += "\\n  at " + frame;
+            current.errors.push(text);
+          }
+          return logError.call(this, error, ...rest);
+        };
+
+        if (${queue}) {
+          const queue = new Zotero.Notifier.Queue();
+          Zotero.Notifier.queue(EVENT, TYPE, IDS, EXTRA_DATA, queue);
+          await Zotero.Notifier.commit(queue);
+        } else {
+          await Zotero.Notifier.trigger(EVENT, TYPE, IDS, EXTRA_DATA);
+        }
+        close();
+      } catch (error) {
+        return JSON.stringify({ error: "Notifier rejected the event: " + (error.message || String(error)) });
+      } finally {
+        Zotero.debug = debug;
+        Zotero.logError = logError;
+      }
+
+      // Handlers that do not await their work report errors after this
+      if (${settleMs}) await new Promise((resolve) => setTimeout(resolve, ${settleMs}));
+
+      const consoleEntries = [];
+      for (const msg of Services.console.getMessageArray() || []) {
+        try {
+          if (!(msg instanceof Ci.nsIScriptError) || msg.timeStamp < started) continue;
+          consoleEntries.push({
+            message: String(msg.errorMessage || ""),
+            source: String(msg.sourceName || ""),
+            line: msg.lineNumber || 0,
+            warning: (msg.flags & Ci.nsIScriptError.warningFlag) !== 0
+          });
+        } catch (e) {
+          // Skip problematic messages
+        }
+      }
+
+      return JSON.stringify({
+        disabled,
+        observers: observers.map(({ id, ms, errors }) => ({ id, ms, errors })),
+        console: consoleEntries
+      });
+    })()
+  `;
+
+  const response = await client.evaluateJS(code, 0, { timeoutMs: settleMs + DELIVERY_TIMEOUT_MS });
+
+  if (response.exception) {
+    throw new Error(`Notifier trigger failed: ${response.exceptionMessage}`);
+  }
+
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Notifier trigger failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as TriggerResult;
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  const summary =
+    `${queue ? "Queued and committed" : "Triggered"} ${event}/${type} ${JSON.stringify(ids)}` +
+    (Object.keys(extraData).length ? ` with extraData ${JSON.stringify(extraData)}` : "");
+  return [{ type: "text", text: formatTriggerResult(summary, result) }];
+}
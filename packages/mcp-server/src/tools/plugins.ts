@@ -55,6 +55,48 @@ export const pluginInstallTool: Tool = {
   },
 };
 
+/**
+ * JS statements, run inside an async function with AddonManager imported, that
+ * set `addon` to the plugin with the given ID, or to the only development
+ * plugin when no ID is given. Otherwise they return an error JSON, listing the
+ * candidates when there are several development plugins.
+ */
+export function findPluginCode(pluginId?: string): string {
+  return `
+        const pluginId = ${JSON.stringify(pluginId || null)};
+        let addon;
+
+        if (pluginId) {
+          addon = await AddonManager.getAddonByID(pluginId);
+          if (!addon) {
+            return JSON.stringify({ error: \`Plugin not found: \${pluginId}\` });
+          }
+        } else {
+          // No specific plugin - try to find dev plugins
+          const addons = await AddonManager.getAllAddons();
+          const devAddons = addons.filter(a =>
+            a.temporarilyInstalled ||
+            a.installPath?.includes('build') ||
+            a.installPath?.includes('dist')
+          );
+
+          if (devAddons.length === 0) {
+            return JSON.stringify({ error: "No development plugins found. Specify a pluginId." });
+          }
+
+          if (devAddons.length > 1) {
+            // Multiple dev plugins - list them
+            return JSON.stringify({
+              error: "Multiple development plugins found. Please specify one:",
+              plugins: devAddons.map(a => ({ id: a.id, name: a.name }))
+            });
+          }
+
+          addon = devAddons[0];
+        }
+  `;
+}
+
 // Tool handlers
 export async function handlePluginReload(
   args: Record<string, unknown>
@@ -71,53 +113,16 @@ export async function handlePluginReload(
           "resource://gre/modules/AddonManager.sys.mjs"
         );
 
-        const pluginId = ${JSON.stringify(pluginId || null)};
-
-        if (pluginId) {
-          const addon = await AddonManager.getAddonByID(pluginId);
-          if (!addon) {
-            return JSON.stringify({ error: \`Plugin not found: \${pluginId}\` });
-          }
-
-          await addon.reload();
-          return JSON.stringify({
-            success: true,
-            plugin: {
-              id: addon.id,
-              name: addon.name,
-              version: addon.version
-            }
-          });
-        }
-
-        // No specific plugin - try to find dev plugins
-        const addons = await AddonManager.getAllAddons();
-        const devAddons = addons.filter(a =>
-          a.temporarilyInstalled ||
-          a.installPath?.includes('build') ||
-          a.installPath?.includes('dist')
-        );
-
-        if (devAddons.length === 0) {
-          return JSON.stringify({ error: "No development plugins found. Specify a pluginId." });
-        }
+        ${findPluginCode(pluginId)}
 
-        if (devAddons.length === 1) {
-          await devAddons[0].reload();
-          return JSON.stringify({
-            success: true,
-            plugin: {
-              id: devAddons[0].id,
-              name: devAddons[0].name,
-              version: devAddons[0].version
-            }
-          });
-        }
-
-        // Multiple dev plugins - list them
+        await addon.reload();
         return JSON.stringify({
-          error: "Multiple development plugins found. Please specify one:",
-          plugins: devAddons.map(a => ({ id: a.id, name: a.name }))
+          success: true,
+          plugin: {
+            id: addon.id,
+            name: addon.name,
+            version: addon.version
+          }
         });
       } catch (error) {
         return JSON.stringify({ error: error.message || String(error) });
@@ -0,0 +1,494 @@
+/**
+ * Preference Snapshot and Watch Tools
+ *
+ * Save every pref under a branch (or all prefs) to a JSON file, diff two
+ * snapshots or a snapshot against the live prefs, and restore a snapshot.
+ * zotero_get_pref/zotero_set_pref/zotero_search_prefs work on one pref at a
+ * time; snapshots answer "what did this settings pane or migration write?",
+ * and the watch answers "which code wrote it, and when?".
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { getRdpClient } from "../index.js";
+import type { RDPClient } from "../rdp/index.js";
+import { createStackMapper } from "../utils/sourcemap.js";
+
+// Default snapshot directory, relative to the project
+export const SNAPSHOT_DIR = ".zotero-prefs";
+
+export type PrefType = "string" | "int" | "bool";
+
+export interface PrefValue {
+  type: PrefType;
+  value: string | number | boolean;
+  // Set by the user (or a plugin) rather than a default
+  userSet: boolean;
+}
+
+export interface PrefSnapshot {
+  name: string;
+  // "" for all prefs
+  branch: string;
+  createdAt: string;
+  zoteroVersion?: string;
+  prefs: Record<string, PrefValue>;
+}
+
+export interface PrefDiff {
+  added: Array<{ key: string; to: PrefValue }>;
+  removed: Array<{ key: string; from: PrefValue }>;
+  changed: Array<{ key: string; from: PrefValue; to: PrefValue }>;
+}
+
+export const prefSnapshotTool: Tool = {
+  name: "zotero_pref_snapshot",
+  description:
+    "Snapshot, diff and restore preferences. " +
+    "action='save' writes every pref under a branch (e.g. 'extensions.myplugin.'), or all prefs, to a named JSON file; " +
+    "'diff' shows added, removed and changed prefs with their types between two snapshots, or between a snapshot and " +
+    "the current prefs; 'restore' sets the prefs of the branch back to a snapshot; 'list' shows saved snapshots. " +
+    "Typical use: save, change settings or run a migration, then diff to see exactly what was written.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["save", "diff", "restore", "list"],
+        description: "Action to perform",
+      },
+      name: {
+        type: "string",
+        description: "Snapshot name (save, restore), stored as <name>.json in the snapshot directory",
+      },
+      branch: {
+        type: "string",
+        description: "Pref branch to snapshot (save only, e.g. 'extensions.zotero.'; default: all prefs)",
+      },
+      from: {
+        type: "string",
+        description: "Snapshot to diff from (diff only)",
+      },
+      to: {
+        type: "string",
+        description: "Snapshot to diff to (diff only, default: the current prefs of the same branch)",
+      },
+      directory: {
+        type: "string",
+        description: `Snapshot directory (default: ${SNAPSHOT_DIR} in the current working directory)`,
+      },
+    },
+    required: ["action"],
+  },
+};
+
+export function diffPrefSnapshots(from: PrefSnapshot, to: PrefSnapshot): PrefDiff {
+  const diff: PrefDiff = { added: [], removed: [], changed: [] };
+  const keys = [...new Set([...Object.keys(from.prefs), ...Object.keys(to.prefs)])].sort();
+
+  for (const key of keys) {
+    const before = from.prefs[key];
+    const after = to.prefs[key];
+    if (!before) {
+      diff.added.push({ key, to: after });
+    } else if (!after) {
+      diff.removed.push({ key, from: before });
+    } else if (before.type !== after.type || before.value !== after.value || before.userSet !== after.userSet) {
+      diff.changed.push({ key, from: before, to: after });
+    }
+  }
+  return diff;
+}
+
+function formatValue(pref: PrefValue): string {
+  return `${JSON.stringify(pref.value)} (${pref.type}${pref.userSet ? "" : ", default"})`;
+}
+
+export function formatPrefDiff(diff: PrefDiff, fromLabel: string, toLabel: string): string {
+  const total = diff.added.length + diff.removed.length + diff.changed.length;
+  if (total === 0) {
+    return `No differences between ${fromLabel} and ${toLabel}.`;
+  }
+
+  const lines = [`${total} difference(s) from ${fromLabel} to ${toLabel}:`];
+  if (diff.added.length > 0) {
+    lines.push("", `Added (${diff.added.length}):`);
+    for (const { key, to } of diff.added) lines.push(`  + ${key} = ${formatValue(to)}`);
+  }
+  if (diff.removed.length > 0) {
+    lines.push("", `Removed (${diff.removed.length}):`);
+    for (const { key, from } of diff.removed) lines.push(`  - ${key} = ${formatValue(from)}`);
+  }
+  if (diff.changed.length > 0) {
+    lines.push("", `Changed (${diff.changed.length}):`);
+    for (const { key, from, to } of diff.changed) lines.push(`  ~ ${key}: ${formatValue(from)} → ${formatValue(to)}`);
+  }
+  return lines.join("\n");
+}
+
+function snapshotPath(directory: string, name: string): string {
+  if (!/^[\w.-]+$/.test(name) || name.startsWith(".")) {
+    throw new Error(`Invalid snapshot name: "${name}". Use letters, digits, '.', '_' and '-'.`);
+  }
+  return join(directory, `${name}.json`);
+}
+
+function readSnapshot(directory: string, name: string): PrefSnapshot {
+  const path = snapshotPath(directory, name);
+  if (!existsSync(path)) {
+    throw new Error(`No snapshot named "${name}" in ${directory}. Use action='list' to see the snapshots.`);
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as PrefSnapshot;
+}
+
+async function runPrefsCode<T>(client: RDPClient, label: string, statements: string): Promise<T> {
+  const code = `
+    (() => {
+      try {
+        const prefs = Services.prefs;
+        const TYPES = { [prefs.PREF_STRING]: "string", [prefs.PREF_INT]: "int", [prefs.PREF_BOOL]: "bool" };
+        const read = (key) => {
+          const type = TYPES[prefs.getPrefType(key)];
+          if (!type) return null;
+          const value =
+            type === "string" ? prefs.getStringPref(key) : type === "int" ? prefs.getIntPref(key) : prefs.getBoolPref(key);
+          return { type, value, userSet: prefs.prefHasUserValue(key) };
+        };
+        ${statements}
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`${label} failed: ${response.exceptionMessage}`);
+  }
+
+  // Use async method to handle longString grips (all prefs is a long string)
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error(`${label} failed: received undefined result from Zotero`);
+  }
+
+  const result = JSON.parse(String(jsonString)) as T & { error?: string };
+  if (result.error) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+async function takeSnapshot(client: RDPClient, name: string, branch: string): Promise<PrefSnapshot> {
+  const result = await runPrefsCode<{ prefs: Record<string, PrefValue>; zoteroVersion: string }>(
+    client,
+    "Pref snapshot",
+    `
+      const values = {};
+      for (const key of prefs.getChildList(${JSON.stringify(branch)}).sort()) {
+        const value = read(key);
+        if (value) values[key] = value;
+      }
+      return JSON.stringify({ prefs: values, zoteroVersion: Zotero.version });
+    `
+  );
+  return { name, branch, createdAt: new Date().toISOString(), zoteroVersion: result.zoteroVersion, prefs: result.prefs };
+}
+
+export async function handlePrefSnapshot(args: Record<string, unknown>): Promise<TextContent[]> {
+  const action = args.action as string;
+  const directory = resolve((args.directory as string | undefined) || SNAPSHOT_DIR);
+
+  if (!action || !["save", "diff", "restore", "list"].includes(action)) {
+    throw new Error("Invalid action. Use 'save', 'diff', 'restore' or 'list'");
+  }
+
+  if (action === "list") {
+    const files = existsSync(directory) ? readdirSync(directory).filter((file) => file.endsWith(".json")).sort() : [];
+    if (files.length === 0) {
+      return [{ type: "text", text: `No snapshots in ${directory}. Use action='save' name='<name>' to take one.` }];
+    }
+    const lines = [`${files.length} snapshot(s) in ${directory}:`, ""];
+    for (const file of files) {
+      try {
+        const snapshot = JSON.parse(readFileSync(join(directory, file), "utf8")) as PrefSnapshot;
+        const count = Object.keys(snapshot.prefs).length;
+        lines.push(`  ${snapshot.name}: ${snapshot.branch || "all prefs"}, ${count} pref(s), ${snapshot.createdAt}`);
+      } catch {
+        lines.push(`  ${file}: unreadable`);
+      }
+    }
+    return [{ type: "text", text: lines.join("\n") }];
+  }
+
+  if (action === "diff") {
+    const fromName = args.from as string | undefined;
+    const toName = args.to as string | undefined;
+    if (!fromName) {
+      throw new Error("Missing required parameter: from");
+    }
+    const from = readSnapshot(directory, fromName);
+    const to = toName
+      ? readSnapshot(directory, toName)
+      : await takeSnapshot(await getRdpClient(), "current", from.branch);
+    if (to.branch !== from.branch) {
+      throw new Error(
+        `Snapshots cover different branches ("${from.branch || "all prefs"}" and "${to.branch || "all prefs"}"). ` +
+          "Diff snapshots of the same branch."
+      );
+    }
+    const diff = diffPrefSnapshots(from, to);
+    return [{ type: "text", text: formatPrefDiff(diff, `"${from.name}"`, toName ? `"${to.name}"` : "the current prefs") }];
+  }
+
+  const name = args.name as string | undefined;
+  if (!name) {
+    throw new Error("Missing required parameter: name");
+  }
+
+  const client = await getRdpClient();
+
+  if (action === "save") {
+    const branch = (args.branch as string | undefined) ?? "";
+    const path = snapshotPath(directory, name);
+    const snapshot = await takeSnapshot(client, name, branch);
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path, JSON.stringify(snapshot, null, 2) + "\n", "utf8");
+    return [
+      {
+        type: "text",
+        text:
+          `Saved ${Object.keys(snapshot.prefs).length} pref(s) from ${branch || "all prefs"} to ${path}\n` +
+          `Next: zotero_pref_snapshot action='diff' from='${name}' after the change, to see what was written.`,
+      },
+    ];
+  }
+
+  // restore: make the branch match the snapshot. Prefs that were defaults
+  // and prefs the snapshot does not have lose their user value; a pref with
+  // no default disappears when its user value is cleared.
+  const snapshot = readSnapshot(directory, name);
+  const result = await runPrefsCode<{ set: number; reset: number; unchanged: number; failed: string[] }>(
+    client,
+    "Pref snapshot",
+    `
+      const SNAPSHOT = ${JSON.stringify(snapshot.prefs)};
+      const counts = { set: 0, reset: 0, unchanged: 0, failed: [] };
+      const keys = new Set([...prefs.getChildList(${JSON.stringify(snapshot.branch)}), ...Object.keys(SNAPSHOT)]);
+      for (const key of keys) {
+        try {
+          const want = SNAPSHOT[key];
+          const have = read(key);
+          if (have && want && have.type === want.type && have.value === want.value && have.userSet === want.userSet) {
+            counts.unchanged++;
+            continue;
+          }
+          if (!want || !want.userSet) {
+            if (prefs.prefHasUserValue(key)) {
+              prefs.clearUserPref(key);
+              counts.reset++;
+            } else {
+              counts.unchanged++;
+            }
+            continue;
+          }
+          if (have && have.type !== want.type) prefs.clearUserPref(key);
+          if (want.type === "string") prefs.setStringPref(key, want.value);
+          else if (want.type === "int") prefs.setIntPref(key, want.value);
+          else prefs.setBoolPref(key, want.value);
+          counts.set++;
+        } catch (e) {
+          counts.failed.push(key + ": " + (e.message || e));
+        }
+      }
+      return JSON.stringify(counts);
+    `
+  );
+
+  const lines = [
+    `Restored "${name}" (${snapshot.branch || "all prefs"}): ${result.set} set, ${result.reset} reset to default, ` +
+      `${result.unchanged} unchanged.`,
+  ];
+  if (result.failed.length > 0) {
+    lines.push("", `Failed (${result.failed.length}), usually locked prefs:`, ...result.failed.map((f) => `  ${f}`));
+  }
+  lines.push("", "Some prefs only take effect after a restart.");
+  return [{ type: "text", text: lines.join("\n") }];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tool: zotero_watch_prefs
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Changes kept in Zotero between reads; the oldest are dropped first
+const MAX_PREF_CHANGES = 1000;
+
+// Frames of the writer's stack kept per change
+const MAX_STACK_FRAMES = 15;
+
+export const watchPrefsTool: Tool = {
+  name: "zotero_watch_prefs",
+  description:
+    "Record preference changes as they happen, with the time, the old and new value, and the JavaScript stack of " +
+    "the code that wrote the pref. Use action='start' with a branch (e.g. 'extensions.zotero.export.') to begin, " +
+    "'get' to retrieve the changes recorded since the last get, and 'stop' to remove the observer. " +
+    "Use it to find out which code, Zotero or a plugin, changes a pref.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "get", "stop"],
+        description: "Action to perform",
+      },
+      branch: {
+        type: "string",
+        description:
+          "Pref branch to watch (start only, e.g. 'extensions.zotero.export.' or 'extensions.myplugin.*'; " +
+          "default: all prefs). Starting again replaces the branch.",
+      },
+    },
+    required: ["action"],
+  },
+};
+
+interface PrefChange {
+  time: string;
+  key: string;
+  from: { type: PrefType; value: string | number | boolean } | null;
+  to: { type: PrefType; value: string | number | boolean } | null;
+  userSet: boolean;
+  stack: string;
+}
+
+export function formatPrefChange(change: PrefChange, mapStack?: (stack: string) => string): string {
+  const describe = (value: PrefChange["from"]) =>
+    value ? `${JSON.stringify(value.value)} (${value.type})` : "(not set)";
+  const stack = change.stack ? (mapStack ? mapStack(change.stack) : change.stack) : "";
+  const writer = stack.split("\n")[0] || "no JavaScript on the stack (native code or a pref file)";
+
+  const lines = [
+    `[${change.time}] ${change.key}: ${describe(change.from)} → ${describe(change.to)}` +
+      (change.to && !change.userSet ? " (reset to default)" : ""),
+    `  by ${writer}`,
+  ];
+  for (const frame of stack.split("\n").slice(1)) {
+    lines.push(`     ${frame}`);
+  }
+  return lines.join("\n");
+}
+
+export async function handleWatchPrefs(args: Record<string, unknown>): Promise<TextContent[]> {
+  const action = args.action as string;
+  // "extensions.myplugin.*" and "extensions.myplugin." watch the same branch
+  const branch = ((args.branch as string | undefined) ?? "").replace(/\*$/, "");
+
+  if (!action || !["start", "get", "stop"].includes(action)) {
+    throw new Error("Invalid action. Use 'start', 'get', or 'stop'");
+  }
+
+  const client = await getRdpClient();
+
+  const result = await runPrefsCode<{
+    action: string;
+    message?: string;
+    branch?: string;
+    dropped?: number;
+    changes?: PrefChange[];
+  }>(
+    client,
+    "Watch prefs",
+    `
+      const action = ${JSON.stringify(action)};
+      const previous = Zotero._mcpPrefWatch;
+
+      if (action === "start") {
+        if (previous) prefs.removeObserver(previous.branch, previous.observer);
+
+        const BRANCH = ${JSON.stringify(branch)};
+        const state = { branch: BRANCH, changes: [], dropped: 0, values: new Map() };
+        for (const key of prefs.getChildList(BRANCH)) state.values.set(key, read(key));
+
+        state.observer = {
+          observe(subject, topic, key) {
+            if (topic !== "nsPref:changed") return;
+            // The observer runs synchronously inside the setter, so the stack
+            // above this frame is the writer's
+            const frames = [];
+            for (let frame = Components.stack.caller; frame && frames.length < ${MAX_STACK_FRAMES}; frame = frame.caller) {
+              if (!frame.filename) continue;
+              frames.push((frame.name || "") + "@" + frame.filename + ":" + frame.lineNumber + ":" + (frame.columnNumber || 0));
+            }
+            const now = read(key);
+            const from = state.values.get(key) || null;
+            state.values.set(key, now);
+            state.changes.push({
+              time: new Date().toISOString(),
+              key,
+              from: from && { type: from.type, value: from.value },
+              to: now && { type: now.type, value: now.value },
+              userSet: now ? now.userSet : false,
+              stack: frames.join("\\n")
+            });
+            if (state.changes.length > ${MAX_PREF_CHANGES}) {
+              state.changes.shift();
+              state.dropped++;
+            }
+          },
+          QueryInterface: ChromeUtils.generateQI(["nsIObserver"])
+        };
+        prefs.addObserver(BRANCH, state.observer);
+        Zotero._mcpPrefWatch = state;
+
+        return JSON.stringify({
+          action: "started",
+          message: (previous ? "Pref watching restarted" : "Pref watching started") +
+            " on " + (BRANCH || "all prefs") + " (" + state.values.size + " prefs)"
+        });
+      }
+
+      if (!previous) {
+        return JSON.stringify({ action: "not_running", message: 'Pref watching not started. Use action="start" first.' });
+      }
+
+      if (action === "get") {
+        // Get and clear buffer
+        const changes = previous.changes.splice(0);
+        const dropped = previous.dropped;
+        previous.dropped = 0;
+        return JSON.stringify({ action: "changes", branch: previous.branch, dropped, changes });
+      }
+
+      prefs.removeObserver(previous.branch, previous.observer);
+      delete Zotero._mcpPrefWatch;
+      return JSON.stringify({
+        action: "stopped",
+        message: "Pref watching stopped" +
+          (previous.changes.length ? ", " + previous.changes.length + " unread change(s) discarded" : "")
+      });
+    `
+  );
+
+  if (result.action !== "changes" || !result.changes) {
+    return [{ type: "text", text: result.message || "Done" }];
+  }
+
+  if (result.changes.length === 0) {
+    return [{ type: "text", text: `No pref changes under ${result.branch || "all prefs"} since last check` }];
+  }
+
+  // Frames in a built plugin point into bundled output; map them back to the
+  // sources when the working directory is the plugin project
+  const mapper = createStackMapper(process.cwd());
+  const mapStack = mapper ? (stack: string) => mapper.mapStack(stack).stack : undefined;
+
+  const lines = [`Recorded ${result.changes.length} pref change(s) under ${result.branch || "all prefs"}:`, ""];
+  if (result.dropped) {
+    lines.push(`(${result.dropped} older change(s) were dropped; get more often to keep them)`, "");
+  }
+  lines.push(result.changes.map((change) => formatPrefChange(change, mapStack)).join("\n\n"));
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
@@ -0,0 +1,387 @@
+/**
+ * Profiler Tools
+ *
+ * Record CPU profiles with the Gecko profiler (Services.profiler in the parent
+ * process) and summarize where plugin code spends its time
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import { createStackMapper, type StackMapper } from "../utils/sourcemap.js";
+
+// Collecting and writing a profile of a long session takes a while
+const PROFILE_STOP_TIMEOUT_MS = 60000;
+
+// Chrome packages of Zotero and Gecko themselves, not plugin code
+const CORE_CHROME_PACKAGES = ["zotero", "global", "browser", "devtools", "mozapps", "pdfjs"];
+
+// Buffer sizes in entries (8 bytes each): 64K up to 1 GiB
+const MIN_BUFFER_ENTRIES = 65536;
+const MAX_BUFFER_ENTRIES = 134217728;
+
+const MAX_FUNCTIONS_LISTED = 200;
+
+/**
+ * Read a positive integer argument, clamped to [min, max]. The value ends up
+ * in the evaluated code, so anything that is not an integer is rejected.
+ */
+function integerArg(args: Record<string, unknown>, name: string, fallback: number, min: number, max: number): number {
+  const value = args[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return Math.min(Math.max(value, min), max);
+}
+
+export const profileStartTool: Tool = {
+  name: "zotero_profile_start",
+  description:
+    "Start the Gecko profiler in Zotero to record a CPU profile. " +
+    "Reproduce the slow code path, then call zotero_profile_stop for a summary of the hottest plugin functions " +
+    "and a profile file for profiler.firefox.com.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      interval: {
+        type: "number",
+        description: "Sampling interval in milliseconds (default: 1)",
+        default: 1,
+      },
+      threads: {
+        type: "array",
+        items: { type: "string" },
+        description: "Threads to sample (default: ['GeckoMain'], where Zotero and plugin code run)",
+      },
+      bufferEntries: {
+        type: "number",
+        description:
+          "Profiler buffer size in entries (default: 16777216, between 65536 and 134217728). " +
+          "Older samples are dropped when it fills.",
+        default: 16777216,
+      },
+    },
+  },
+};
+
+export const profileStopTool: Tool = {
+  name: "zotero_profile_stop",
+  description:
+    "Stop the profiler started by zotero_profile_start, save the raw profile to disk and summarize the " +
+    "hottest functions in plugin code (chrome:// and jar: URLs). The saved file opens in " +
+    "https://profiler.firefox.com. Plugin locations are mapped back to the sources when the project's " +
+    "build/ (or dist/) directory contains source maps.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
+        type: "string",
+        description:
+          "Only count functions whose script URL contains this, e.g. 'chrome://myplugin/' " +
+          "(default: all chrome:// and jar: URLs except Zotero's and Firefox's own)",
+      },
+      limit: {
+        type: "number",
+        description: "Number of functions to list (default: 20, at most 200)",
+        default: 20,
+      },
+      outputPath: {
+        type: "string",
+        description:
+          "Where Zotero writes the profile JSON (default: zotero-profile-<time>.json in Zotero's temp directory)",
+      },
+      projectPath: {
+        type: "string",
+        description:
+          "Plugin project whose source maps resolve function locations (default: current working directory)",
+      },
+    },
+  },
+};
+
+export async function handleProfileStart(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const interval = args.interval ?? 1;
+  if (typeof interval !== "number" || !Number.isFinite(interval) || interval <= 0) {
+    throw new Error("interval must be a positive number of milliseconds");
+  }
+  const threads = (args.threads as string[] | undefined)?.length
+    ? (args.threads as string[])
+    : ["GeckoMain"];
+  const bufferEntries = integerArg(args, "bufferEntries", 16777216, MIN_BUFFER_ENTRIES, MAX_BUFFER_ENTRIES);
+
+  const client = await getRdpClient();
+
+  const code = `
+    (() => {
+      try {
+        const profiler = Services.profiler;
+        if (!profiler) {
+          return JSON.stringify({ error: "This Zotero build has no Gecko profiler (Services.profiler is missing)" });
+        }
+        if (profiler.IsActive()) {
+          return JSON.stringify({
+            error: "The profiler is already running. Call zotero_profile_stop first, then start again."
+          });
+        }
+        profiler.StartProfiler(
+          ${bufferEntries},
+          ${interval},
+          ["js", "cpu"],
+          ${JSON.stringify(threads)}
+        );
+        return JSON.stringify({ success: true, active: profiler.IsActive() });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`Failed to start profiler: ${response.exceptionMessage}`);
+  }
+
+  const result = JSON.parse(String(await client.gripToValueAsync(response.result))) as {
+    success?: boolean;
+    active?: boolean;
+    error?: string;
+  };
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  return [
+    {
+      type: "text",
+      text:
+        `Profiler started (interval ${interval}ms, threads: ${threads.join(", ")}).\n\n` +
+        "Next: reproduce the slow code path in Zotero, then call zotero_profile_stop.",
+    },
+  ];
+}
+
+interface ProfiledFunction {
+  location: string; // Gecko frame location, e.g. "render (chrome://myplugin/content/index.js:12:5)"
+  self: number; // samples where it was the innermost JS frame
+  total: number; // samples where it was anywhere on the stack
+}
+
+interface ProfileSummary {
+  path: string;
+  interval: number;
+  duration: number;
+  threads: string[];
+  samples: number;
+  matchedSamples: number;
+  functions: ProfiledFunction[];
+  error?: string;
+}
+
+export async function handleProfileStop(
+  args: Record<string, unknown>
+): Promise<TextContent[]> {
+  const url = args.url as string | undefined;
+  const limit = integerArg(args, "limit", 20, 1, MAX_FUNCTIONS_LISTED);
+  const outputPath = args.outputPath as string | undefined;
+  const projectPath = (args.projectPath as string | undefined) || process.cwd();
+
+  const client = await getRdpClient();
+
+  // The profile is written and aggregated inside Zotero: a profile runs to tens
+  // of megabytes, the summary to a few kilobytes
+  const code = `
+    (async () => {
+      try {
+        const profiler = Services.profiler;
+        if (!profiler || !profiler.IsActive()) {
+          return JSON.stringify({ error: "The profiler is not running. Call zotero_profile_start first." });
+        }
+
+        let profile;
+        try {
+          profiler.Pause();
+          profile = await profiler.getProfileDataAsync();
+        } finally {
+          profiler.StopProfiler();
+        }
+
+        const path = ${JSON.stringify(outputPath ?? null)} ||
+          PathUtils.join(PathUtils.tempDir, "zotero-profile-" + Date.now() + ".json");
+        await IOUtils.writeJSON(path, profile);
+
+        // Gecko format: subprocess profiles and threads may be serialized strings
+        const parse = (value) => typeof value === "string" ? JSON.parse(value) : value;
+        const threads = [];
+        const collect = (p) => {
+          p = parse(p);
+          for (const thread of p.threads || []) threads.push(parse(thread));
+          for (const sub of p.processes || []) collect(sub);
+        };
+        collect(profile);
+
+        const FILTER = ${JSON.stringify(url ?? null)};
+        const CORE = ${JSON.stringify(CORE_CHROME_PACKAGES)};
+        const urlOf = (location) => {
+          const match = /\\((\\S+):\\d+:\\d+\\)$/.exec(location) || /^(\\S+):\\d+:\\d+$/.exec(location);
+          return match ? match[1] : null;
+        };
+        const isPluginUrl = (u) => {
+          if (FILTER) return u.includes(FILTER);
+          if (u.startsWith("jar:")) return true;
+          const chrome = /^chrome:\\/\\/([^/]+)\\//.exec(u);
+          return !!chrome && !CORE.includes(chrome[1]);
+        };
+
+        const functions = new Map();
+        let samples = 0;
+        let matchedSamples = 0;
+        let firstTime = Infinity;
+        let lastTime = -Infinity;
+
+        for (const thread of threads) {
+          const { samples: sampleTable, stackTable, frameTable, stringTable } = thread;
+          if (!sampleTable || !stackTable || !frameTable || !stringTable) continue;
+          const iStack = sampleTable.schema.stack;
+          const iTime = sampleTable.schema.time;
+          const iPrefix = stackTable.schema.prefix;
+          const iFrame = stackTable.schema.frame;
+          const iLocation = frameTable.schema.location;
+
+          for (const sample of sampleTable.data) {
+            let stack = sample[iStack];
+            if (stack === null || stack === undefined) continue;
+            samples++;
+            firstTime = Math.min(firstTime, sample[iTime]);
+            lastTime = Math.max(lastTime, sample[iTime]);
+
+            const seen = new Set();
+            let sawJs = false;
+            while (stack !== null && stack !== undefined) {
+              const frame = stackTable.data[stack][iFrame];
+              const location = stringTable[frameTable.data[frame][iLocation]];
+              const frameUrl = urlOf(location);
+              if (frameUrl) {
+                if (isPluginUrl(frameUrl)) {
+                  let entry = functions.get(location);
+                  if (!entry) {
+                    entry = { location, self: 0, total: 0 };
+                    functions.set(location, entry);
+                  }
+                  if (!sawJs) entry.self++;
+                  if (!seen.has(location)) {
+                    entry.total++;
+                    seen.add(location);
+                  }
+                }
+                sawJs = true;
+              }
+              stack = stackTable.data[stack][iPrefix];
+            }
+            if (seen.size > 0) matchedSamples++;
+          }
+        }
+
+        const sorted = [...functions.values()]
+          .sort((a, b) => b.total - a.total || b.self - a.self)
+          .slice(0, ${limit});
+
+        return JSON.stringify({
+          path,
+          interval: profile.meta?.interval || null,
+          duration: samples > 0 ? lastTime - firstTime : 0,
+          threads: threads.map((t) => t.name),
+          samples,
+          matchedSamples,
+          functions: sorted
+        });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code, 0, { timeoutMs: PROFILE_STOP_TIMEOUT_MS });
+
+  if (response.exception) {
+    throw new Error(`Failed to stop profiler: ${response.exceptionMessage}`);
+  }
+
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Failed to stop profiler: received undefined result from Zotero");
+  }
+
+  const summary = JSON.parse(String(jsonString)) as ProfileSummary;
+
+  if (summary.error) {
+    throw new Error(summary.error);
+  }
+
+  return [{ type: "text", text: formatSummary(summary, url, createStackMapper(projectPath)) }];
+}
+
+function formatSummary(summary: ProfileSummary, url: string | undefined, mapper: StackMapper | null): string {
+  const interval = summary.interval || 1;
+  const percent = (count: number) =>
+    summary.samples > 0 ? `${((count / summary.samples) * 100).toFixed(1)}%` : "0%";
+  const scope = url ? `URLs containing ${url}` : "plugin code";
+
+  const lines = [
+    `Profile saved: ${summary.path}`,
+    "Open it at https://profiler.firefox.com (\"Load a profile from file\").",
+    "",
+    `Sampled ${(summary.duration / 1000).toFixed(1)}s every ${interval}ms on ${summary.threads.join(", ") || "no threads"}: ` +
+      `${summary.samples} samples, ${summary.matchedSamples} (${percent(summary.matchedSamples)}) in ${scope}`,
+  ];
+
+  if (summary.functions.length === 0) {
+    lines.push(
+      "",
+      `No samples in ${scope}. Check that the slow path ran while profiling, ` +
+        "or pass url to match the plugin's script URLs (see zotero_debugger_sources)."
+    );
+    return lines.join("\n");
+  }
+
+  lines.push("", "Hottest functions (total: on the stack, self: innermost JS frame):", "");
+  for (const fn of summary.functions) {
+    lines.push(
+      `  ${percent(fn.total).padStart(6)} total  ${percent(fn.self).padStart(6)} self  ` +
+        `~${Math.round(fn.total * interval)}ms  ${describeLocation(fn.location, mapper)}`
+    );
+  }
+
+  if (!mapper) {
+    lines.push("", "Locations are in the built files: no source maps found in the project's build/ or dist/.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * "name (url:line:column)", followed by the original source location when a
+ * source map covers it
+ */
+function describeLocation(location: string, mapper: StackMapper | null): string {
+  const match = /^(?:(.*) \()?(\S+):(\d+):(\d+)\)?$/.exec(location);
+  if (!match || !mapper) {
+    return location;
+  }
+
+  const [, name, url, line, column] = match;
+  const original = mapper.mapLocation(url, Number(line), Number(column));
+  if (!original) {
+    return location;
+  }
+
+  return (
+    `${original.name || name || "(anonymous)"} ${original.source}:${original.line}:${original.column}` +
+    `  [${url}:${line}:${column}]`
+  );
+}
@@ -0,0 +1,361 @@
+/**
+ * REPL Tools
+ *
+ * Named sessions whose bindings survive between calls, unlike
+ * zotero_execute_js where every call starts from scratch. Each session is a
+ * sandbox with the system principal whose global is the session scope; the
+ * chrome window's globals (Zotero, Services, ChromeUtils) show through it.
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import { RequestAbortedError, type RDPClient, type EvaluateJSResponse } from "../rdp/index.js";
+import { prepareReplInput } from "../utils/repl.js";
+import { describeEvaluationError, formatEvaluationResult, interruptRunaway } from "./execute.js";
+
+export const replTool: Tool = {
+  name: "zotero_repl",
+  description:
+    "Run JavaScript in a named REPL session that keeps its variables between calls, like the browser console: " +
+    "top-level let/const/var, functions and classes stay defined for later calls, and $_ holds the last result. " +
+    "The value of the last expression is returned (no 'return' needed) and top-level await works. " +
+    "Use action='list' to show sessions and their bindings, and 'reset' to discard one (session='*' for all). " +
+    "A session tied to a plugin (plugin argument) is discarded when that plugin is disabled, reinstalled or reloaded, " +
+    "since its bindings would point to the old plugin instance. Use zotero_execute_js for one-off snippets.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["eval", "list", "reset"],
+        description: "Action to perform (default: eval)",
+        default: "eval",
+      },
+      session: {
+        type: "string",
+        description: "Session name (default: 'default'); created on first use. With reset, '*' resets every session.",
+        default: "default",
+      },
+      code: {
+        type: "string",
+        description: "JavaScript to run in the session (eval only)",
+      },
+      plugin: {
+        type: "string",
+        description:
+          "Plugin ID the session works with (eval only, when the session is created). " +
+          "The session is discarded when this plugin is disabled, reinstalled or reloaded.",
+      },
+      timeoutMs: {
+        type: "number",
+        description:
+          "Stop waiting after this many milliseconds (default: the connection timeout, 30000) and end the code " +
+          "through the debugger",
+      },
+      depth: {
+        type: "number",
+        description: "How many levels of nested objects to expand in the result (default: 3)",
+        default: 3,
+      },
+      maxNodes: {
+        type: "number",
+        description: "Maximum number of properties, items and entries to fetch in total (default: 500)",
+        default: 500,
+      },
+    },
+  },
+};
+
+interface SessionInfo {
+  name: string;
+  plugin: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  calls: number;
+  bindings: Array<{ name: string; type: string }>;
+}
+
+interface ReplResult {
+  action?: string;
+  created?: boolean;
+  notice?: string | null;
+  sessions?: SessionInfo[];
+  reset?: string[];
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Statements run in the parent process to set up Zotero._mcpRepl. The state
+ * keeps the sessions, the sessions dropped since the last call (reported
+ * once) and the add-on listener that drops sessions of reloaded plugins.
+ */
+const SETUP_STATE = `
+  let state = Zotero._mcpRepl;
+  if (!state) {
+    state = { sessions: new Map(), dropped: new Map(), listener: null };
+
+    state.drop = (name, reason) => {
+      const session = state.sessions.get(name);
+      if (!session) return;
+      try { Cu.nukeSandbox(session.sandbox); } catch (e) {}
+      state.sessions.delete(name);
+      if (reason) state.dropped.set(name, reason);
+    };
+
+    const onPluginChange = (verb) => (addon) => {
+      for (const [name, session] of state.sessions) {
+        if (session.plugin === addon.id) {
+          state.drop(name, "plugin " + addon.id + " was " + verb);
+        }
+      }
+    };
+    state.listener = {
+      onDisabled: onPluginChange("disabled"),
+      onUninstalled: onPluginChange("uninstalled"),
+      onInstalled: onPluginChange("reinstalled")
+    };
+    const { AddonManager } = ChromeUtils.importESModule("resource://gre/modules/AddonManager.sys.mjs");
+    AddonManager.addAddonListener(state.listener);
+
+    // Run a prepared input: define it as an async function in the sandbox,
+    // then copy its top-level declarations onto the sandbox global when it
+    // completes. The input starts on the header's line, so line numbers in
+    // its stack traces are the input's own.
+    state.run = async (name, body, declared) => {
+      const session = state.sessions.get(name);
+      session.calls++;
+      session.lastUsedAt = new Date().toISOString();
+      const exporter = declared.length
+        ? "() => { const o = {}; " +
+          declared.map((n) => "try { o." + n + " = " + n + "; } catch (e) {}").join(" ") +
+          " return o; }"
+        : "() => ({})";
+      const source = "(async function (__mcpReplExport) { __mcpReplExport(" + exporter + "); " + body + "\\n})";
+      const fn = Cu.evalInSandbox(source, session.sandbox, null, "mcp-repl://" + name + "/" + session.calls, 1);
+
+      let exported = () => ({});
+      const value = await fn((collect) => { exported = collect; });
+      Object.assign(session.sandbox, exported());
+      session.sandbox.$_ = value;
+      return value;
+    };
+
+    Zotero._mcpRepl = state;
+  }
+`;
+
+// Reads the notice about sessions dropped since the last call
+const TAKE_NOTICE = `
+  const notice = state.dropped.size
+    ? [...state.dropped].map(([name, reason]) => 'Session "' + name + '" was discarded: ' + reason + ".").join("\\n")
+    : null;
+  state.dropped.clear();
+`;
+
+async function runInZotero(client: RDPClient, statements: string): Promise<ReplResult> {
+  const code = `
+    (async () => {
+      try {
+        ${SETUP_STATE}
+        ${statements}
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`REPL failed: ${response.exceptionMessage}`);
+  }
+
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("REPL failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as ReplResult;
+  if (result.error) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+export async function handleRepl(
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<TextContent[]> {
+  const action = (args.action as string | undefined) || "eval";
+  const session = (args.session as string | undefined) || "default";
+  const plugin = args.plugin as string | undefined;
+
+  if (!["eval", "list", "reset"].includes(action)) {
+    throw new Error("Invalid action. Use 'eval', 'list' or 'reset'");
+  }
+
+  const client = await getRdpClient();
+
+  if (action === "list") {
+    const result = await runInZotero(
+      client,
+      `
+        ${TAKE_NOTICE}
+        const describe = (value) => {
+          if (value === null) return "null";
+          if (typeof value !== "object" && typeof value !== "function") return typeof value;
+          try {
+            return value.constructor?.name || typeof value;
+          } catch (e) {
+            return typeof value;
+          }
+        };
+        const sessions = [...state.sessions].map(([name, session]) => ({
+          name,
+          plugin: session.plugin,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          calls: session.calls,
+          bindings: Object.getOwnPropertyNames(session.sandbox)
+            .filter((key) => !session.baseline.has(key))
+            .sort()
+            .map((key) => {
+              let type;
+              try { type = describe(session.sandbox[key]); } catch (e) { type = "unreadable"; }
+              return { name: key, type };
+            })
+        }));
+        return JSON.stringify({ action: "list", notice, sessions });
+      `
+    );
+    return [{ type: "text", text: formatSessions(result) }];
+  }
+
+  if (action === "reset") {
+    const result = await runInZotero(
+      client,
+      `
+        ${TAKE_NOTICE}
+        const NAME = ${JSON.stringify(session)};
+        const names = NAME === "*" ? [...state.sessions.keys()] : state.sessions.has(NAME) ? [NAME] : [];
+        for (const name of names) state.drop(name, null);
+        return JSON.stringify({ action: "reset", notice, reset: names });
+      `
+    );
+    const reset = result.reset ?? [];
+    const message =
+      reset.length > 0
+        ? `Reset ${reset.length} session(s): ${reset.join(", ")}`
+        : session === "*"
+          ? "No REPL sessions to reset."
+          : `No REPL session named "${session}". Use action='list' to see the sessions.`;
+    return [{ type: "text", text: withNotice(result.notice, message) }];
+  }
+
+  const code = args.code as string;
+  if (!code || typeof code !== "string") {
+    throw new Error("Missing required parameter: code");
+  }
+  if (session === "*") {
+    throw new Error("'*' is only valid with action='reset'. Name a session to run code in.");
+  }
+
+  // Create the session before running, so the code runs in a single evaluation
+  // that timeoutMs and cancellation can interrupt
+  const opened = await runInZotero(
+    client,
+    `
+      ${TAKE_NOTICE}
+      const NAME = ${JSON.stringify(session)};
+      let created = false;
+      if (!state.sessions.has(NAME)) {
+        const sandbox = Cu.Sandbox(Services.scriptSecurityManager.getSystemPrincipal(), {
+          sandboxName: "MCP REPL " + NAME,
+          sandboxPrototype: globalThis,
+          wantXrays: false
+        });
+        state.sessions.set(NAME, {
+          sandbox,
+          plugin: ${JSON.stringify(plugin ?? null)},
+          createdAt: new Date().toISOString(),
+          lastUsedAt: null,
+          calls: 0,
+          baseline: new Set(Object.getOwnPropertyNames(sandbox))
+        });
+        created = true;
+      }
+      return JSON.stringify({ action: "open", notice, created });
+    `
+  );
+
+  const prepared = prepareReplInput(code);
+  const timeoutMs = typeof args.timeoutMs === "number" && args.timeoutMs > 0 ? args.timeoutMs : undefined;
+  const run =
+    `Zotero._mcpRepl.run(${JSON.stringify(session)}, ${JSON.stringify(prepared.body)}, ` +
+    `${JSON.stringify(prepared.declared)})`;
+
+  let response: EvaluateJSResponse;
+  try {
+    response = await client.evaluateJS(run, 0, { timeoutMs, signal });
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      return interruptRunaway(client, error, timeoutMs);
+    }
+    throw error;
+  }
+
+  const header = `${opened.created ? "New session" : "Session"} "${session}"`;
+
+  if (response.exception || response.exceptionMessage) {
+    return [
+      {
+        type: "text",
+        text: withNotice(
+          opened.notice,
+          `${header} - error:\n\n${describeEvaluationError(response)}\n\n` +
+            "Bindings declared by this input were not kept; earlier bindings are unchanged."
+        ),
+      },
+    ];
+  }
+
+  const { text, truncationHint } = await formatEvaluationResult(client, response.result, args);
+
+  return [
+    {
+      type: "text",
+      text: withNotice(opened.notice, `${header}:\n${text}${truncationHint}`),
+    },
+  ];
+}
+
+function withNotice(notice: string | null | undefined, text: string): string {
+  return notice ? `${notice}\n\n${text}` : text;
+}
+
+function formatSessions(result: ReplResult): string {
+  const sessions = result.sessions ?? [];
+  if (sessions.length === 0) {
+    return withNotice(result.notice, "No REPL sessions. Run code with zotero_repl to create one.");
+  }
+
+  const lines = [`${sessions.length} REPL session(s):`];
+  for (const session of sessions) {
+    lines.push(
+      "",
+      `${session.name}${session.plugin ? ` [${session.plugin}]` : ""}`,
+      `  Created ${session.createdAt}, ${session.calls} call(s)` +
+        (session.lastUsedAt ? `, last used ${session.lastUsedAt}` : "")
+    );
+    if (session.bindings.length === 0) {
+      lines.push("  No bindings");
+    }
+    for (const binding of session.bindings) {
+      lines.push(`  ${binding.name}: ${binding.type}`);
+    }
+  }
+  lines.push("", "Next: zotero_repl action='reset' session=<name> to discard a session.");
+
+  return withNotice(result.notice, lines.join("\n"));
+}
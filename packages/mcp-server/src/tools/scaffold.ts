@@ -7,7 +7,8 @@
 import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
 import { spawn, type ChildProcess } from "node:child_process";
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { basename, join } from "node:path";
+import { findBuildDir } from "../utils/sourcemap.js";
 
 // Track running processes
 const runningProcesses: Map<string, ChildProcess> = new Map();
@@ -186,11 +187,8 @@ export async function handleScaffoldBuild(
   }
 
   // Check for build output
-  const buildDir = existsSync(join(projectPath, "build"))
-    ? "build"
-    : existsSync(join(projectPath, "dist"))
-      ? "dist"
-      : null;
+  const buildPath = findBuildDir(projectPath);
+  const buildDir = buildPath ? basename(buildPath) : null;
 
   return [
     {
@@ -11,14 +11,17 @@ export const screenshotTool: Tool = {
   name: "zotero_screenshot",
   description:
     "Capture a screenshot of Zotero. Can capture the main window, a specific window, " +
-    "or a specific element by CSS selector. Optionally highlight an element with a red border.",
+    "a specific element by CSS selector, or a frame such as an open reader or note editor. " +
+    "Optionally highlight an element with a red border.",
   inputSchema: {
     type: "object",
     properties: {
       target: {
         type: "string",
-        enum: ["main-window", "window", "element"],
-        description: "What to capture: main-window (default), specific window, or element",
+        description:
+          "What to capture: main-window (default), window, element, or a frame target from zotero_list_targets " +
+          "(its id, or a URL substring such as 'reader.html' or 'note-editor'). " +
+          "For a frame target, selector and highlightSelector apply inside the frame's document.",
         default: "main-window",
       },
       windowId: {
@@ -27,7 +30,8 @@ export const screenshotTool: Tool = {
       },
       selector: {
         type: "string",
-        description: "CSS selector for element to capture (required if target='element')",
+        description:
+          "CSS selector for element to capture (required if target='element'; optional for a frame target)",
       },
       highlightSelector: {
         type: "string",
@@ -48,6 +52,9 @@ export const screenshotTool: Tool = {
   },
 };
 
+// Capture modes; any other target value names a frame target
+const CAPTURE_MODES = ["main-window", "window", "element"];
+
 export async function handleScreenshot(
   args: Record<string, unknown>
 ): Promise<(TextContent | ImageContent)[]> {
@@ -64,10 +71,24 @@ export async function handleScreenshot(
 
   const client = await getRdpClient();
 
+  // Frames are captured from the parent process through their browsing context
+  let frame: { url: string; browsingContextID: number } | undefined;
+  if (!CAPTURE_MODES.includes(target)) {
+    const resolved = await client.resolveTarget(target);
+    if (resolved.kind !== "frame" || resolved.browsingContextID === undefined) {
+      throw new Error(
+        `Target ${resolved.id} is a process, not a frame, and cannot be captured. ` +
+          "Use a frame target from zotero_list_targets, or target='main-window'."
+      );
+    }
+    frame = { url: resolved.url, browsingContextID: resolved.browsingContextID };
+  }
+
   // Build the screenshot code
   const code = buildScreenshotCode({
     target,
     windowId,
+    browsingContextID: frame?.browsingContextID,
     selector,
     highlightSelector,
     format,
@@ -103,7 +124,7 @@ export async function handleScreenshot(
     throw new Error("No screenshot data returned");
   }
 
-  const description = buildDescription(target, windowId, selector, result);
+  const description = buildDescription(target, windowId, selector, result, frame?.url);
 
   return [
     {
@@ -121,6 +142,7 @@ export async function handleScreenshot(
 interface ScreenshotOptions {
   target: string;
   windowId?: number;
+  browsingContextID?: number;
   selector?: string;
   highlightSelector?: string;
   format: string;
@@ -128,7 +150,9 @@ interface ScreenshotOptions {
 }
 
 function buildScreenshotCode(options: ScreenshotOptions): string {
-  const { target, windowId, selector, highlightSelector, format, scale } = options;
+  const { target, windowId, browsingContextID, selector, highlightSelector, format, scale } = options;
+  const isFrame = browsingContextID !== undefined;
+  const captureElement = target === "element" || (isFrame && !!selector);
 
   // This code runs in Zotero's context
   return `
@@ -141,7 +165,18 @@ function buildScreenshotCode(options: ScreenshotOptions): string {
 
         // Get the target window
         ${
-          target === "window" && windowId
+          isFrame
+            ? `
+          // Window of a frame target (reader, note editor) in this process
+          const bc = BrowsingContext.get(${browsingContextID});
+          win = bc?.window;
+          if (!win || !win.document) {
+            return JSON.stringify({
+              error: "Frame ${browsingContextID} is closed or runs in another process"
+            });
+          }
+        `
+            : target === "window" && windowId
             ? `
           // Find window by outerWindowID
           const windows = Services.wm.getEnumerator(null);
@@ -167,7 +202,7 @@ function buildScreenshotCode(options: ScreenshotOptions): string {
 
         // Handle element targeting
         ${
-          target === "element" && selector
+          captureElement && selector
             ? `
           element = win.document.querySelector(${JSON.stringify(selector)});
           if (!element) {
@@ -194,7 +229,7 @@ function buildScreenshotCode(options: ScreenshotOptions): string {
         let x = 0, y = 0, width, height;
 
         ${
-          target === "element"
+          captureElement
             ? `
           const rect = element.getBoundingClientRect();
           x = rect.left;
@@ -209,7 +244,9 @@ function buildScreenshotCode(options: ScreenshotOptions): string {
         }
 
         // Create canvas and capture
-        const canvas = win.document.createElement('canvas');
+        // drawWindow needs a chrome canvas, which a frame's content document can't provide
+        const canvasDoc = ${isFrame ? "(Zotero.getMainWindow() || win).document" : "win.document"};
+        const canvas = canvasDoc.createElement('canvas');
         canvas.width = Math.ceil(width * ${scale});
         canvas.height = Math.ceil(height * ${scale});
 
@@ -249,11 +286,17 @@ function buildDescription(
   target: string,
   windowId: number | undefined,
   selector: string | undefined,
-  result: { width?: number; height?: number; windowTitle?: string }
+  result: { width?: number; height?: number; windowTitle?: string },
+  frameUrl?: string
 ): string {
   const parts: string[] = [];
 
-  if (target === "element" && selector) {
+  if (frameUrl) {
+    parts.push(`Frame: ${frameUrl}`);
+    if (selector) {
+      parts.push(`Element: ${selector}`);
+    }
+  } else if (target === "element" && selector) {
     parts.push(`Element: ${selector}`);
   } else if (target === "window" && windowId) {
     parts.push(`Window ID: ${windowId}`);
@@ -0,0 +1,314 @@
+/**
+ * Script Tools
+ *
+ * Run JavaScript and TypeScript files from the plugin project in Zotero, so
+ * diagnostic scripts can live under version control (scripts/zotero/ by
+ * convention) instead of being pasted into zotero_execute_js
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { createRequire } from "node:module";
+import { extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { getRdpClient } from "../index.js";
+import { RequestAbortedError, type EvaluateJSResponse } from "../rdp/index.js";
+import {
+  describeEvaluationError,
+  formatEvaluationResult,
+  interruptRunaway,
+  needsIIFEWrapper,
+  wrapInIIFE,
+} from "./execute.js";
+import { prepareReplInput } from "../utils/repl.js";
+
+// Where bare script names are looked up, relative to the project
+export const SCRIPTS_DIR = join("scripts", "zotero");
+
+const SCRIPT_EXTENSIONS = [".js", ".ts", ".mjs", ".mts", ".cjs", ".cts"];
+const TYPESCRIPT_EXTENSIONS = [".ts", ".mts", ".cts"];
+
+export const runScriptTool: Tool = {
+  name: "zotero_run_script",
+  description:
+    "Run a .js or .ts file from the plugin project in Zotero's privileged chrome context, with an `args` object " +
+    "in scope. TypeScript is transpiled with the project's esbuild or typescript. Like zotero_execute_js, a top-level " +
+    "'return' or 'await' works and returned objects are expanded into real structures. A bare name such as " +
+    `'check-items' is looked up in ${SCRIPTS_DIR.split(sep).join("/")}/. Omit path to list the scripts there. ` +
+    "Scripts run as plain code, not modules: use ChromeUtils.importESModule instead of import.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description:
+          "Script file, relative to the project (e.g. 'scripts/zotero/check-items.ts'), or a script name in " +
+          `${SCRIPTS_DIR.split(sep).join("/")}/ with or without extension. Omit to list the available scripts.`,
+      },
+      args: {
+        type: "object",
+        description: "JSON object available to the script as `args` (default: {})",
+      },
+      projectPath: {
+        type: "string",
+        description: "Path to plugin project (default: current working directory)",
+      },
+      timeoutMs: {
+        type: "number",
+        description:
+          "Stop waiting after this many milliseconds (default: the connection timeout, 30000) and end the script " +
+          "through the debugger",
+      },
+      depth: {
+        type: "number",
+        description: "How many levels of nested objects to expand in the result (default: 3)",
+        default: 3,
+      },
+      maxNodes: {
+        type: "number",
+        description: "Maximum number of properties, items and entries to fetch in total (default: 500)",
+        default: 500,
+      },
+    },
+  },
+};
+
+export interface LoadedScript {
+  path: string;
+  // Path relative to the project, as shown in results
+  name: string;
+  code: string;
+  // "esbuild" or "typescript" for TypeScript files, null for JavaScript
+  transpiler: string | null;
+}
+
+interface EsbuildModule {
+  transformSync(source: string, options: Record<string, unknown>): { code: string };
+}
+
+interface TypeScriptModule {
+  transpileModule(
+    source: string,
+    options: { compilerOptions: Record<string, unknown>; fileName: string; reportDiagnostics?: boolean }
+  ): { outputText: string };
+  ScriptTarget: Record<string, number>;
+}
+
+/**
+ * Find a script: a path relative to the project, or a bare name in
+ * scripts/zotero/ with or without its extension. Scripts must be inside the
+ * project.
+ */
+export function resolveScriptPath(path: string, projectPath: string): string {
+  const root = resolve(projectPath);
+  const candidates = [resolve(root, path)];
+  if (!isAbsolute(path)) {
+    candidates.push(resolve(root, SCRIPTS_DIR, path));
+  }
+  if (!extname(path)) {
+    for (const base of [...candidates]) {
+      candidates.push(...SCRIPT_EXTENSIONS.map((ext) => base + ext));
+    }
+  }
+
+  const found = candidates.find((candidate) => existsSync(candidate) && statSync(candidate).isFile());
+  if (!found) {
+    throw new Error(
+      `Script not found: ${path} (looked in ${root} and ${join(root, SCRIPTS_DIR)}). ` +
+        "Next: call zotero_run_script without path to list the scripts."
+    );
+  }
+
+  const inside = relative(root, found);
+  if (inside.startsWith("..") || isAbsolute(inside)) {
+    throw new Error(`Script ${found} is outside the project ${root}`);
+  }
+  if (!SCRIPT_EXTENSIONS.includes(extname(found))) {
+    throw new Error(`Not a script: ${found}. Use a ${SCRIPT_EXTENSIONS.join("/")} file.`);
+  }
+  return found;
+}
+
+/**
+ * Load a compiler from the project first, then from this server's own
+ * dependencies
+ */
+function loadCompiler<T>(name: string, projectPath: string): T | null {
+  for (const from of [join(resolve(projectPath), "package.json"), __filename]) {
+    try {
+      return createRequire(from)(name) as T;
+    } catch {
+      // Not installed there
+    }
+  }
+  return null;
+}
+
+export function transpileTypeScript(
+  source: string,
+  fileName: string,
+  projectPath: string
+): { code: string; transpiler: string } {
+  const esbuild = loadCompiler<EsbuildModule>("esbuild", projectPath);
+  if (esbuild) {
+    try {
+      const { code } = esbuild.transformSync(source, { loader: "ts", target: "es2022", sourcefile: fileName });
+      return { code, transpiler: "esbuild" };
+    } catch (error) {
+      throw new Error(`Failed to transpile ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const typescript = loadCompiler<TypeScriptModule>("typescript", projectPath);
+  if (typescript) {
+    const { outputText } = typescript.transpileModule(source, {
+      compilerOptions: { target: typescript.ScriptTarget.ES2022, removeComments: false },
+      fileName,
+    });
+    return { code: outputText, transpiler: "typescript" };
+  }
+
+  throw new Error(
+    `Cannot transpile ${fileName}: neither esbuild nor typescript is installed in ${projectPath}. ` +
+      "Install one of them in the project, or write the script in JavaScript."
+  );
+}
+
+export function loadScript(path: string, projectPath: string): LoadedScript {
+  const file = resolveScriptPath(path, projectPath);
+  const name = relative(resolve(projectPath), file).split(sep).join("/");
+  const source = readFileSync(file, "utf8");
+
+  let code = source;
+  let transpiler: string | null = null;
+  if (TYPESCRIPT_EXTENSIONS.includes(extname(file))) {
+    ({ code, transpiler } = transpileTypeScript(source, name, projectPath));
+    // Left behind when only types were imported
+    code = code.replace(/^export\s*\{\s*\};?\s*$/m, "");
+  }
+
+  const moduleSyntax = /^\s*(?:import\s*[\w{*"']|export\s)/m.exec(code);
+  if (moduleSyntax) {
+    throw new Error(
+      `${name} uses module syntax (${moduleSyntax[0].trim()}…), but scripts run as plain code in Zotero. ` +
+        'Load modules with ChromeUtils.importESModule("resource://...") and return values instead of exporting them.'
+    );
+  }
+
+  return { path: file, name, code, transpiler };
+}
+
+/**
+ * The code to evaluate: the script in a block that declares `args`, wrapped
+ * in an IIFE when it returns at top level. A script that awaits runs as the
+ * body of an async IIFE that returns its last expression, since the console
+ * only takes `await` inside async functions. The block keeps `args` out of
+ * the console's global scope and passes the script's completion value through.
+ */
+export function buildScriptCode(code: string, args: Record<string, unknown>): string {
+  let body = code;
+  if (/\bawait\b/.test(code)) {
+    body = `(async () => {\n${prepareReplInput(code).body}\n})()`;
+  } else if (needsIIFEWrapper(code)) {
+    body = wrapInIIFE(code);
+  }
+  return `{ const args = ${JSON.stringify(args)}; ${body}\n}`;
+}
+
+export function listScripts(projectPath: string): string[] {
+  const dir = join(resolve(projectPath), SCRIPTS_DIR);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const found: string[] = [];
+  const walk = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const full = join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (SCRIPT_EXTENSIONS.includes(extname(entry.name)) && !entry.name.endsWith(".d.ts")) {
+        found.push(relative(dir, full).split(sep).join("/"));
+      }
+    }
+  };
+  walk(dir);
+  return found.sort();
+}
+
+export async function handleRunScript(
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<TextContent[]> {
+  const projectPath = (args.projectPath as string | undefined) || process.cwd();
+  const path = args.path as string | undefined;
+  const scriptArgs = args.args ?? {};
+
+  if (!path) {
+    const scripts = listScripts(projectPath);
+    const dir = SCRIPTS_DIR.split(sep).join("/");
+    if (scripts.length === 0) {
+      return [
+        {
+          type: "text",
+          text:
+            `No scripts in ${join(resolve(projectPath), SCRIPTS_DIR)}. ` +
+            `Add .js or .ts files to ${dir}/ and run them with zotero_run_script path='<name>'.`,
+        },
+      ];
+    }
+    return [
+      {
+        type: "text",
+        text:
+          `${scripts.length} script(s) in ${dir}/:\n\n` +
+          scripts.map((script) => `  ${script}`).join("\n") +
+          "\n\nNext: zotero_run_script path='<name>' args={...}",
+      },
+    ];
+  }
+
+  if (typeof scriptArgs !== "object" || scriptArgs === null || Array.isArray(scriptArgs)) {
+    throw new Error("args must be a JSON object");
+  }
+
+  const script = loadScript(path, projectPath);
+  const code = buildScriptCode(script.code, scriptArgs as Record<string, unknown>);
+  const timeoutMs = typeof args.timeoutMs === "number" && args.timeoutMs > 0 ? args.timeoutMs : undefined;
+
+  const client = await getRdpClient();
+  const started = Date.now();
+
+  let response: EvaluateJSResponse;
+  try {
+    response = await client.evaluateJS(code, 0, { timeoutMs, signal });
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      return interruptRunaway(client, error, timeoutMs);
+    }
+    throw error;
+  }
+
+  const header =
+    `Script: ${script.name}` +
+    (script.transpiler ? ` (transpiled with ${script.transpiler})` : "") +
+    `\nArgs: ${JSON.stringify(scriptArgs)}` +
+    `\nDuration: ${Date.now() - started} ms`;
+
+  if (response.exception || response.exceptionMessage) {
+    return [
+      {
+        type: "text",
+        text: `${header}\nStatus: failed\n\n${describeEvaluationError(response, undefined, projectPath)}`,
+      },
+    ];
+  }
+
+  const { text, truncationHint } = await formatEvaluationResult(client, response.result, args);
+
+  return [
+    {
+      type: "text",
+      text: `${header}\nStatus: ok\n\nResult:\n${text}${truncationHint}`,
+    },
+  ];
+}
@@ -0,0 +1,368 @@
+/**
+ * Zotero Source Tools
+ *
+ * Read the JavaScript Zotero actually runs: the source of a function by
+ * object path, a file by chrome:// or resource:// URL, and matches of a
+ * pattern across the loaded scripts. zotero_inspect_object shows what an API
+ * looks like; these show what it does.
+ *
+ * A function's script URL and first line come from its RDP grip (the
+ * console's "jump to definition"), its text from Function.prototype.toString.
+ * Files are read inside Zotero, so jar: and chrome:// URLs resolve the same
+ * way they do for Zotero itself.
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import type { GripObject, RDPClient } from "../rdp/index.js";
+import { isValidObjectPath } from "./execute.js";
+
+// Lines returned for a file when no range is given
+const DEFAULT_MAX_LINES = 400;
+
+// Match lines are cut to this length, so minified scripts stay readable
+const MAX_MATCH_LENGTH = 200;
+
+const SOURCE_URL = /^(?:chrome|resource):\/\/|^jar:/;
+
+// Scripts searched when no url filter is given: Zotero's own
+const ZOTERO_SOURCE_PREFIXES = ["chrome://zotero/", "resource://zotero/"];
+
+interface SourceMatch {
+  url: string;
+  line: number;
+  text: string;
+}
+
+// Tool definitions
+export const getSourceTool: Tool = {
+  name: "zotero_get_source",
+  description:
+    "Read Zotero's JavaScript source. With 'path', returns the source of a function (e.g. " +
+    "'Zotero.ItemTreeManager.registerColumn') with its script URL and line numbers. With 'url', reads a file " +
+    "such as chrome://zotero/content/xpcom/itemTreeManager.js or resource://zotero/... " +
+    "Use it to check how an API behaves instead of guessing from its name.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "Object path of a function (e.g. 'Zotero.Items.getAsync', 'Zotero.Item.prototype.setField')",
+      },
+      url: {
+        type: "string",
+        description: "chrome://, resource:// or jar: URL of a file to read",
+      },
+      startLine: {
+        type: "number",
+        description: "With 'url', first line to return (1-based, default: 1)",
+      },
+      endLine: {
+        type: "number",
+        description: `With 'url', last line to return (default: startLine + ${DEFAULT_MAX_LINES - 1})`,
+      },
+    },
+  },
+};
+
+export const searchSourceTool: Tool = {
+  name: "zotero_search_source",
+  description:
+    "Search the scripts loaded in Zotero for a string or /regex/ and return each match with its file and line. " +
+    "Searches Zotero's own chrome://zotero/ and resource://zotero/ scripts unless 'url' narrows or widens the set. " +
+    "Follow up with zotero_get_source url= and startLine to read around a match.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      pattern: {
+        type: "string",
+        description: "Text to find (case-sensitive), or a /regex/flags such as '/registerColumn\\s*\\(/'",
+      },
+      url: {
+        type: "string",
+        description:
+          "Only search loaded scripts whose URL contains this text (case-insensitive), e.g. 'xpcom/data' or " +
+          "'chrome://myplugin'. Default: Zotero's own scripts",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of matches to return (default: 50, max: 500)",
+        default: 50,
+      },
+    },
+    required: ["pattern"],
+  },
+};
+
+function numberLines(lines: string[], first: number): string {
+  const width = String(first + lines.length - 1).length;
+  return lines.map((line, i) => `${String(first + i).padStart(width)}  ${line}`).join("\n");
+}
+
+/**
+ * The file behind a script URL. Sources evaluated by another script are
+ * reported as "<loader> -> <file>".
+ */
+function scriptFileUrl(url: string): string {
+  const parts = url.split(" -> ");
+  return parts[parts.length - 1];
+}
+
+/**
+ * The loaded script files to search, sorted and without duplicates
+ */
+function selectSearchUrls(urls: string[], filter?: string): string[] {
+  const needle = filter?.toLowerCase();
+  const files = new Set(urls.map(scriptFileUrl).filter((url) => SOURCE_URL.test(url)));
+  return [...files]
+    .filter((url) =>
+      needle ? url.toLowerCase().includes(needle) : ZOTERO_SOURCE_PREFIXES.some((prefix) => url.startsWith(prefix))
+    )
+    .sort();
+}
+
+async function runSourceCode<T>(client: RDPClient, label: string, code: string): Promise<T> {
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`${label} failed: ${response.exceptionMessage}`);
+  }
+
+  // Whole files come back as long strings
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error(`${label} failed: received undefined result from Zotero`);
+  }
+
+  const result = JSON.parse(String(jsonString)) as T & { error?: string };
+  if (result.error) {
+    throw new Error(result.error);
+  }
+  return result;
+}
+
+async function getFunctionSource(client: RDPClient, path: string): Promise<string> {
+  const result = await runSourceCode<{ source: string }>(
+    client,
+    "Reading function source",
+    `
+    (() => {
+      try {
+        const path = ${JSON.stringify(path)};
+        let obj = globalThis;
+        for (const part of path.split(".")) {
+          if (obj === undefined || obj === null) {
+            return JSON.stringify({ error: "Cannot access '" + part + "' - parent is " + obj });
+          }
+          obj = obj[part];
+        }
+        if (typeof obj !== "function") {
+          return JSON.stringify({
+            error: "'" + path + "' is " + (obj === null ? "null" : typeof obj) + ", not a function. " +
+              "Use zotero_inspect_object to list its members."
+          });
+        }
+        return JSON.stringify({ source: Function.prototype.toString.call(obj) });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `
+  );
+
+  if (/\{\s*\[native code\]\s*\}\s*$/.test(result.source)) {
+    return `${path} is native or bound, so there is no JavaScript source to show:\n\n${result.source}`;
+  }
+
+  // Evaluating the path itself yields the function's grip, which carries its location
+  const response = await client.evaluateJS(path);
+  const location = response.exception ? undefined : (response.result as GripObject | undefined)?.location;
+  const lines = result.source.split(/\r?\n/);
+
+  if (!location) {
+    return `${path} (script location unknown)\n\n${numberLines(lines, 1)}`;
+  }
+
+  const url = scriptFileUrl(location.url);
+  return [
+    path,
+    `${url}:${location.line}`,
+    "",
+    numberLines(lines, location.line),
+    "",
+    `Next: zotero_get_source with url='${url}' and startLine for the surrounding code, ` +
+      `or zotero_search_source to find its callers.`,
+  ].join("\n");
+}
+
+async function getFileSource(client: RDPClient, url: string, startLine?: number, endLine?: number): Promise<string> {
+  if (!SOURCE_URL.test(url)) {
+    throw new Error(`Unsupported URL: "${url}". Use a chrome://, resource:// or jar: URL.`);
+  }
+
+  const { text } = await runSourceCode<{ text: string }>(
+    client,
+    "Reading source file",
+    `
+    (async () => {
+      const url = ${JSON.stringify(url)};
+      try {
+        return JSON.stringify({ text: await Zotero.File.getContentsFromURLAsync(url) });
+      } catch (error) {
+        return JSON.stringify({ error: "Cannot read " + url + ": " + (error.message || String(error)) });
+      }
+    })()
+  `
+  );
+
+  const lines = text.split(/\r?\n/);
+  const first = Math.max(Math.floor(startLine ?? 1), 1);
+  if (first > lines.length) {
+    throw new Error(`${url} has ${lines.length} lines; startLine ${first} is past the end`);
+  }
+  const last = Math.min(Math.floor(endLine ?? first + DEFAULT_MAX_LINES - 1), lines.length);
+  if (last < first) {
+    throw new Error(`endLine (${last}) is before startLine (${first})`);
+  }
+
+  const out = [`${url} (lines ${first}-${last} of ${lines.length})`, "", numberLines(lines.slice(first - 1, last), first)];
+  if (last < lines.length && endLine === undefined) {
+    out.push("", `Next: startLine=${last + 1} for more.`);
+  }
+  return out.join("\n");
+}
+
+// Tool handlers
+export async function handleGetSource(args: Record<string, unknown>): Promise<TextContent[]> {
+  const path = args.path as string | undefined;
+  const url = args.url as string | undefined;
+
+  if (!path === !url) {
+    throw new Error("Pass either 'path' (a function) or 'url' (a file)");
+  }
+  if (path && !isValidObjectPath(path)) {
+    throw new Error(`Invalid object path: "${path}". Path must be a valid property chain (e.g., 'Zotero.Items.getAsync').`);
+  }
+
+  const client = await getRdpClient();
+  const text = path
+    ? await getFunctionSource(client, path)
+    : await getFileSource(client, url!, args.startLine as number | undefined, args.endLine as number | undefined);
+
+  return [{ type: "text", text }];
+}
+
+export async function handleSearchSource(args: Record<string, unknown>): Promise<TextContent[]> {
+  const pattern = args.pattern as string | undefined;
+  const filter = args.url as string | undefined;
+  const limit = Math.min(Math.max(Math.floor((args.limit as number) || 50), 1), 500);
+
+  if (!pattern) {
+    throw new Error("Missing required parameter: pattern");
+  }
+  const regex = /^\/(.*)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    // Fail here rather than inside Zotero, with the pattern in the message
+    try {
+      new RegExp(regex[1], regex[2]);
+    } catch {
+      throw new Error(`Invalid regular expression: ${pattern}`);
+    }
+  }
+
+  const client = await getRdpClient();
+  const urls = selectSearchUrls(
+    (await client.listSources()).map((source) => source.url).filter((url): url is string => !!url),
+    filter
+  );
+  if (urls.length === 0) {
+    throw new Error(
+      filter
+        ? `No loaded scripts match "${filter}". Use zotero_debugger_sources to list them.`
+        : "No Zotero scripts reported by the thread actor"
+    );
+  }
+
+  const result = await runSourceCode<{ matches: SourceMatch[]; searched: number; failed: string[]; truncated: boolean }>(
+    client,
+    "Searching source",
+    `
+    (async () => {
+      try {
+        const URLS = ${JSON.stringify(urls)};
+        const PATTERN = ${JSON.stringify(pattern)};
+        const LIMIT = ${limit};
+        const regex = /^\\/(.*)\\/([a-z]*)$/.exec(PATTERN);
+        const re = regex ? new RegExp(regex[1], regex[2].replace(/[gy]/g, "")) : null;
+        const test = re ? (line) => re.test(line) : (line) => line.includes(PATTERN);
+
+        const matches = [];
+        const failed = [];
+        let searched = 0;
+        let truncated = false;
+        // A few reads in flight at a time; results are scanned in URL order
+        for (let i = 0; i < URLS.length && !truncated; i += 8) {
+          const batch = URLS.slice(i, i + 8);
+          const texts = await Promise.all(
+            batch.map((url) => Zotero.File.getContentsFromURLAsync(url).catch(() => null))
+          );
+          for (let j = 0; j < batch.length && !truncated; j++) {
+            if (texts[j] === null) {
+              failed.push(batch[j]);
+              continue;
+            }
+            searched++;
+            const lines = texts[j].split(/\\r?\\n/);
+            for (let n = 0; n < lines.length; n++) {
+              if (!test(lines[n])) continue;
+              if (matches.length === LIMIT) {
+                truncated = true;
+                break;
+              }
+              matches.push({ url: batch[j], line: n + 1, text: lines[n].trim().slice(0, ${MAX_MATCH_LENGTH}) });
+            }
+          }
+        }
+        return JSON.stringify({ matches, searched, failed, truncated });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `
+  );
+
+  return [{ type: "text", text: formatSearchResult(pattern, urls.length, result) }];
+}
+
+function formatSearchResult(
+  pattern: string,
+  total: number,
+  result: { matches: SourceMatch[]; searched: number; failed: string[]; truncated: boolean }
+): string {
+  const lines: string[] = [];
+  if (result.matches.length === 0) {
+    lines.push(`No matches for "${pattern}" in ${result.searched} script(s).`);
+  } else {
+    const files = new Set(result.matches.map((match) => match.url));
+    lines.push(
+      `Found ${result.matches.length}${result.truncated ? "+" : ""} match(es) for "${pattern}" in ` +
+        `${files.size} of ${result.searched} script(s):`
+    );
+    let current: string | null = null;
+    for (const match of result.matches) {
+      if (match.url !== current) {
+        current = match.url;
+        lines.push("", current);
+      }
+      lines.push(`  ${match.line}: ${match.text}`);
+    }
+  }
+
+  if (result.truncated) {
+    lines.push("", "Stopped at the match limit; raise 'limit' or narrow 'url' to see the rest.");
+  }
+  if (result.failed.length > 0) {
+    lines.push("", `Could not read ${result.failed.length} of ${total} script(s): ${result.failed.slice(0, 5).join(", ")}`);
+  }
+  return lines.join("\n");
+}
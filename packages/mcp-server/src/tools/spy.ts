@@ -0,0 +1,432 @@
+/**
+ * Function Spy Tool
+ *
+ * Wrap functions in Zotero, by path or every method of a namespace, and
+ * record each call: arguments, the return value or what it threw or
+ * rejected with, the duration (until the promise settles for async
+ * functions) and the caller's stack. Follows zotero_watch_logs: start, get
+ * what was recorded since the last get, stop.
+ *
+ * State lives on Zotero._mcpSpy, so it survives reconnects. Calls are
+ * recorded as serialized copies rather than references, so spying on a
+ * plugin does not keep its objects alive after it reloads. Stopping only
+ * puts an original back where the wrapper is still installed: a plugin that
+ * reloaded and replaced the function keeps its new one.
+ */
+
+import type { Tool, TextContent } from "@modelcontextprotocol/sdk/types.js";
+import { getRdpClient } from "../index.js";
+import { createStackMapper } from "../utils/sourcemap.js";
+import { isValidObjectPath } from "./execute.js";
+
+// Calls kept in Zotero between reads; the oldest are dropped first
+const MAX_SPY_CALLS = 1000;
+
+// Functions wrapped for one namespace path, so `Zotero` cannot wrap everything
+const MAX_NAMESPACE_FUNCTIONS = 200;
+
+// Frames of the caller's stack kept per call
+const MAX_STACK_FRAMES = 10;
+
+export const spyTool: Tool = {
+  name: "zotero_spy",
+  description:
+    "Spy on Zotero functions to see which ones run during a UI action and how. action='start' wraps the " +
+    "functions in 'targets': a function path (e.g. 'ZoteroPane.selectItem', 'Zotero.Item.prototype.saveTx') or a " +
+    "namespace (e.g. 'Zotero.Notifier'), whose methods are all wrapped. Each call is recorded with its arguments, " +
+    "return value or error, duration (async calls until they settle) and caller stack. 'get' returns the calls " +
+    "since the last get, 'stop' unwraps (all, or only 'targets').",
+  inputSchema: {
+    type: "object",
+    properties: {
+      action: {
+        type: "string",
+        enum: ["start", "get", "stop"],
+        description: "Action to perform",
+      },
+      targets: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Function or namespace paths (start: required, added to those already spied; stop: optional, default all)",
+      },
+    },
+    required: ["action"],
+  },
+};
+
+interface SpyCall {
+  seq: number;
+  time: string;
+  target: string;
+  args: string[];
+  outcome: "returned" | "threw" | "resolved" | "rejected";
+  value: string;
+  durationMs: number;
+  stack: string;
+}
+
+interface SpyResult {
+  error?: string;
+  action: string;
+  message?: string;
+  calls?: SpyCall[];
+  dropped?: number;
+  pending?: number;
+  spied?: string[];
+  // Wrappers no longer installed, e.g. because the plugin reloaded
+  replaced?: string[];
+}
+
+export function formatSpyCall(call: SpyCall, mapStack?: (stack: string) => string): string {
+  const outcome =
+    call.outcome === "returned"
+      ? `→ ${call.value}`
+      : call.outcome === "resolved"
+        ? `→ resolved ${call.value}`
+        : `✗ ${call.outcome} ${call.value}`;
+  const stack = call.stack ? (mapStack ? mapStack(call.stack) : call.stack) : "";
+  const frames = stack.split("\n").filter(Boolean);
+
+  const lines = [
+    `[${call.time}] ${call.target}(${call.args.join(", ")}) ${outcome} (${call.durationMs.toFixed(1)} ms)`,
+    `  by ${frames[0] || "no JavaScript caller (native code or an event)"}`,
+  ];
+  for (const frame of frames.slice(1)) {
+    lines.push(`     ${frame}`);
+  }
+  return lines.join("\n");
+}
+
+export async function handleSpy(args: Record<string, unknown>): Promise<TextContent[]> {
+  const action = args.action as string;
+  const targets = (args.targets as string[] | undefined) ?? [];
+
+  if (!action || !["start", "get", "stop"].includes(action)) {
+    throw new Error("Invalid action. Use 'start', 'get', or 'stop'");
+  }
+  if (action === "start" && targets.length === 0) {
+    throw new Error("Missing targets: pass function or namespace paths, e.g. ['Zotero.Notifier.trigger']");
+  }
+  const invalid = targets.find((target) => !isValidObjectPath(target));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid target path: "${invalid}". Use a property chain such as 'Zotero.Item.prototype.saveTx'.`);
+  }
+
+  const client = await getRdpClient();
+
+  const code = `
+    (() => {
+      try {
+        const action = ${JSON.stringify(action)};
+        const TARGETS = ${JSON.stringify(targets)};
+        const previous = Zotero._mcpSpy;
+
+        const resolvePath = (path) => {
+          let obj = globalThis;
+          for (const part of path.split(".")) {
+            if (obj === undefined || obj === null) return undefined;
+            obj = obj[part];
+          }
+          return obj;
+        };
+        // Looked up by path: a reloaded plugin leaves the wrapper on an object
+        // nothing refers to any more
+        const installed = (spy) => {
+          try {
+            return resolvePath(spy.path) === spy.wrapper && spy.holder[spy.name] === spy.wrapper;
+          } catch (e) {
+            return false;
+          }
+        };
+        const unwrap = (state, spy) => {
+          // Leave a function that replaced the wrapper alone
+          if (installed(spy)) {
+            Object.defineProperty(spy.holder, spy.name, { ...spy.descriptor, value: spy.original });
+          }
+          state.spies.delete(spy.path);
+        };
+
+        if (action === "start") {
+          const state = previous || { spies: new Map(), calls: [], dropped: 0, pending: 0, seq: 0, busy: false };
+
+          // Arguments and results become short strings right away: holding
+          // the values would keep a reloaded plugin's objects alive
+          const describe = (value, depth = 0) => {
+            try {
+              if (value === null || value === undefined || typeof value === "number" || typeof value === "boolean") {
+                return String(value);
+              }
+              if (typeof value === "string") {
+                return JSON.stringify(value.length > 120 ? value.slice(0, 120) + "…" : value);
+              }
+              if (typeof value === "bigint") return value + "n";
+              if (typeof value === "symbol") return value.toString();
+              if (typeof value === "function") return "[function " + (value.name || "anonymous") + "]";
+              // Errors from other globals fail instanceof
+              if (value instanceof Error || (typeof value.message === "string" && "stack" in value)) {
+                return (value.name || "Error") + ": " + value.message;
+              }
+              if (typeof value.nodeType === "number" && typeof value.nodeName === "string") {
+                return "<" + value.nodeName.toLowerCase() + (value.id ? "#" + value.id : "") + ">";
+              }
+              if (Array.isArray(value)) {
+                if (depth > 1) return "[Array(" + value.length + ")]";
+                const items = value.slice(0, 10).map((item) => describe(item, depth + 1));
+                return "[" + items.join(", ") + (value.length > 10 ? ", … " + (value.length - 10) + " more" : "") + "]";
+              }
+              const name = value.constructor && value.constructor !== Object ? value.constructor.name : "";
+              // Zotero data objects: the identifying fields say more than the rest
+              if (typeof value.libraryID === "number" && value.key) {
+                return (name || "Object") + "(" + value.libraryID + "/" + value.key + (value.id ? ", id " + value.id : "") + ")";
+              }
+              if (typeof value.then === "function") return "Promise";
+              if (depth > 1) return name ? "[" + name + "]" : "{…}";
+              const keys = Object.keys(value);
+              const fields = keys.slice(0, 8).map((key) => key + ": " + describe(value[key], depth + 1));
+              return (name ? name + " " : "") + "{" + fields.join(", ") + (keys.length > 8 ? ", …" : "") + "}";
+            } catch (e) {
+              return "[unreadable]";
+            }
+          };
+
+          const record = (call) => {
+            state.calls.push(call);
+            if (state.calls.length > ${MAX_SPY_CALLS}) {
+              state.calls.shift();
+              state.dropped++;
+            }
+          };
+
+          const wrap = (path, holder, name) => {
+            const descriptor = Object.getOwnPropertyDescriptor(holder, name);
+            const original = descriptor.value;
+            const spy = { path, holder, name, descriptor, original };
+            spy.wrapper = function mcpSpyWrapper(...args) {
+              // Calls made while recording (a spied toString, Zotero.debug)
+              // pass straight through
+              if (state.busy) {
+                return new.target ? Reflect.construct(original, args, new.target) : Reflect.apply(original, this, args);
+              }
+              state.busy = true;
+              const call = { seq: ++state.seq, time: new Date().toISOString(), target: path, args: [], stack: "" };
+              try {
+                call.args = args.map((arg) => describe(arg));
+                const frames = [];
+                for (let frame = Components.stack.caller; frame && frames.length < ${MAX_STACK_FRAMES}; frame = frame.caller) {
+                  if (!frame.filename || frame.name === "mcpSpyWrapper") continue;
+                  frames.push((frame.name || "") + "@" + frame.filename + ":" + frame.lineNumber + ":" + (frame.columnNumber || 0));
+                }
+                call.stack = frames.join("\\n");
+              } finally {
+                state.busy = false;
+              }
+
+              const started = performance.now();
+              const finish = (outcome, value) => {
+                state.busy = true;
+                try {
+                  call.outcome = outcome;
+                  call.value = describe(value);
+                  call.durationMs = performance.now() - started;
+                  record(call);
+                } finally {
+                  state.busy = false;
+                }
+              };
+
+              let result;
+              try {
+                result = new.target ? Reflect.construct(original, args, new.target) : Reflect.apply(original, this, args);
+              } catch (error) {
+                finish("threw", error);
+                throw error;
+              }
+              if (result && typeof result.then === "function") {
+                state.pending++;
+                result.then(
+                  (value) => {
+                    state.pending--;
+                    finish("resolved", value);
+                  },
+                  (error) => {
+                    state.pending--;
+                    finish("rejected", error);
+                  }
+                );
+              } else {
+                finish("returned", result);
+              }
+              return result;
+            };
+            Object.defineProperty(spy.wrapper, "name", { value: original.name });
+            Object.defineProperty(spy.wrapper, "length", { value: original.length });
+            if (original.prototype) spy.wrapper.prototype = original.prototype;
+            Object.defineProperty(holder, name, { ...descriptor, value: spy.wrapper });
+            state.spies.set(path, spy);
+          };
+
+          // Data properties holding a function that can be replaced
+          const wrappable = (holder, name) => {
+            const descriptor = Object.getOwnPropertyDescriptor(holder, name);
+            return !!descriptor && typeof descriptor.value === "function" && (descriptor.configurable || descriptor.writable);
+          };
+
+          const wrapped = [];
+          const skipped = [];
+          for (const path of TARGETS) {
+            const existing = state.spies.get(path);
+            if (existing && installed(existing)) {
+              skipped.push(path + " (already spied)");
+              continue;
+            }
+            if (existing) state.spies.delete(path);
+
+            const parts = path.split(".");
+            const name = parts.pop();
+            const holder = parts.length ? resolvePath(parts.join(".")) : globalThis;
+            const value = holder === undefined || holder === null ? undefined : holder[name];
+
+            if (typeof value === "function" && !/^class\\b/.test(Function.prototype.toString.call(value))) {
+              if (!wrappable(holder, name)) {
+                skipped.push(path + " (not an own, writable property of " + (parts.join(".") || "the global") + ")");
+                continue;
+              }
+              wrap(path, holder, name);
+              wrapped.push(path);
+            } else if (value && (typeof value === "object" || typeof value === "function")) {
+              // A namespace or prototype: its own methods, not classes
+              const names = Object.getOwnPropertyNames(value).filter((key) => {
+                if (key === "constructor" || !wrappable(value, key)) return false;
+                const member = value[key];
+                return !/^class\\b/.test(Function.prototype.toString.call(member)) && !state.spies.has(path + "." + key);
+              });
+              if (names.length === 0) {
+                skipped.push(path + " (no methods to wrap)");
+                continue;
+              }
+              for (const key of names.slice(0, ${MAX_NAMESPACE_FUNCTIONS})) {
+                wrap(path + "." + key, value, key);
+                wrapped.push(path + "." + key);
+              }
+              if (names.length > ${MAX_NAMESPACE_FUNCTIONS}) {
+                skipped.push(path + " (" + (names.length - ${MAX_NAMESPACE_FUNCTIONS}) + " more methods; name them to spy on them)");
+              }
+            } else {
+              skipped.push(path + " (" + (value === undefined ? "not found" : "not a function or object") + ")");
+            }
+          }
+
+          if (wrapped.length === 0 && state.spies.size === 0) {
+            return JSON.stringify({ error: "Nothing to spy on: " + skipped.join("; ") });
+          }
+          Zotero._mcpSpy = state;
+
+          return JSON.stringify({
+            action: "started",
+            message: "Spying on " + wrapped.length + " function(s)" +
+              (wrapped.length ? ": " + wrapped.join(", ") : "") +
+              (skipped.length ? "\\nSkipped: " + skipped.join("; ") : "") +
+              "\\n" + state.spies.size + " function(s) spied in total. Trigger the action, then use action='get'."
+          });
+        }
+
+        if (!previous) {
+          return JSON.stringify({ action: "not_running", message: 'Spy not started. Use action="start" first.' });
+        }
+
+        if (action === "get") {
+          // Get and clear buffer, in the order the calls started
+          const calls = previous.calls.splice(0).sort((a, b) => a.seq - b.seq);
+          const dropped = previous.dropped;
+          previous.dropped = 0;
+          const spies = [...previous.spies.values()];
+          return JSON.stringify({
+            action: "calls",
+            calls,
+            dropped,
+            pending: previous.pending,
+            spied: spies.filter(installed).map((spy) => spy.path),
+            replaced: spies.filter((spy) => !installed(spy)).map((spy) => spy.path)
+          });
+        }
+
+        const stopping = TARGETS.length
+          ? [...previous.spies.values()].filter((spy) => TARGETS.some((t) => spy.path === t || spy.path.startsWith(t + ".")))
+          : [...previous.spies.values()];
+        const replaced = stopping.filter((spy) => !installed(spy)).length;
+        for (const spy of stopping) unwrap(previous, spy);
+
+        const unread = previous.calls.length;
+        if (previous.spies.size === 0) delete Zotero._mcpSpy;
+        return JSON.stringify({
+          action: "stopped",
+          message: "Unwrapped " + (stopping.length - replaced) + " function(s)" +
+            (replaced ? ", " + replaced + " had been replaced since (left as they are)" : "") +
+            (previous.spies.size
+              ? "; still spying on " + previous.spies.size
+              : "; spy stopped" + (unread ? ", " + unread + " unread call(s) discarded" : ""))
+        });
+      } catch (error) {
+        return JSON.stringify({ error: error.message || String(error) });
+      }
+    })()
+  `;
+
+  const response = await client.evaluateJS(code);
+
+  if (response.exception) {
+    throw new Error(`Spy failed: ${response.exceptionMessage}`);
+  }
+
+  // Use async method to handle longString grips (many recorded calls)
+  const jsonString = await client.gripToValueAsync(response.result);
+  if (jsonString === undefined || jsonString === null) {
+    throw new Error("Spy failed: received undefined result from Zotero");
+  }
+
+  const result = JSON.parse(String(jsonString)) as SpyResult;
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  if (result.action !== "calls" || !result.calls) {
+    return [{ type: "text", text: result.message || "Done" }];
+  }
+
+  const notes: string[] = [];
+  if (result.pending) {
+    notes.push(`${result.pending} async call(s) still pending; they appear once they settle.`);
+  }
+  if (result.replaced?.length) {
+    notes.push(
+      `No longer installed (replaced, e.g. by a plugin reload): ${result.replaced.join(", ")}. ` +
+        "Start again with these targets to spy on the new functions."
+    );
+  }
+
+  if (result.calls.length === 0) {
+    return [
+      {
+        type: "text",
+        text: [`No calls to ${result.spied?.length ?? 0} spied function(s) since last check`, ...notes].join("\n"),
+      },
+    ];
+  }
+
+  // Frames in a built plugin point into bundled output; map them back to the
+  // sources when the working directory is the plugin project
+  const mapper = createStackMapper(process.cwd());
+  const mapStack = mapper ? (stack: string) => mapper.mapStack(stack).stack : undefined;
+
+  const lines = [`Recorded ${result.calls.length} call(s):`, ""];
+  if (result.dropped) {
+    lines.push(`(${result.dropped} older call(s) were dropped; get more often to keep them)`, "");
+  }
+  lines.push(result.calls.map((call) => formatSpyCall(call, mapStack)).join("\n\n"));
+  if (notes.length) {
+    lines.push("", ...notes);
+  }
+
+  return [{ type: "text", text: lines.join("\n") }];
+}
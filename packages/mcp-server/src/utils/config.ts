@@ -8,11 +8,18 @@ import { homedir, platform } from "node:os";
 import { join } from "node:path";
 import { existsSync, readdirSync } from "node:fs";
 
+export interface InstanceConfig {
+  host: string;
+  port: number;
+}
+
 export interface Config {
-  rdp: {
-    host: string;
-    port: number;
-  };
+  // The default instance's endpoint
+  rdp: InstanceConfig;
+  // Named Zotero instances (one RDP port each), in configuration order. A Map,
+  // since an object would list integer-like names ("7", "8") first, ascending
+  instances: Map<string, InstanceConfig>;
+  defaultInstance: string;
   zotero: {
     dataDir?: string;
     profilePath?: string;
@@ -23,11 +30,24 @@ export interface Config {
  * Load configuration from environment variables and auto-detect paths
  */
 export function loadConfig(): Config {
+  const host = process.env.ZOTERO_RDP_HOST || "127.0.0.1";
+  const instances = process.env.ZOTERO_INSTANCES
+    ? parseInstances(process.env.ZOTERO_INSTANCES, host)
+    : new Map([["default", { host, port: parseInt(process.env.ZOTERO_RDP_PORT || "6100", 10) }]]);
+  const defaultInstance = process.env.ZOTERO_DEFAULT_INSTANCE || [...instances.keys()][0];
+  const rdp = instances.get(defaultInstance);
+
+  if (!rdp) {
+    throw new Error(
+      `ZOTERO_DEFAULT_INSTANCE "${defaultInstance}" is not one of the configured instances: ` +
+        [...instances.keys()].join(", ")
+    );
+  }
+
   return {
-    rdp: {
-      host: process.env.ZOTERO_RDP_HOST || "127.0.0.1",
-      port: parseInt(process.env.ZOTERO_RDP_PORT || "6100", 10),
-    },
+    rdp,
+    instances,
+    defaultInstance,
     zotero: {
       dataDir: process.env.ZOTERO_DATA_DIR || detectZoteroDataDir(),
       profilePath: process.env.ZOTERO_PROFILE_PATH || detectZoteroProfilePath(),
@@ -35,6 +55,72 @@ export function loadConfig(): Config {
   };
 }
 
+/**
+ * Parse ZOTERO_INSTANCES, either a list of name=[host:]port
+ *
+ *   stable=6100,beta=127.0.0.1:6101
+ *
+ * or a JSON object: {"stable":{"port":6100},"beta":{"host":"10.0.0.5","port":6101}}.
+ * Instances without a host use `defaultHost`. Either way the instances keep
+ * the order they are written in; the first is the default.
+ */
+export function parseInstances(value: string, defaultHost: string): Map<string, InstanceConfig> {
+  const instances = new Map<string, InstanceConfig>();
+  const add = (name: string, host: string | undefined, port: unknown) => {
+    const portNumber = typeof port === "number" ? port : parseInt(String(port), 10);
+    if (!/^[\w.-]+$/.test(name) || !Number.isInteger(portNumber) || portNumber <= 0 || portNumber > 65535) {
+      throw new Error(`Invalid ZOTERO_INSTANCES entry "${name}": expected a name and a port, e.g. stable=6100`);
+    }
+    instances.set(name, { host: host || defaultHost, port: portNumber });
+  };
+
+  if (value.trim().startsWith("{")) {
+    const parsed = JSON.parse(value) as Record<string, { host?: string; port?: number }>;
+    // Object.entries() would put integer-like names first
+    for (const name of objectKeysInSourceOrder(value)) {
+      add(name, parsed[name]?.host, parsed[name]?.port);
+    }
+  } else {
+    for (const entry of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+      const [name, endpoint = ""] = entry.split("=", 2).map((part) => part.trim());
+      const colon = endpoint.lastIndexOf(":");
+      add(name, colon === -1 ? undefined : endpoint.slice(0, colon), colon === -1 ? endpoint : endpoint.slice(colon + 1));
+    }
+  }
+
+  if (instances.size === 0) {
+    throw new Error("ZOTERO_INSTANCES is set but names no instances");
+  }
+  return instances;
+}
+
+/**
+ * The keys of a JSON object, in the order the text declares them. Expects
+ * text JSON.parse has already accepted.
+ */
+function objectKeysInSourceOrder(json: string): string[] {
+  const keys: string[] = [];
+  let depth = 0;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+    } else if (char === '"') {
+      const start = i;
+      for (i++; json[i] !== '"'; i++) {
+        if (json[i] === "\\") i++;
+      }
+      if (depth === 1 && /^\s*:/.test(json.slice(i + 1))) {
+        const key = JSON.parse(json.slice(start, i + 1)) as string;
+        if (!keys.includes(key)) keys.push(key);
+      }
+    }
+  }
+  return keys;
+}
+
 /**
  * Auto-detect Zotero data directory
  */
@@ -0,0 +1,154 @@
+/**
+ * HAR 1.2 export of captured network entries
+ *
+ * Entries come from zotero_network_capture; the format is the one DevTools,
+ * browsers and HTTP tools import (http://www.softwareishard.com/blog/har-12-spec/).
+ * Fields the capture does not know (cookies parsed apart, header sizes) are
+ * empty or -1, as the spec allows.
+ */
+
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
+export interface CapturedBody {
+  text: string | null; // null for binary content
+  size: number; // bytes seen on the wire, before truncation
+  mimeType: string;
+  truncated: boolean;
+  encoding?: string; // Content-Encoding that could not be decoded
+}
+
+export interface NetworkTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface NetworkEntry {
+  id: number;
+  startedDateTime: string;
+  time: number; // ms from opening the request to the end of the response
+  method: string;
+  url: string;
+  httpVersion: string;
+  status: number | null; // null while pending or when the request failed
+  statusText: string;
+  error: string | null;
+  fromCache: boolean;
+  requestHeaders: HttpHeader[];
+  responseHeaders: HttpHeader[];
+  requestBody: CapturedBody | null;
+  responseBody: CapturedBody | null;
+  timings: NetworkTimings | null;
+  initiator: { plugin: string | null; frame: string | null } | null;
+}
+
+export interface HarCreator {
+  name: string;
+  version: string;
+}
+
+function header(headers: HttpHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+function queryString(url: string): HttpHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function truncationComment(body: CapturedBody): string | undefined {
+  if (body.encoding) return `Not captured: Content-Encoding ${body.encoding} could not be decoded`;
+  if (body.text === null) return "Binary content not captured";
+  if (body.truncated) return `Truncated to ${body.text.length} of ${body.size} bytes`;
+  return undefined;
+}
+
+/**
+ * Build a HAR log. Pending entries are included with status 0, as browsers do
+ * for requests that never completed.
+ */
+export function buildHar(
+  entries: NetworkEntry[],
+  creator: HarCreator,
+  browser?: HarCreator
+): Record<string, unknown> {
+  return {
+    log: {
+      version: "1.2",
+      creator,
+      ...(browser ? { browser } : {}),
+      pages: [],
+      entries: entries.map((entry) => {
+        const httpVersion = entry.httpVersion || "HTTP/1.1";
+        const requestBody = entry.requestBody;
+        const responseBody = entry.responseBody;
+        const timings = entry.timings ?? {
+          blocked: -1,
+          dns: -1,
+          connect: -1,
+          ssl: -1,
+          send: 0,
+          wait: Math.max(entry.time, 0),
+          receive: 0,
+        };
+
+        return {
+          startedDateTime: entry.startedDateTime,
+          time: Math.max(entry.time, 0),
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion,
+            cookies: [],
+            headers: entry.requestHeaders,
+            queryString: queryString(entry.url),
+            ...(requestBody
+              ? {
+                  postData: {
+                    mimeType: requestBody.mimeType || header(entry.requestHeaders, "content-type") || "",
+                    text: requestBody.text ?? "",
+                    ...(truncationComment(requestBody) ? { comment: truncationComment(requestBody) } : {}),
+                  },
+                }
+              : {}),
+            headersSize: -1,
+            bodySize: requestBody ? requestBody.size : 0,
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.error ?? entry.statusText,
+            httpVersion,
+            cookies: [],
+            headers: entry.responseHeaders,
+            content: {
+              size: responseBody ? responseBody.size : 0,
+              mimeType: responseBody?.mimeType || header(entry.responseHeaders, "content-type") || "",
+              ...(responseBody?.text ? { text: responseBody.text } : {}),
+              ...(responseBody && truncationComment(responseBody)
+                ? { comment: truncationComment(responseBody) }
+                : {}),
+            },
+            redirectURL: header(entry.responseHeaders, "location") ?? "",
+            headersSize: -1,
+            bodySize: responseBody ? responseBody.size : -1,
+          },
+          cache: {},
+          timings,
+          // Custom fields are prefixed with an underscore (HAR 1.2)
+          ...(entry.initiator ? { _initiator: entry.initiator } : {}),
+          ...(entry.fromCache ? { _fromCache: true } : {}),
+        };
+      }),
+    },
+  };
+}
@@ -3,3 +3,6 @@
  */
 
 export * from "./config.js";
+export * from "./sourcemap.js";
+export * from "./ring-buffer.js";
+export * from "./har.js";
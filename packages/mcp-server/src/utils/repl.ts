@@ -0,0 +1,272 @@
+/**
+ * REPL input preparation
+ *
+ * zotero_repl runs each input as the body of an async function in the
+ * session's sandbox, so `await` and `return` work at top level. Declarations
+ * at top level would then die with the function; this rewrites the input so
+ * they outlive the call, as in a browser console:
+ *
+ *   const item = await Zotero.Items.getAsync(1)   var item = ...  (copied to the session)
+ *   item.getField("title")                        return item.getField("title")
+ *
+ * `let`/`const` become `var` so the next input may declare the same name
+ * again. This is a scanner, not a parser: it knows strings, template
+ * literals, comments and bracket depth, which is enough for code typed at a
+ * prompt. Regular expression literals containing quotes can confuse it.
+ */
+
+export interface PreparedReplInput {
+  // Function body to run
+  body: string;
+  // Names declared at top level, to copy to the session when the input completes
+  declared: string[];
+  // Whether the value of the last expression statement is returned
+  returnsLastExpression: boolean;
+}
+
+const enum Mask {
+  String = 0,
+  Code = 1,
+  Comment = 2,
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+
+// Statements that do not produce a value worth returning, and continuations
+// of an if/try/do that must not be split off
+const NOT_AN_EXPRESSION =
+  /^(?:if|for|while|do|switch|try|catch|finally|else|return|throw|break|continue|let|const|var|function|async\s+function|class|import|export|debugger)\b|^[{;]/;
+
+// A line that ends with one of these continues on the next line
+const CONTINUES_AFTER = /[=+\-*/%&|^!?:,.<>([{~]$/;
+
+// A line that starts with one of these continues the previous line
+const CONTINUES_BEFORE = /^(?:[.?:+\-*/%&|^,)\]}=<>([`]|instanceof\b|in\b)/;
+
+function codeMask(code: string): Uint8Array {
+  const mask = new Uint8Array(code.length).fill(Mask.Code);
+  let i = 0;
+  while (i < code.length) {
+    const c = code[i];
+    const next = code[i + 1];
+    let end = -1;
+    let kind: Mask = Mask.String;
+
+    if (c === "/" && next === "/") {
+      end = code.indexOf("\n", i);
+      if (end === -1) end = code.length;
+      kind = Mask.Comment;
+    } else if (c === "/" && next === "*") {
+      end = code.indexOf("*/", i + 2);
+      end = end === -1 ? code.length : end + 2;
+      kind = Mask.Comment;
+    } else if (c === '"' || c === "'" || c === "`") {
+      end = i + 1;
+      while (end < code.length && code[end] !== c) {
+        if (code[end] === "\\") end++;
+        else if (c !== "`" && code[end] === "\n") break;
+        end++;
+      }
+      end = Math.min(end + 1, code.length);
+    }
+
+    if (end === -1) {
+      i++;
+    } else {
+      mask.fill(kind, i, end);
+      i = end;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Start offsets of the top-level statements, found from semicolons, closing
+ * braces and line breaks at bracket depth 0
+ */
+function statementStarts(code: string, mask: Uint8Array): number[] {
+  const starts: number[] = [];
+  let depth = 0;
+  let atStart = true;
+  let newline = false;
+  let line = "";
+
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i];
+    if (mask[i] === Mask.Comment || (mask[i] === Mask.Code && /\s/.test(c))) {
+      if (c === "\n" && depth === 0) newline = true;
+      continue;
+    }
+
+    if (newline) {
+      newline = false;
+      if (!CONTINUES_AFTER.test(line.trimEnd()) && !CONTINUES_BEFORE.test(code.slice(i, i + 10))) {
+        atStart = true;
+      }
+      line = "";
+    }
+    if (atStart && depth === 0) {
+      if (c !== ";") starts.push(i);
+      atStart = false;
+    }
+
+    line += c;
+    if (mask[i] !== Mask.Code) continue;
+    if (c === "(" || c === "[" || c === "{") {
+      depth++;
+    } else if (c === ")" || c === "]" || c === "}") {
+      depth = Math.max(0, depth - 1);
+      if (c === "}" && depth === 0) atStart = true;
+    } else if (c === ";" && depth === 0) {
+      atStart = true;
+    }
+  }
+  return starts;
+}
+
+function matchingBracket(code: string, mask: Uint8Array, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (mask[i] !== Mask.Code) continue;
+    if ("([{".includes(code[i])) depth++;
+    else if (")]}".includes(code[i]) && --depth === 0) return i;
+  }
+  return code.length;
+}
+
+/**
+ * Split at a separator outside brackets
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if ("([{".includes(c)) depth++;
+    else if (")]}".includes(c)) depth--;
+    else if (c === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Names bound by a destructuring pattern, without its brackets:
+ * `a, b: c, [d = 1], ...e` binds a, c, d and e
+ */
+function patternNames(pattern: string): string[] {
+  const names: string[] = [];
+  for (let element of splitTopLevel(pattern, ",")) {
+    element = element.trim().replace(/^\.\.\./, "");
+    const [key, value] = splitTopLevel(element, ":");
+    const target = (value ?? key).trim();
+    const [binding] = splitTopLevel(target, "=");
+    const trimmed = binding.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      names.push(...patternNames(trimmed.slice(1, -1)));
+    } else if (IDENTIFIER.test(trimmed)) {
+      names.push(IDENTIFIER.exec(trimmed)![0]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Names declared by `let|const|var` at `from` (just after the keyword), up
+ * to the end of the statement at `end`
+ */
+function declaratorNames(code: string, mask: Uint8Array, from: number, end: number): string[] {
+  const names: string[] = [];
+  let i = from;
+  while (i < end) {
+    while (i < end && (/\s/.test(code[i]) || mask[i] === Mask.Comment)) i++;
+    const rest = code.slice(i, end);
+    if (code[i] === "{" || code[i] === "[") {
+      const close = matchingBracket(code, mask, i);
+      names.push(...patternNames(code.slice(i + 1, close)));
+      i = close + 1;
+    } else if (IDENTIFIER.test(rest)) {
+      const name = IDENTIFIER.exec(rest)![0];
+      names.push(name);
+      i += name.length;
+    } else {
+      break;
+    }
+
+    // Skip the initializer to the next declarator
+    let depth = 0;
+    while (i < end) {
+      const c = code[i];
+      if (mask[i] === Mask.Code) {
+        if ("([{".includes(c)) depth++;
+        else if (")]}".includes(c)) depth--;
+        else if (c === "," && depth === 0) break;
+        else if (c === ";" && depth === 0) return names;
+      }
+      i++;
+    }
+    i++;
+  }
+  return names;
+}
+
+/**
+ * Whether the input has a `return` outside any function or block
+ */
+function hasTopLevelReturn(code: string, mask: Uint8Array): boolean {
+  let depth = 0;
+  for (let i = 0; i < code.length; i++) {
+    if (mask[i] !== Mask.Code) continue;
+    const c = code[i];
+    if (c === "{") depth++;
+    else if (c === "}") depth = Math.max(0, depth - 1);
+    else if (depth === 0 && c === "r" && /^return\b/.test(code.slice(i, i + 7)) && !/[\w$.]/.test(code[i - 1] ?? "")) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function prepareReplInput(code: string): PreparedReplInput {
+  const mask = codeMask(code);
+  const starts = statementStarts(code, mask);
+  const edits: Array<{ at: number; remove: number; insert: string }> = [];
+  const declared = new Set<string>();
+
+  starts.forEach((start, index) => {
+    const rest = code.slice(start, start + 200);
+    const end = starts[index + 1] ?? code.length;
+
+    const declaration = /^(let|const|var)(?=[\s{[])/.exec(rest);
+    if (declaration) {
+      if (declaration[1] !== "var") {
+        edits.push({ at: start, remove: declaration[1].length, insert: "var" });
+      }
+      declaratorNames(code, mask, start + declaration[1].length, end).forEach((name) => declared.add(name));
+      return;
+    }
+
+    const named = /^(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)|^class\s+([A-Za-z_$][\w$]*)/.exec(rest);
+    if (named) {
+      declared.add(named[1] ?? named[2]);
+    }
+  });
+
+  const last = starts[starts.length - 1];
+  const returnsLastExpression =
+    last !== undefined && !hasTopLevelReturn(code, mask) && !NOT_AN_EXPRESSION.test(code.slice(last, last + 20));
+  if (returnsLastExpression) {
+    edits.push({ at: last, remove: 0, insert: "return " });
+  }
+
+  let body = code;
+  for (const edit of edits.sort((a, b) => b.at - a.at)) {
+    body = body.slice(0, edit.at) + edit.insert + body.slice(edit.at + edit.remove);
+  }
+
+  return { body, declared: [...declared], returnsLastExpression };
+}
@@ -0,0 +1,39 @@
+/**
+ * Fixed-size buffer that keeps the most recent entries
+ */
+
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private pushed = 0;
+
+  constructor(readonly capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+    this.pushed++;
+  }
+
+  /**
+   * Entries from oldest to newest
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  /**
+   * Entries pushed since creation, including those already overwritten
+   */
+  get total(): number {
+    return this.pushed;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
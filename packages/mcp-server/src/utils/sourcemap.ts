@@ -0,0 +1,326 @@
+/**
+ * Source map utilities
+ *
+ * Maps locations in a built plugin (chrome://<plugin>/content/scripts/*.js,
+ * or the same files inside a jar:file:// XPI) back to the original sources
+ * through the .map files the bundler wrote into the project's build directory.
+ * Only standard v3 maps are handled, which is what esbuild emits.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+
+export interface OriginalLocation {
+  source: string; // relative to the project, e.g. "src/modules/notifier.ts"
+  line: number; // 1-based
+  column: number; // 1-based, like Firefox stack columns
+  name?: string;
+}
+
+export interface StackMapper {
+  buildDir: string;
+  mapLocation(url: string, line: number, column: number): OriginalLocation | null;
+  // `ambiguous` lists script URLs left unmapped because several maps fit them equally well
+  mapStack(stack: string): { stack: string; mapped: number; ambiguous: string[] };
+  // The maps that fit a URL equally well, when there is more than one
+  ambiguousMaps(url: string): string[];
+}
+
+// [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?], all 0-based
+type Segment = [number, number, number, number, number?];
+
+interface ParsedMap {
+  sources: string[]; // absolute paths
+  names: string[];
+  lines: Segment[][];
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_VALUES = new Map(Array.from(BASE64).map((c, i) => [c, i]));
+
+// Parsed maps keyed by path, invalidated when the file changes (rebuilds)
+const mapCache = new Map<string, { mtimeMs: number; map: ParsedMap }>();
+
+// Bound on the build directory walk, so a stray node_modules can't stall a tool
+const MAX_MAP_FILES = 500;
+
+/**
+ * Decode a base64 VLQ "mappings" string into per-line segments with
+ * absolute (not delta) values
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (const lineText of mappings.split(";")) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const segmentText of lineText.split(",")) {
+      if (!segmentText) continue;
+
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segmentText) {
+        const digit = BASE64_VALUES.get(char);
+        if (digit === undefined) break;
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+
+      generatedColumn += values[0];
+      if (values.length >= 4) {
+        sourceIndex += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+        const segment: Segment = [generatedColumn, sourceIndex, originalLine, originalColumn];
+        if (values.length >= 5) {
+          nameIndex += values[4];
+          segment[4] = nameIndex;
+        }
+        segments.push(segment);
+      }
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+function loadSourceMap(mapPath: string): ParsedMap | null {
+  try {
+    const { mtimeMs } = statSync(mapPath);
+    const cached = mapCache.get(mapPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.map;
+    }
+
+    const raw = JSON.parse(readFileSync(mapPath, "utf8")) as {
+      version?: number;
+      sources?: string[];
+      sourceRoot?: string;
+      names?: string[];
+      mappings?: string;
+    };
+    if (raw.version !== 3 || !raw.sources || typeof raw.mappings !== "string") {
+      return null;
+    }
+
+    const root = resolve(dirname(mapPath), raw.sourceRoot || "");
+    const map: ParsedMap = {
+      sources: raw.sources.map((s) => resolve(root, s.replace(/^webpack:\/\/\/?|^file:\/\//, ""))),
+      names: raw.names || [],
+      lines: decodeMappings(raw.mappings),
+    };
+    mapCache.set(mapPath, { mtimeMs, map });
+    return map;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Recursively collect .map files under the build directory
+ */
+function collectMapFiles(dir: string, found: string[] = []): string[] {
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return found;
+  }
+
+  for (const entry of entries) {
+    if (found.length >= MAX_MAP_FILES) break;
+    if (entry === "node_modules") continue;
+    const full = join(dir, entry);
+    try {
+      if (statSync(full).isDirectory()) {
+        collectMapFiles(full, found);
+      } else if (entry.endsWith(".map")) {
+        found.push(full);
+      }
+    } catch {
+      // Unreadable entry - skip
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Path of a script URL inside the plugin package: "content/scripts/index.js"
+ * for chrome://myplugin/content/scripts/index.js and for
+ * jar:file:///.../myplugin.xpi!/content/scripts/index.js. `package` is the
+ * name the URL gives the package ("myplugin"), which build paths often
+ * contain too.
+ */
+function packagePathOfUrl(url: string): { path: string; package?: string } | null {
+  const jarIndex = url.indexOf("!/");
+  if (url.startsWith("jar:") && jarIndex !== -1) {
+    const xpi = url.slice(0, jarIndex).split("/").pop()?.replace(/\.xpi$/, "");
+    return { path: url.slice(jarIndex + 2), package: xpi || undefined };
+  }
+  const match = url.match(/^(?:chrome|resource|moz-extension):\/\/([^/]+)\/(.+)$/);
+  if (match) {
+    return { path: match[2], package: match[1] };
+  }
+  if (url.startsWith("file://")) {
+    return { path: url.slice("file://".length) };
+  }
+  return null;
+}
+
+/**
+ * How many trailing path segments two "/"-separated paths share
+ */
+function commonSuffixLength(a: string[], b: string[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Find the build directory of a plugin project, the same way
+ * zotero_scaffold_build reports it: build/ first, then dist/
+ */
+export function findBuildDir(projectPath: string): string | null {
+  for (const name of ["build", "dist"]) {
+    const dir = join(projectPath, name);
+    if (existsSync(dir)) {
+      return dir;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a mapper for a project's build output, or null when the project has
+ * no build directory or the build wrote no source maps
+ */
+export function createStackMapper(projectPath: string): StackMapper | null {
+  const buildDir = findBuildDir(projectPath);
+  if (!buildDir) {
+    return null;
+  }
+
+  const mapFiles = collectMapFiles(buildDir);
+  if (mapFiles.length === 0) {
+    return null;
+  }
+
+  // Generated file path (without .map) relative to the build dir, "/"-separated
+  const generated = mapFiles.map((mapPath) => ({
+    mapPath,
+    file: relative(buildDir, mapPath.slice(0, -".map".length)).split(sep).join("/"),
+  }));
+
+  /**
+   * The maps that fit a URL best. Build files ending in the path inside the
+   * package serve it ("addon/content/scripts/index.js" serves
+   * chrome://myplugin/content/scripts/index.js); of those, the ones sharing
+   * the longest path suffix with the URL, package name included, win. With no
+   * such file, a unique file name match is used.
+   */
+  const candidatesForUrl = (url: string): string[] => {
+    const location = packagePathOfUrl(url.split(/[?#]/)[0]);
+    if (!location) return [];
+
+    const packageSegments = location.path.split("/");
+    const urlSegments = location.package ? [location.package, ...packageSegments] : packageSegments;
+    let best = packageSegments.length;
+    let bySuffix: string[] = [];
+    for (const g of generated) {
+      const length = commonSuffixLength(g.file.split("/"), urlSegments);
+      if (length < best) continue;
+      if (length > best) {
+        best = length;
+        bySuffix = [];
+      }
+      bySuffix.push(g.mapPath);
+    }
+    if (bySuffix.length > 0) {
+      return bySuffix;
+    }
+
+    const base = packageSegments[packageSegments.length - 1];
+    const byName = generated.filter((g) => g.file.split("/").pop() === base);
+    return byName.length === 1 ? [byName[0].mapPath] : [];
+  };
+
+  const mapPathForUrl = (url: string): string | null => {
+    const candidates = candidatesForUrl(url);
+    return candidates.length === 1 ? candidates[0] : null;
+  };
+
+  const ambiguousMaps = (url: string): string[] => {
+    const candidates = candidatesForUrl(url);
+    return candidates.length > 1 ? candidates : [];
+  };
+
+  const mapLocation = (url: string, line: number, column: number): OriginalLocation | null => {
+    const mapPath = mapPathForUrl(url);
+    if (!mapPath) return null;
+
+    const map = loadSourceMap(mapPath);
+    const segments = map?.lines[line - 1];
+    if (!map || !segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the (0-based) column
+    const generatedColumn = Math.max(column - 1, 0);
+    let best: Segment | undefined;
+    for (const segment of segments) {
+      if (segment[0] > generatedColumn) break;
+      best = segment;
+    }
+    best ??= segments[0];
+
+    const source = map.sources[best[1]];
+    if (!source) return null;
+
+    return {
+      source: relative(projectPath, source).split(sep).join("/"),
+      line: best[2] + 1,
+      column: best[3] + 1,
+      name: best[4] !== undefined ? map.names[best[4]] : undefined,
+    };
+  };
+
+  const mapStack = (stack: string): { stack: string; mapped: number; ambiguous: string[] } => {
+    let mapped = 0;
+    const ambiguous = new Set<string>();
+    const lines = stack.split("\n").map((frameLine) => {
+      // Firefox frames: "name@url:line:column", possibly with an "async*" prefix
+      const match = frameLine.match(/^(\s*(?:async\*)?)([^@]*)@(.+):(\d+):(\d+)\s*$/);
+      if (!match) return frameLine;
+
+      const [, prefix, fnName, url, line, column] = match;
+      const original = mapLocation(url, Number(line), Number(column));
+      if (!original) {
+        if (ambiguousMaps(url).length > 0) ambiguous.add(url);
+        return frameLine;
+      }
+
+      mapped++;
+      // The generated name may be minified; the map's names entry is the original
+      const name = original.name || fnName || "(anonymous)";
+      return `${prefix}${name}@${original.source}:${original.line}:${original.column}`;
+    });
+    return { stack: lines.join("\n"), mapped, ambiguous: [...ambiguous] };
+  };
+
+  return { buildDir, mapLocation, mapStack, ambiguousMaps };
+}
@@ -0,0 +1,32 @@
+/**
+ * ZOTERO_INSTANCES parsing: named Zotero instances, one RDP port each.
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseInstances } from "../src/utils/config.js";
+
+describe("parseInstances", () => {
+  it("reads name=[host:]port lists and JSON objects in configuration order", () => {
+    expect(parseInstances("stable=6100, beta=10.0.0.5:6101", "127.0.0.1")).toEqual(
+      new Map([
+        ["stable", { host: "127.0.0.1", port: 6100 }],
+        ["beta", { host: "10.0.0.5", port: 6101 }],
+      ])
+    );
+    expect([...parseInstances('{"z8":{"port":6101},"z7":{"port":6100}}', "127.0.0.1").keys()]).toEqual(["z8", "z7"]);
+  });
+
+  it("keeps integer-like names in the order they are written", () => {
+    expect([...parseInstances("8=6101,7=6100", "127.0.0.1").keys()]).toEqual(["8", "7"]);
+    expect([...parseInstances('{"8": {"port": 6101, "host": "a\\"b"}, "7": {"port": 6100}}', "127.0.0.1")]).toEqual([
+      ["8", { host: 'a"b', port: 6101 }],
+      ["7", { host: "127.0.0.1", port: 6100 }],
+    ]);
+  });
+
+  it("rejects entries without a valid port", () => {
+    expect(() => parseInstances("stable", "127.0.0.1")).toThrow(/Invalid ZOTERO_INSTANCES entry "stable"/);
+    expect(() => parseInstances("beta=localhost:99999", "127.0.0.1")).toThrow(/beta/);
+    expect(() => parseInstances(" , ", "127.0.0.1")).toThrow(/names no instances/);
+  });
+});
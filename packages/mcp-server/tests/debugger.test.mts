@@ -0,0 +1,208 @@
+/**
+ * Debugger tools against a fake thread actor. The tools talk to the thread
+ * actor directly rather than through evaluateJS, so what they depend on is
+ * the request/packet sequence: attach, setBreakpoint, a "paused" packet,
+ * frames and environments, then resume. The fake server plays that sequence.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RDPClient } from "../src/rdp/client.js";
+import {
+  CONSOLE_ACTOR,
+  answerBootstrap,
+  startFakeRdpServer,
+  type FakeRdpServer,
+  type FakeRequest,
+  type SendPacket,
+} from "./fake-rdp-server.mjs";
+
+// Handlers get their client from the server entry point
+const holder = vi.hoisted(() => ({ client: undefined as RDPClient | undefined }));
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => {
+    if (!holder.client) throw new Error("No client");
+    return holder.client;
+  },
+}));
+
+const { handleDebuggerBreakpoint, handleDebuggerPause, handleDebuggerResume } = await import(
+  "../src/tools/debugger.js"
+);
+
+const HOOKS_URL = "chrome://myplugin/content/hooks.js";
+
+const SOURCES = [
+  { actor: "source1", url: HOOKS_URL },
+  { actor: "source2", url: "chrome://zotero/content/xpcom/notifier.js" },
+];
+
+const FRAMES = [
+  {
+    actor: "frame1",
+    type: "call",
+    displayName: "onItemModified",
+    this: { type: "object", class: "Object", actor: "obj1", ownPropertyLength: 2 },
+    where: { actor: "source1", line: 12, column: 4 },
+  },
+  {
+    actor: "frame2",
+    type: "call",
+    displayName: "Zotero.Notifier.trigger",
+    where: { actor: "source2", line: 310, column: 10 },
+  },
+];
+
+const ENVIRONMENT = {
+  from: "frame1",
+  actor: "env1",
+  type: "block",
+  bindings: { variables: { title: { value: "Red" } } },
+  parent: {
+    actor: "env2",
+    type: "function",
+    function: { type: "object", class: "Function", actor: "fn1", name: "onItemModified" },
+    bindings: {
+      arguments: [{ ids: { value: { type: "object", class: "Array", actor: "arr1", preview: { kind: "ArrayLike", length: 1 } } } }],
+      variables: { count: { value: 3 }, extra: { value: { type: "undefined" } } },
+    },
+    // The global: the listing stops here
+    parent: { actor: "env3", type: "object", object: { type: "object", class: "Window", actor: "win1" } },
+  },
+};
+
+function paused(why: Record<string, unknown>, line: number): Record<string, unknown> {
+  return { from: "thread1", type: "paused", frame: { ...FRAMES[0], where: { actor: "source1", line, column: 4 } }, why };
+}
+
+let server: FakeRdpServer | undefined;
+let requests: FakeRequest[];
+// Sends to the client outside of a reply, as a breakpoint hit does
+let push: SendPacket;
+
+afterEach(async () => {
+  holder.client?.disconnect();
+  holder.client = undefined;
+  await server?.close();
+  server = undefined;
+});
+
+/**
+ * Answer like Zotero's thread actor: a bootstrap with a thread actor, and a
+ * "paused" packet after a step, before the reply to the resume
+ */
+function fakeThread(request: FakeRequest, send: SendPacket): void {
+  requests.push(request);
+  push = send;
+  if (request.to === "processDescriptor1" && request.type === "getTarget") {
+    send({
+      from: "processDescriptor1",
+      process: { actor: "parentProcessTarget1", consoleActor: CONSOLE_ACTOR, threadActor: "thread1", title: "Zotero", url: "" },
+    });
+    return;
+  }
+  if (answerBootstrap(request, send)) return;
+
+  if (request.to === "thread1" && request.type === "sources") {
+    send({ from: "thread1", sources: SOURCES });
+  } else if (request.to === "thread1" && request.type === "frames") {
+    send({ from: "thread1", frames: FRAMES });
+  } else if (request.to === "frame1" && request.type === "getEnvironment") {
+    send(ENVIRONMENT);
+  } else if (request.to === "thread1" && request.type === "resume") {
+    const limit = (request.resumeLimit as { type: string } | null)?.type;
+    send({ from: "thread1", type: "resumed" });
+    if (limit === "next") send(paused({ type: "resumeLimit" }, 13));
+    send({ from: "thread1" });
+  } else {
+    // attach, setBreakpoint, removeBreakpoint
+    send({ from: request.to });
+  }
+}
+
+async function connect(): Promise<RDPClient> {
+  requests = [];
+  server = await startFakeRdpServer(fakeThread);
+  holder.client = new RDPClient({ host: "127.0.0.1", port: server.port, timeout: 2000, maxReconnectAttempts: 0 });
+  holder.client.setKeepaliveEnabled(false);
+  await holder.client.connect();
+  return holder.client;
+}
+
+const text = async (result: Promise<{ text: string }[]>) => (await result)[0].text;
+
+describe("zotero_debugger_breakpoint", () => {
+  it("sets a breakpoint by URL suffix once attached, and lists it", async () => {
+    await connect();
+
+    expect(await text(handleDebuggerBreakpoint({ url: "hooks.js", line: 12, condition: "ids[0] === 5" }))).toBe(
+      `✓ Breakpoint set at ${HOOKS_URL}:12 if (ids[0] === 5)\n` +
+        "\nNext: trigger the code, then zotero_debugger_pause with action='wait'."
+    );
+    const sent = requests.map((r) => `${r.to} ${r.type}`);
+    expect(sent.indexOf("thread1 attach")).toBeLessThan(sent.indexOf("thread1 setBreakpoint"));
+    expect(requests.find((r) => r.type === "setBreakpoint")).toMatchObject({
+      location: { sourceUrl: HOOKS_URL, line: 12 },
+      options: { condition: "ids[0] === 5" },
+    });
+
+    expect(await text(handleDebuggerBreakpoint({ action: "list" }))).toBe(
+      `1 breakpoint(s):\n\n• ${HOOKS_URL}:12 if (ids[0] === 5)`
+    );
+    await expect(handleDebuggerBreakpoint({ url: "missing.js", line: 1 })).rejects.toThrow(
+      'No loaded script URL ends with "missing.js"'
+    );
+  });
+});
+
+describe("zotero_debugger_pause", () => {
+  it("describes the paused stack and the scopes of a frame", async () => {
+    await connect();
+    await handleDebuggerBreakpoint({ url: HOOKS_URL, line: 12 });
+
+    const waiting = text(handleDebuggerPause({ action: "wait", timeoutMs: 2000 }));
+    push(paused({ type: "breakpoint", actors: ["breakpoint1"] }, 12));
+
+    expect(await waiting).toBe(
+      [
+        "⏸ Paused (breakpoint)",
+        "",
+        "### Stack",
+        `→ #0 onItemModified (${HOOKS_URL}:12:4)`,
+        "  #1 Zotero.Notifier.trigger (chrome://zotero/content/xpcom/notifier.js:310:10)",
+        "",
+        "### Scopes of #0 onItemModified",
+        'this = "[Object]"',
+        "Block scope:",
+        '  title = "Red"',
+        "Function scope (function onItemModified()):",
+        "  ids = Array(1)",
+        "  count = 3",
+        "  extra = undefined",
+        "",
+        "Next: zotero_debugger_resume (mode: over/in/out/resume), or zotero_debugger_pause " +
+          "with frameIndex to inspect another frame.",
+      ].join("\n")
+    );
+    expect(await text(handleDebuggerPause({ frameIndex: 5 }))).toContain("No frame at index 5 (stack has 2).");
+  });
+});
+
+describe("zotero_debugger_resume", () => {
+  it("steps over to the next pause, then resumes", async () => {
+    const client = await connect();
+    expect(await text(handleDebuggerResume({}))).toBe("Not paused - nothing to resume");
+
+    push(paused({ type: "breakpoint", actors: ["breakpoint1"] }, 12));
+    await client.waitForPause(2000);
+
+    expect(await text(handleDebuggerResume({ mode: "over" }))).toMatch(/^⏸ Paused \(resumeLimit\)\n/);
+    expect(requests.filter((r) => r.type === "resume")).toEqual([
+      { to: "thread1", type: "resume", resumeLimit: { type: "next" } },
+    ]);
+    expect(client.getPausedPacket()?.frame?.where?.line).toBe(13);
+
+    expect(await text(handleDebuggerResume({ mode: "resume" }))).toBe("▶ Resumed");
+    expect(requests.at(-1)).toMatchObject({ to: "thread1", type: "resume", resumeLimit: null });
+    expect(client.getPausedPacket()).toBeNull();
+  });
+});
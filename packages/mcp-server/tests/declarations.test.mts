@@ -0,0 +1,95 @@
+/**
+ * zotero_inspect_object format='dts': the collector runs in Node against a
+ * stand-in Zotero namespace, and the rendered declarations must parse as
+ * TypeScript.
+ */
+
+import ts from "typescript";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { collectDeclarations, renderDeclarations, renderParameters } from "../src/tools/declarations.js";
+import type { RDPClient } from "../src/rdp/index.js";
+
+const client = {
+  evaluateJS: async (code: string) => ({ result: (0, eval)(code) }),
+  gripToValueAsync: async (value: unknown) => value,
+} as unknown as RDPClient;
+
+class DataObjects {
+  _objectCache = {};
+  async getAsync(ids: number[], options = {}) {
+    return [ids, options];
+  }
+  get(id: number) {
+    return id;
+  }
+}
+
+class Widget {
+  constructor(public name: string, public size?: number) {}
+  render(target: unknown) {
+    return target;
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("renderParameters", () => {
+  it("reads names, defaults, rest and destructuring from the source", () => {
+    expect(renderParameters("async function getAsync(ids, options = {}) { }", 1)).toBe("(ids: any, options?: any)");
+    expect(renderParameters("(a, { b, c } = {}, ...rest) => a", 1)).toBe("(a: any, arg1?: any, ...rest: any[])");
+    expect(renderParameters("item => item.id", 1)).toBe("(item: any)");
+    expect(renderParameters("function (a /* , b */, c = f(1, 2)) {}", 1)).toBe("(a: any, c?: any)");
+    expect(renderParameters("function push() { [native code] }", 2)).toBe("(arg0: any, arg1: any)");
+  });
+});
+
+describe("collectDeclarations", () => {
+  it("declares methods, properties, classes and nested namespaces", async () => {
+    vi.stubGlobal("Zotero", {
+      version: "8.0",
+      Items: new DataObjects(),
+      Prefs: { get: (pref: string, global?: boolean) => [pref, global], rootKey: "extensions.zotero." },
+      Widget,
+      isWin: false,
+      locales: ["en-US", "fr-FR"],
+      delete: () => {},
+      openedAt: new Date(0),
+    });
+
+    const source = await collectDeclarations(client, "Zotero", { protoDepth: 2, namespaceDepth: 1 });
+    const dts = renderDeclarations(source, "2026-10-18T00:00:00.000Z");
+
+    expect(dts).toBe(
+      [
+        "// Generated by zotero_inspect_object from Zotero in Zotero 8.0, 2026-10-18T00:00:00.000Z.",
+        "// Types are inferred from current values; review before use.",
+        "declare namespace Zotero {",
+        "  namespace Items {",
+        "    let _objectCache: Record<string, any>;",
+        "    function get(id: any): any;",
+        "    function getAsync(ids: any, options?: any): Promise<any>;",
+        "  }",
+        "  namespace Prefs {",
+        "    function get(pref: any, global: any): any;",
+        "    let rootKey: string;",
+        "  }",
+        "  class Widget {",
+        "    constructor(name: any, size: any);",
+        "    render(target: any): any;",
+        "  }",
+        '  // skipped "delete": not usable as a namespace member name',
+        "  let isWin: boolean;",
+        "  let locales: string[];",
+        "  let openedAt: Date;",
+        "  let version: string;",
+        "}",
+        "",
+      ].join("\n")
+    );
+
+    const parsed = ts.createSourceFile("zotero.d.ts", dts, ts.ScriptTarget.ES2022);
+    expect((parsed as unknown as { parseDiagnostics: unknown[] }).parseDiagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * zotero_doctor: prefs.js checks and the TCP → RDP framing → getRoot probe,
+ * against a temporary profile and local servers.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Config } from "../src/utils/config.js";
+import { answerBootstrap, startFakeRdpServer, type FakeRdpServer } from "./fake-rdp-server.mjs";
+
+const holder = vi.hoisted(() => ({ config: undefined as Config | undefined }));
+vi.mock("../src/index.js", () => ({ getConfig: () => holder.config }));
+
+const { checkBridgePrefs, handleDoctor, parsePrefsJs } = await import("../src/tools/doctor.js");
+
+const cleanups: Array<() => Promise<void> | void> = [];
+
+afterEach(async () => {
+  while (cleanups.length) await cleanups.pop()!();
+});
+
+function profile(prefs: string): string {
+  const dir = mkdtempSync(join(tmpdir(), "zotero-doctor-"));
+  cleanups.push(() => rmSync(dir, { recursive: true, force: true }));
+  writeFileSync(join(dir, "prefs.js"), prefs);
+  writeFileSync(
+    join(dir, "extensions.json"),
+    JSON.stringify({ addons: [{ id: "mcp-rdp@zotero.org", version: "1.1.3", active: true, userDisabled: false }] })
+  );
+  return dir;
+}
+
+function configure(port: number, profilePath: string): void {
+  holder.config = {
+    rdp: { host: "127.0.0.1", port },
+    instances: new Map([["default", { host: "127.0.0.1", port }]]),
+    defaultInstance: "default",
+    zotero: { profilePath },
+  };
+}
+
+async function doctor(timeoutMs = 500, args: Record<string, unknown> = {}): Promise<string> {
+  const [result] = await handleDoctor({ timeoutMs, ...args });
+  return result.text;
+}
+
+describe("bridge prefs", () => {
+  it("reads prefs.js and catches the Boolean port trap and a port mismatch", () => {
+    const prefs = parsePrefsJs(
+      [
+        "// Mozilla User Preferences",
+        'user_pref("devtools.debugger.remote-enabled", true);',
+        'user_pref("extensions.mcp-rdp.port", true);',
+        'user_pref("extensions.zotero.lastViewedFolder", "C\\\\Users\\\\me");',
+      ].join("\n")
+    );
+    expect(prefs.get("extensions.zotero.lastViewedFolder")).toBe("C\\Users\\me");
+
+    const steps = checkBridgePrefs(prefs, 6101);
+    expect(steps.find((step) => step.name === "Bridge port pref")?.status).toBe("warn");
+    expect(steps.find((step) => step.name === "Bridge port")).toMatchObject({
+      status: "fail",
+      detail: "The bridge listens on 6100, this server dials 6101",
+    });
+  });
+
+  it("honours the port stored under the pre-1.0.5 prefixed name", () => {
+    const steps = checkBridgePrefs(parsePrefsJs('user_pref("extensions.zotero.extensions.mcp-rdp.port", 6101);'), 6101);
+    expect(steps.find((step) => step.name === "Bridge port")?.status).toBe("ok");
+  });
+});
+
+describe("zotero_doctor", () => {
+  it("reports a working connection", async () => {
+    const server: FakeRdpServer = await startFakeRdpServer((request, send) => answerBootstrap(request, send));
+    cleanups.push(() => server.close());
+    configure(server.port, profile(`user_pref("devtools.debugger.remote-enabled", true);\nuser_pref("extensions.mcp-rdp.port", ${server.port});\n`));
+
+    const text = await doctor();
+
+    expect(text).toContain("✓ RDP framing: Root intro packet received (applicationType browser)");
+    expect(text).toContain("✓ getRoot");
+    expect(text).toContain("The connection works.");
+  });
+
+  it("names the framing step when another program owns the port", async () => {
+    const server: Server = createServer((socket) => socket.end("HTTP/1.1 400 Bad Request\r\n\r\n"));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    cleanups.push(() => new Promise<void>((resolve) => server.close(() => resolve())));
+    const port = (server.address() as { port: number }).port;
+    configure(port, profile(`user_pref("devtools.debugger.remote-enabled", true);\nuser_pref("extensions.mcp-rdp.port", ${port});\n`));
+
+    const text = await doctor();
+
+    expect(text).toContain("✓ TCP");
+    expect(text).toContain('✗ RDP framing: The port does not greet like a DevTools server: received "HTTP/1.1 400');
+    expect(text).toContain("First failing step: RDP framing");
+  });
+
+  it("blames the port mismatch before the refused connection", async () => {
+    const server: FakeRdpServer = await startFakeRdpServer(() => undefined);
+    const port = server.port;
+    await server.close();
+    configure(port, profile('user_pref("devtools.debugger.remote-enabled", true);\nuser_pref("extensions.mcp-rdp.port", 6100);\n'));
+
+    const text = await doctor();
+
+    expect(text).toContain("✗ TCP");
+    expect(text).toContain("First failing step: Bridge port");
+    expect(text).toContain(`Fix: Set ZOTERO_RDP_PORT (or the instance's port in ZOTERO_INSTANCES) to 6100`);
+  });
+
+  it("compares another instance's port only with a profile passed for it", async () => {
+    const server: FakeRdpServer = await startFakeRdpServer((request, send) => answerBootstrap(request, send));
+    cleanups.push(() => server.close());
+    const defaultProfile = profile('user_pref("devtools.debugger.remote-enabled", true);\nuser_pref("extensions.mcp-rdp.port", 6100);\n');
+    configure(6100, defaultProfile);
+    holder.config!.instances.set("beta", { host: "127.0.0.1", port: server.port });
+
+    const text = await doctor(500, { instance: "beta" });
+
+    expect(text).toContain(`Diagnosing instance beta at 127.0.0.1:${server.port}`);
+    expect(text).toContain("– Bridge port: The bridge in this profile listens on 6100. Not compared with this instance's port");
+    expect(text).toContain("The connection works.");
+
+    const mismatch = await doctor(500, { instance: "beta", profilePath: defaultProfile });
+    expect(mismatch).toContain(`✗ Bridge port: The bridge listens on 6100, this server dials ${server.port}`);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * zotero_execute_js dryRun: the generated driver runs here against a small
+ * stand-in for Zotero.DB and Zotero.Notifier that behaves like Zotero's
+ * (events queue during a transaction, nested transactions wait).
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildDryRunCode, formatDryRunReport, type DryRunReport } from "../src/tools/dry-run.js";
+
+function fakeZotero() {
+  let inTransaction = false;
+  let running: Promise<unknown> = Promise.resolve();
+  let changes = 0;
+  let total = 0;
+  const objects = { unload: vi.fn(), reload: vi.fn(async () => {}) };
+
+  const zotero = {
+    delivered: [] as string[],
+    committed: false,
+    onTotalChanges: () => {},
+    objects,
+    Notifier: {
+      queued: [] as string[],
+      async trigger(event: string, type: string, ids: number[]) {
+        if (inTransaction) return this.queue(event, type, ids);
+        zotero.delivered.push(`${event} ${type}`);
+      },
+      queue(event: string, type: string) {
+        this.queued.push(`${event} ${type}`);
+      },
+    },
+    DB: {
+      async queryAsync(sql: string) {
+        changes = /^(insert|update|delete)/i.test(sql) ? 2 : 0;
+        total += changes;
+        return [];
+      },
+      async valueQueryAsync(sql: string) {
+        if (sql.includes("total_changes")) zotero.onTotalChanges();
+        return sql.includes("total_changes") ? total : changes;
+      },
+      // Like Zotero's: a call made during a transaction waits for it to end
+      async executeTransaction(func: () => Promise<unknown>): Promise<unknown> {
+        while (inTransaction) await running.catch(() => {});
+        inTransaction = true;
+        const transaction = (async () => {
+          try {
+            const result = await func();
+            zotero.committed = true;
+            return result;
+          } finally {
+            inTransaction = false;
+            zotero.Notifier.queued = [];
+          }
+        })();
+        running = transaction;
+        return transaction;
+      },
+    },
+    DataObjectUtilities: { getObjectsClassForObjectType: () => objects },
+    _mcpDryRun: null as DryRunReport | null,
+  };
+  return zotero;
+}
+
+async function dryRun(code: string, zotero = fakeZotero()) {
+  const originals = { ...zotero.Notifier, ...zotero.DB };
+  vi.stubGlobal("Zotero", zotero);
+  const outcome = await (0, eval)(buildDryRunCode(code)).then(
+    (value: unknown) => ({ value, error: null }),
+    (error: Error) => ({ value: undefined, error })
+  );
+  return { ...outcome, zotero, originals };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("dry run", () => {
+  it("records events and writes, rolls back and restores Zotero", async () => {
+    const { value, error, zotero, originals } = await dryRun(
+      "const id = 7\n" +
+        "await Zotero.DB.executeTransaction(async () => {\n" +
+        '  await Zotero.DB.queryAsync("UPDATE itemData SET valueID = 1 WHERE itemID = ?", [id]);\n' +
+        '  await Zotero.DB.queryAsync("DELETE FROM itemTags WHERE itemID = ?", [id]);\n' +
+        '  await Zotero.Notifier.trigger("modify", "item", [id]);\n' +
+        "})\n" +
+        "id * 2"
+    );
+
+    expect(error).toBeNull();
+    expect(value).toBe(14);
+    expect(zotero.committed).toBe(false);
+    expect(zotero.delivered).toEqual([]);
+    expect(zotero._mcpDryRun).toEqual({
+      rolledBack: true,
+      failed: false,
+      events: [{ event: "modify", type: "item", ids: [7], count: 1 }],
+      tables: { itemData: { statements: 1, rows: 2 }, itemTags: { statements: 1, rows: 2 } },
+      totalChanges: 4,
+      reloaded: 1,
+    });
+    expect(zotero.objects.reload).toHaveBeenCalledWith([7], null, true);
+    expect(zotero.Notifier.trigger).toBe(originals.trigger);
+    expect(zotero.DB.queryAsync).toBe(originals.queryAsync);
+    expect(zotero.DB.executeTransaction).toBe(originals.executeTransaction);
+  });
+
+  it("rolls back and rethrows when the code fails", async () => {
+    const { error, zotero } = await dryRun(
+      'await Zotero.DB.queryAsync("INSERT INTO tags VALUES (1, \'x\')");\n' +
+        'await Zotero.Notifier.trigger("add", "item", [99]);\n' +
+        'throw new Error("merge failed")'
+    );
+
+    expect(error?.message).toBe("merge failed");
+    expect(zotero.committed).toBe(false);
+    expect(zotero._mcpDryRun).toMatchObject({ rolledBack: true, failed: true, totalChanges: 2 });
+    expect(zotero.objects.unload).toHaveBeenCalledWith([99]);
+    expect(formatDryRunReport(zotero._mcpDryRun)).toBe(
+      [
+        "Dry run: rolled back, nothing was saved.",
+        "",
+        "Notifier events (1):",
+        "  add item [99]",
+        "",
+        "Rows changed: 2",
+        "  tags: 2 row(s) in 1 statement(s)",
+        "",
+        "Reloaded 1 cached object(s) from the database.",
+      ].join("\n")
+    );
+  });
+
+  it("makes writes from outside the code wait for the rollback", async () => {
+    const zotero = fakeZotero();
+    let unrelated: Promise<unknown> | undefined;
+    // A sync that starts once the code is done, while the dry run counts changes
+    zotero.onTotalChanges = () => {
+      unrelated ??= zotero.DB.executeTransaction(async () => zotero.DB.queryAsync("INSERT INTO syncCache VALUES (1)"));
+    };
+
+    const { error } = await dryRun(
+      'await Zotero.DB.executeTransaction(async () => Zotero.DB.queryAsync("DELETE FROM items"))',
+      zotero
+    );
+    expect(error).toBeNull();
+    expect(zotero._mcpDryRun).toMatchObject({ rolledBack: true, tables: { items: { statements: 1, rows: 2 } } });
+    expect(zotero.committed).toBe(false);
+
+    await unrelated;
+    expect(zotero.committed).toBe(true);
+  });
+
+  it("lets only the code's calls join, so a transaction started elsewhere meanwhile survives", async () => {
+    const zotero = fakeZotero();
+    let unrelated: Promise<unknown> | undefined;
+    // A sync that starts while the code is between two awaits
+    setTimeout(() => {
+      unrelated = zotero.DB.executeTransaction(async () => zotero.DB.queryAsync("INSERT INTO syncCache VALUES (1)"));
+    }, 5);
+
+    // The write goes through a helper that awaits first, as saveTx does
+    const { error } = await dryRun(
+      "const saveTx = async () => {\n" +
+        "  await null;\n" +
+        '  return Zotero.DB.executeTransaction(async () => Zotero.DB.queryAsync("DELETE FROM items"));\n' +
+        "};\n" +
+        "await new Promise((resolve) => setTimeout(resolve, 20));\n" +
+        "await saveTx()",
+      zotero
+    );
+    expect(error).toBeNull();
+    expect(unrelated).toBeDefined();
+    expect(zotero._mcpDryRun).toMatchObject({ rolledBack: true, totalChanges: 2 });
+    expect(zotero._mcpDryRun?.tables).toEqual({ items: { statements: 1, rows: 2 } });
+    expect(zotero.committed).toBe(false);
+
+    await unrelated;
+    expect(zotero.committed).toBe(true);
+  });
+
+  it("refuses to start while another dry run still has Zotero patched", async () => {
+    const zotero = fakeZotero() as ReturnType<typeof fakeZotero> & { _mcpDryRunAbort?: (() => void) | null };
+    const abortFirst = () => {};
+    zotero._mcpDryRunAbort = abortFirst;
+    zotero._mcpDryRun = { rolledBack: true, failed: false, events: [], tables: {}, totalChanges: 9, reloaded: 0 };
+
+    const { error, originals } = await dryRun('await Zotero.DB.queryAsync("DELETE FROM items")', zotero);
+    expect(error?.message).toMatch(/^Another dry run is still running/);
+    expect(zotero._mcpDryRun).toBeNull();
+    expect(zotero._mcpDryRunAbort).toBe(abortFirst);
+    expect(zotero.DB.executeTransaction).toBe(originals.executeTransaction);
+    expect(zotero.DB.queryAsync).toBe(originals.queryAsync);
+    expect(zotero.Notifier.trigger).toBe(originals.trigger);
+  });
+
+  it("rolls back and restores Zotero when aborted while the code still runs", async () => {
+    const zotero = fakeZotero() as ReturnType<typeof fakeZotero> & { _mcpDryRunAbort?: (() => void) | null };
+    setTimeout(() => zotero._mcpDryRunAbort?.(), 10);
+
+    const { error, originals } = await dryRun(
+      'await Zotero.DB.queryAsync("DELETE FROM items");\nawait new Promise(() => {})',
+      zotero
+    );
+    expect(error?.message).toBe("MCP dry run aborted: the code did not finish in time");
+    expect(zotero._mcpDryRun).toMatchObject({ rolledBack: true, failed: true, totalChanges: 2 });
+    expect(zotero._mcpDryRunAbort).toBeNull();
+    expect(zotero.DB.executeTransaction).toBe(originals.executeTransaction);
+    expect(zotero.DB.queryAsync).toBe(originals.queryAsync);
+  });
+});
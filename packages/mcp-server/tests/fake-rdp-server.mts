@@ -0,0 +1,120 @@
+/**
+ * Minimal local RDP server for client tests.
+ *
+ * Speaks the same <byte_length>:<json> framing as Zotero's DevTools server and
+ * sends the root intro packet on connect; bulk requests arrive with their bytes
+ * in `data`. Each request is handed to `onRequest` together with a `send`
+ * function (and `sendRaw` for hand-built frames), so a test decides when (and
+ * in which order) replies go out. That is all the client's correlation logic can observe, which
+ * is why a fake is sufficient here: ordering across actors is a property of the
+ * wire, not of Zotero.
+ */
+
+import { createServer, type Server, type Socket } from "node:net";
+
+export interface FakeRequest {
+  to: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+export type SendPacket = (packet: Record<string, unknown>) => void;
+
+// Write bytes as they are, e.g. a bulk packet or half of one
+export type SendRaw = (bytes: Buffer) => void;
+
+export interface FakeRdpServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+export const CONSOLE_ACTOR = "server1.conn0.consoleActor4";
+
+/**
+ * Answers the root -> listProcesses -> getTarget bootstrap the client performs
+ * before its first evaluation. Returns true when it handled the request.
+ */
+export function answerBootstrap(request: FakeRequest, send: SendPacket): boolean {
+  if (request.to === "root" && request.type === "getRoot") {
+    send({ from: "root", applicationType: "browser", traits: {} });
+    return true;
+  }
+  if (request.to === "root" && request.type === "listProcesses") {
+    send({ from: "root", processes: [{ actor: "processDescriptor1", id: 0, isParent: true }] });
+    return true;
+  }
+  if (request.to === "processDescriptor1" && request.type === "getTarget") {
+    send({
+      from: "processDescriptor1",
+      process: {
+        actor: "parentProcessTarget1",
+        targetType: "process",
+        title: "Zotero",
+        url: "chrome://zotero/content/zoteroPane.xhtml",
+        consoleActor: CONSOLE_ACTOR,
+      },
+    });
+    return true;
+  }
+  return false;
+}
+
+export function encodePacket(packet: Record<string, unknown>): Buffer {
+  const json = Buffer.from(JSON.stringify(packet), "utf8");
+  return Buffer.concat([Buffer.from(`${json.length}:`, "ascii"), json]);
+}
+
+export async function startFakeRdpServer(
+  onRequest: (request: FakeRequest, send: SendPacket, sendRaw: SendRaw) => void
+): Promise<FakeRdpServer> {
+  const sockets = new Set<Socket>();
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+
+    const send: SendPacket = (packet) => {
+      if (!socket.destroyed) socket.write(encodePacket(packet));
+    };
+
+    const sendRaw: SendRaw = (bytes) => {
+      if (!socket.destroyed) socket.write(bytes);
+    };
+
+    send({ from: "root", applicationType: "browser", traits: {} });
+
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+      while (true) {
+        const colon = buffer.indexOf(0x3a);
+        if (colon === -1) break;
+        const header = buffer.subarray(0, colon).toString("ascii");
+        // Bulk requests: "bulk <actor> <type> <length>:<bytes>"
+        const bulk = header.startsWith("bulk ") ? header.split(" ") : null;
+        const length = parseInt(bulk ? bulk[3] : header, 10);
+        const end = colon + 1 + length;
+        if (buffer.length < end) break;
+        const payload = buffer.subarray(colon + 1, end);
+        const request: FakeRequest = bulk
+          ? { to: bulk[1], type: bulk[2], bulk: true, data: Buffer.from(payload) }
+          : (JSON.parse(payload.toString("utf8")) as FakeRequest);
+        buffer = buffer.subarray(end);
+        onRequest(request, send, sendRaw);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+
+  return {
+    port,
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
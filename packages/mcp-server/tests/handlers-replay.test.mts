@@ -0,0 +1,224 @@
+/**
+ * Tool handlers against recorded RDP sessions.
+ *
+ * The sessions in fixtures/replay/ are synthetic, not recordings of Zotero:
+ * they were assembled by hand from the fake server's packets, in the shapes a
+ * Zotero 7 DevTools server (Firefox 115 ESR) sends: actor names with the
+ * connection prefix, acknowledged evaluateJSAsync requests with their
+ * evaluationResult, object grips with property descriptors, and long strings
+ * above the server's 10,000-character threshold. The Zotero 8 debug log
+ * session differs only in its version numbers. Result IDs, timestamps and the
+ * screenshot's data (the PNG signature repeated, not an image) are
+ * placeholders. So they pin what the handlers send and how they parse those
+ * shapes, not how a real Zotero answers; replace a session with one recorded
+ * with ZOTERO_RDP_RECORD when one is available.
+ *
+ * Each handler replays one and must send exactly the recorded requests: none
+ * the session has no reply for (`unmatched`) and none that only share an actor
+ * and type with a recorded one (`inexact`). Update the session when a
+ * handler's evaluated code changes.
+ *
+ * Recording itself is checked against the fake server.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { RDPClient } from "../src/rdp/client.js";
+import { instanceRecordPath, readRecording } from "../src/rdp/recording.js";
+import { startReplayServer, type ReplayServer } from "../src/rdp/replay.js";
+import {
+  CONSOLE_ACTOR,
+  answerBootstrap,
+  startFakeRdpServer,
+  type FakeRdpServer,
+  type FakeRequest,
+  type SendPacket,
+} from "./fake-rdp-server.mjs";
+
+// Handlers get their client from the server entry point
+const holder = vi.hoisted(() => ({ client: undefined as RDPClient | undefined }));
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => {
+    if (!holder.client) throw new Error("No client");
+    return holder.client;
+  },
+}));
+
+const { handleScreenshot } = await import("../src/tools/screenshot.js");
+const { handlePluginList } = await import("../src/tools/plugins.js");
+const { handleDbStats } = await import("../src/tools/database.js");
+const { handleReadLogs } = await import("../src/tools/logs.js");
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "replay");
+
+const PLUGINS_JSON = JSON.stringify([
+  {
+    id: "make-it-red@zotero.org",
+    name: "Make It Red",
+    version: "1.2.0",
+    type: "extension",
+    enabled: true,
+    temporarilyInstalled: true,
+    installPath: "/home/dev/make-it-red/build",
+    description: "Makes everything red",
+  },
+]);
+
+// A fake Zotero for the recording tests: plugin list requests only
+function fakeZotero(request: FakeRequest, send: SendPacket): void {
+  if (answerBootstrap(request, send)) return;
+  if (request.type === "evaluateJSAsync") {
+    const resultID = `result-${String(request.text).length}`;
+    send({ from: CONSOLE_ACTOR, resultID });
+    send({ from: CONSOLE_ACTOR, type: "evaluationResult", resultID, result: PLUGINS_JSON });
+    return;
+  }
+  send({ from: request.to, error: "unknownRequest" });
+}
+
+const tempDir = mkdtempSync(join(tmpdir(), "zotero-rdp-replay-"));
+let fake: FakeRdpServer | undefined;
+let replay: ReplayServer | undefined;
+
+afterEach(async () => {
+  holder.client?.disconnect();
+  holder.client = undefined;
+  await fake?.close();
+  fake = undefined;
+  await replay?.close();
+  replay = undefined;
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+async function useClient(port: number, recordPath?: string): Promise<void> {
+  holder.client?.disconnect();
+  holder.client = new RDPClient({
+    host: "127.0.0.1",
+    port,
+    timeout: 2000,
+    maxReconnectAttempts: 0,
+    recordPath,
+  });
+  holder.client.setKeepaliveEnabled(false);
+  await holder.client.connect();
+}
+
+/**
+ * Connect to a replay of a recorded session
+ */
+async function replaySession(path: string): Promise<void> {
+  replay = await startReplayServer(path);
+  await useClient(replay.port);
+}
+
+/**
+ * Run a handler against the fake while recording
+ */
+async function record<T>(name: string, run: () => Promise<T>): Promise<{ path: string; live: T }> {
+  const path = join(tempDir, `${name}.jsonl`);
+  fake = await startFakeRdpServer(fakeZotero);
+  await useClient(fake.port, path);
+  const live = await run();
+  holder.client?.disconnect();
+  await fake.close();
+  fake = undefined;
+  return { path, live };
+}
+
+describe("tool handlers on replayed sessions", () => {
+  it("replays a screenshot fetched as a long string", async () => {
+    await replaySession(join(FIXTURES, "screenshot.jsonl"));
+    const content = await handleScreenshot({});
+
+    expect(content[0]).toMatchObject({ type: "image", mimeType: "image/png", data: "iVBORw0KGgo".repeat(1000) });
+    expect(content[1]).toMatchObject({ type: "text", text: expect.stringContaining("Size: 800×600") });
+    expect(replay?.unmatched).toEqual([]);
+    expect(replay?.inexact).toEqual([]);
+  });
+
+  // The negotiated version picks the Zotero.Debug method; the fallbacks are
+  // only for an unknown version
+  it.each([
+    ["7", "read-logs-zotero7.jsonl", "(3)(+0000015): Notifier.trigger('modify', 'item', [12])"],
+    ["8", "read-logs-zotero8.jsonl", "(5)(+0000121): Make It Red: item pane section rendered"],
+  ])("replays debug log lines read the Zotero %s way", async (_version, fixture, lastLine) => {
+    await replaySession(join(FIXTURES, fixture));
+    const evaluate = vi.spyOn(holder.client!, "evaluateJS");
+    const [{ text }] = await handleReadLogs({ lines: 50 });
+
+    expect(text).toMatch(/^Debug logs \(2 lines\):\n\n.*Make It Red: startup\n/);
+    expect(text.endsWith(lastLine)).toBe(true);
+    const code = evaluate.mock.calls.map(([code]) => code).find((code) => code.includes("Zotero.Debug"));
+    expect(code).toContain("Zotero.Debug.getConsoleViewerOutput()");
+    expect(code).not.toContain("Zotero.Debug.get()");
+    expect(code).not.toContain("Zotero.Debug._output");
+    expect(replay?.unmatched).toEqual([]);
+    expect(replay?.inexact).toEqual([]);
+  });
+
+  it("replays database stats returned as an object grip", async () => {
+    await replaySession(join(FIXTURES, "db-stats.jsonl"));
+    const [{ text }] = await handleDbStats();
+
+    expect(text).toContain("Size: 10.0 MB");
+    expect(text).toContain(`Items: ${(1204).toLocaleString()}`);
+    expect(replay?.unmatched).toEqual([]);
+    expect(replay?.inexact).toEqual([]);
+  });
+
+  it("replays the plugin list", async () => {
+    await replaySession(join(FIXTURES, "plugin-list.jsonl"));
+    const [{ text }] = await handlePluginList();
+
+    expect(text).toContain("• Make It Red v1.2.0 [dev]");
+    expect(replay?.unmatched).toEqual([]);
+    expect(replay?.inexact).toEqual([]);
+  });
+
+  it("records both directions in wire order, and replays the recording", async () => {
+    const { path, live } = await record("wire-order", () => handlePluginList());
+
+    const recording = readRecording(path);
+    expect(recording[0]).toMatchObject({ dir: "recv", packet: { from: "root" } });
+    const evaluate = recording.findIndex((e) => e.packet.type === "evaluateJSAsync");
+    expect(recording[evaluate].dir).toBe("send");
+    expect(recording[evaluate + 1]).toMatchObject({ dir: "recv", packet: { from: CONSOLE_ACTOR } });
+
+    await replaySession(path);
+    expect(await handlePluginList()).toEqual(live);
+    expect(replay?.unmatched).toEqual([]);
+    expect(replay?.inexact).toEqual([]);
+  });
+
+  it("names each instance's recording after the instance", () => {
+    expect(instanceRecordPath("/tmp/rdp/session.jsonl", "beta")).toBe("/tmp/rdp/session.beta.jsonl");
+    expect(instanceRecordPath("/tmp/rdp/session", "7")).toBe("/tmp/rdp/session.7");
+  });
+
+  it("reports requests that match a recorded one only by actor and type", async () => {
+    await replaySession(join(FIXTURES, "plugin-list.jsonl"));
+    await holder.client!.evaluateJS("Zotero.version", 0);
+
+    expect(replay?.inexact).toEqual([
+      expect.objectContaining({ to: "server1.conn0.consoleActor3", type: "evaluateJSAsync", text: "Zotero.version" }),
+    ]);
+    expect(replay?.unmatched).toEqual([]);
+  });
+
+  it("reports requests the recording has no reply for", async () => {
+    await replaySession(join(FIXTURES, "plugin-list.jsonl"));
+    await handlePluginList();
+
+    // A handler that sends something new fails instead of hanging
+    await expect(handleDbStats()).rejects.toThrow();
+    expect(replay?.unmatched).toEqual([
+      expect.objectContaining({ to: "server1.conn0.consoleActor3", type: "evaluateJSAsync" }),
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * HAR export of captured network entries. buildHar is pure: it only reshapes
+ * what zotero_network_capture collected, so no Zotero is needed.
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildHar, type NetworkEntry } from "../src/utils/har.js";
+
+function entry(overrides: Partial<NetworkEntry> = {}): NetworkEntry {
+  return {
+    id: 1,
+    startedDateTime: "2026-10-18T10:00:00.000Z",
+    time: 182.4,
+    method: "POST",
+    url: "https://api.crossref.org/works?query=zotero&rows=2",
+    httpVersion: "HTTP/2",
+    status: 200,
+    statusText: "OK",
+    error: null,
+    fromCache: false,
+    requestHeaders: [{ name: "Content-Type", value: "application/json" }],
+    responseHeaders: [{ name: "content-type", value: "application/json; charset=utf-8" }],
+    requestBody: { text: '{"q":1}', size: 7, mimeType: "application/json", truncated: false },
+    responseBody: { text: '{"status":"ok"', size: 5120, mimeType: "application/json", truncated: true },
+    timings: { blocked: 1, dns: 4, connect: 20, ssl: 12, send: 0, wait: 140, receive: 5 },
+    initiator: { plugin: "crossref-lookup@example.com", frame: "chrome://crossref/content/index.js:42" },
+    ...overrides,
+  };
+}
+
+describe("buildHar", () => {
+  it("maps a captured request to a HAR 1.2 entry", () => {
+    const har = buildHar([entry()], { name: "mcp-server-zotero-dev", version: "1.1.3" }, { name: "Zotero", version: "7.0.11" }) as {
+      log: { version: string; browser: unknown; entries: Array<Record<string, any>> };
+    };
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.browser).toEqual({ name: "Zotero", version: "7.0.11" });
+
+    const [harEntry] = har.log.entries;
+    expect(harEntry.request).toMatchObject({
+      method: "POST",
+      httpVersion: "HTTP/2",
+      queryString: [
+        { name: "query", value: "zotero" },
+        { name: "rows", value: "2" },
+      ],
+      postData: { mimeType: "application/json", text: '{"q":1}' },
+      bodySize: 7,
+    });
+    expect(harEntry.response.content).toEqual({
+      size: 5120,
+      mimeType: "application/json",
+      text: '{"status":"ok"',
+      comment: "Truncated to 14 of 5120 bytes",
+    });
+    expect(harEntry.timings.wait).toBe(140);
+    expect(harEntry._initiator.plugin).toBe("crossref-lookup@example.com");
+  });
+
+  it("keeps failed and pending requests with status 0", () => {
+    const har = buildHar(
+      [
+        entry({ id: 2, status: null, error: "NS_ERROR_UNKNOWN_HOST", responseHeaders: [], responseBody: null, timings: null, time: -1 }),
+      ],
+      { name: "mcp-server-zotero-dev", version: "1.1.3" }
+    ) as { log: { entries: Array<Record<string, any>> } };
+
+    const [harEntry] = har.log.entries;
+    expect(harEntry.response).toMatchObject({ status: 0, statusText: "NS_ERROR_UNKNOWN_HOST", bodySize: -1 });
+    expect(harEntry.time).toBe(0);
+    expect(harEntry.timings).toMatchObject({ blocked: -1, dns: -1, connect: -1 });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * zotero_watch_notifier and zotero_notifier_trigger: the generated code runs
+ * in Node against a stand-in Zotero.Notifier that delivers events like
+ * Zotero's (announcing each observer on Zotero.debug, passing what it throws
+ * to Zotero.logError); the stubbed RDP client evaluates it.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => ({
+    evaluateJS: async (code: string) => ({ result: await (0, eval)(code) }),
+    gripToValueAsync: async (value: unknown) => value,
+  }),
+}));
+
+const { handleTriggerNotifier, handleWatchNotifier } = await import("../src/tools/notifier.js");
+
+type Observer = { notify: (event: string, type: string, ids: unknown[], extraData: unknown) => unknown };
+
+class ScriptError {
+  static warningFlag = 1;
+  constructor(
+    public errorMessage: string,
+    public sourceName: string,
+    public lineNumber: number,
+    public flags = 0,
+    public timeStamp = Date.now()
+  ) {}
+}
+
+function fakeNotifier() {
+  const observers = new Map<string, { observer: Observer; types?: string[] }>();
+  const deliver = async (event: string, type: string, ids: unknown[], extraData: unknown) => {
+    if (!["item", "collection-item", "tab", "setting"].includes(type)) {
+      throw new Error(`Invalid type '${type}' in Notifier.trigger()`);
+    }
+    for (const [key, { observer, types }] of observers) {
+      if (types && !types.includes(type)) continue;
+      Zotero.debug(`Calling notify() with ${event}/${type} on observer with id '${key}'`, 5);
+      try {
+        await observer.notify(event, type, ids, extraData);
+      } catch (error) {
+        Zotero.logError(error);
+      }
+    }
+  };
+  return {
+    observers,
+    Queue: class {
+      events: unknown[][] = [];
+    },
+    queue(event: string, type: string, ids: unknown[], extraData: unknown, queue: { events: unknown[][] }) {
+      queue.events.push([event, type, ids, extraData]);
+    },
+    async commit(queue: { events: [string, string, unknown[], unknown][] }) {
+      for (const args of queue.events) await deliver(...args);
+    },
+    registerObserver(observer: Observer, types: string[] | undefined, id: string) {
+      const key = `${id}_${observers.size}`;
+      observers.set(key, { observer, types });
+      return key;
+    },
+    unregisterObserver(key: string) {
+      observers.delete(key);
+    },
+    trigger(event: string, type: string, ids: unknown[], extraData: unknown = {}) {
+      return deliver(event, type, ids, extraData);
+    },
+  };
+}
+
+let notifier: ReturnType<typeof fakeNotifier>;
+let consoleMessages: ScriptError[];
+
+beforeEach(() => {
+  notifier = fakeNotifier();
+  consoleMessages = [new ScriptError("An old error", "chrome://zotero/content/zotero.js", 1, 0, 0)];
+  vi.stubGlobal("Zotero", {
+    Notifier: notifier,
+    debug: () => {},
+    logError: (error: Error) => consoleMessages.push(new ScriptError(String(error), "", 0)),
+  });
+  vi.stubGlobal("Services", { console: { getMessageArray: () => consoleMessages } });
+  vi.stubGlobal("Ci", { nsIScriptError: ScriptError });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const watch = async (args: Record<string, unknown>) => (await handleWatchNotifier(args))[0].text;
+
+describe("zotero_watch_notifier", () => {
+  it("records events of the chosen types with their extraData", async () => {
+    expect(await watch({ action: "get" })).toContain("not started");
+    expect(await watch({ action: "start", types: ["item", "collection-item"] })).toBe(
+      "Notifier recording started for item, collection-item"
+    );
+
+    notifier.trigger("modify", "item", [12], { 12: { changed: { title: true } } });
+    notifier.trigger("select", "tab", ["zotero-pane"]);
+    notifier.trigger("add", "collection-item", ["3-12"]);
+
+    const text = await watch({ action: "get" });
+    expect(text).toMatch(/^Recorded 2 notifier event\(s\) \(item, collection-item\):\n\n\[/);
+    expect(text).toContain('] modify item [12]\n  extraData: {"12":{"changed":{"title":true}}}');
+    expect(text).toMatch(/\] add collection-item \["3-12"\]$/);
+    expect(await watch({ action: "get" })).toBe("No notifier events (item, collection-item) since last check");
+
+    expect(await watch({ action: "stop" })).toBe("Notifier recording stopped");
+    expect(notifier.observers.size).toBe(0);
+  });
+
+  it("waits for a matching event, counting ones that arrived first", async () => {
+    await watch({ action: "start" });
+
+    notifier.trigger("add", "item", [5]);
+    expect(await watch({ action: "wait", event: "add", type: "item" })).toMatch(/^Already recorded:\n\[.*\] add item \[5\]/);
+
+    setTimeout(() => {
+      notifier.trigger("modify", "item", [5]);
+      notifier.trigger("add", "item", [6]);
+    }, 20);
+    expect(await watch({ action: "wait", event: "add", id: "6" })).toMatch(
+      /^Received after \d+ms:\n\[.*\] add item \[6\]\n\n3 event\(s\) unread/
+    );
+
+    expect(await watch({ action: "wait", event: "trash", timeoutMs: 20 })).toBe(
+      "No trash event within 20ms. Check the recorded types, or use action='get' to see what did fire."
+    );    await expect(watch({ action: "wait", event: "trash", timeoutMs: "20; alert()" })).rejects.toThrow(
+      "timeoutMs must be a non-negative number of milliseconds"
+    );
+  });
+});
+
+describe("zotero_notifier_trigger", () => {
+  it("delivers a synthetic event and reports observers and their errors", async () => {
+    const received: unknown[] = [];
+    notifier.registerObserver({ notify: (...args) => received.push(args) }, ["item"], "itemTreeView");
+    notifier.registerObserver(
+      {
+        notify: async (event, type, ids, extraData) => {
+          setTimeout(() => {
+            consoleMessages.push(new ScriptError("Deprecated call", "chrome://myplugin/content/hooks.js", 9, 1));
+          }, 5);
+          throw new TypeError(`No item for ${(extraData as Record<string, { key: string }>)[String(ids[0])].key}`);
+        },
+      },
+      undefined,
+      "myplugin"
+    );
+    notifier.registerObserver({ notify: () => {} }, ["tab"], "tabs");
+
+    const { debug, logError } = Zotero;
+    const text = (
+      await handleTriggerNotifier({
+        event: "delete",
+        type: "item",
+        ids: [12],
+        extraData: { 12: { libraryID: 1, key: "ABCD2345" } },
+        settleMs: 20,
+      })
+    )[0].text;
+
+    expect(received).toEqual([["delete", "item", [12], { 12: { libraryID: 1, key: "ABCD2345" } }]]);
+    // Durations vary, and Node's error stacks start with the message rather than a frame
+    expect(text.replace(/\(\d+ ms\)/g, "(N ms)").replace(/\n {8}at .*/g, "")).toBe(
+      [
+        'Triggered delete/item [12] with extraData {"12":{"libraryID":1,"key":"ABCD2345"}}',
+        "",
+        "Delivered to 2 observer(s), in order:",
+        "  ✓ itemTreeView_0 (N ms)",
+        "  ✗ myplugin_1 (N ms)",
+        "      TypeError: No item for ABCD2345",
+        "",
+        "Error console, since the event was fired (2):",
+        "  [error] TypeError: No item for ABCD2345",
+        "  [warning] Deprecated call (chrome://myplugin/content/hooks.js:9)",
+      ].join("\n")
+    );
+    expect(Zotero.debug).toBe(debug);
+    expect(Zotero.logError).toBe(logError);
+  });
+
+  it("commits a queued event and passes on rejections", async () => {
+    const received: unknown[] = [];
+    notifier.registerObserver({ notify: (...args) => received.push(args) }, ["tab"], "tabs");
+
+    const text = (await handleTriggerNotifier({ event: "refresh", type: "tab", ids: ["zotero-pane"], queue: true }))[0]
+      .text;
+    expect(text).toMatch(/^Queued and committed refresh\/tab \["zotero-pane"\]\n\nDelivered to 1 observer\(s\)/);
+    expect(received).toEqual([["refresh", "tab", ["zotero-pane"], {}]]);
+
+    await expect(handleTriggerNotifier({ event: "add", type: "bogus" })).rejects.toThrow(
+      "Notifier rejected the event: Invalid type 'bogus' in Notifier.trigger()"
+    );
+    await expect(handleTriggerNotifier({ event: "add", type: "item", settleMs: -1 })).rejects.toThrow(
+      "settleMs must be a non-negative number of milliseconds"
+    );
+  });
+});
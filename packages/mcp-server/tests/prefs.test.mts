@@ -0,0 +1,164 @@
+/**
+ * zotero_pref_snapshot and zotero_watch_prefs: save, diff, restore and watch
+ * against a stand-in Services.prefs with defaults, user values and
+ * observers, in a temporary directory. The stubbed RDP client runs the
+ * generated code in Node.
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => ({
+    evaluateJS: async (code: string) => ({ result: (0, eval)(code) }),
+    gripToValueAsync: async (value: unknown) => value,
+  }),
+}));
+
+const { diffPrefSnapshots, handlePrefSnapshot, handleWatchPrefs } = await import("../src/tools/prefs.js");
+
+type Value = string | number | boolean;
+
+function fakePrefs(defaults: Record<string, Value>) {
+  const user = new Map<string, Value>();
+  const observers = new Map<string, { observe: (subject: null, topic: string, key: string) => void }>();
+  const write = (key: string, value: Value) => {
+    user.set(key, value);
+    for (const [branch, observer] of observers) {
+      if (key.startsWith(branch)) observer.observe(null, "nsPref:changed", key);
+    }
+  };
+  const current = (key: string) => (user.has(key) ? user.get(key) : defaults[key]);
+  const typeOf = (key: string) => {
+    const value = current(key);
+    if (value === undefined) return 0;
+    return typeof value === "string" ? 32 : typeof value === "number" ? 64 : 128;
+  };
+  return {
+    user,
+    PREF_STRING: 32,
+    PREF_INT: 64,
+    PREF_BOOL: 128,
+    getPrefType: typeOf,
+    getChildList: (branch: string) =>
+      [...new Set([...Object.keys(defaults), ...user.keys()])].filter((key) => key.startsWith(branch)),
+    getStringPref: current,
+    getIntPref: current,
+    getBoolPref: current,
+    prefHasUserValue: (key: string) => user.has(key),
+    clearUserPref: (key: string) => user.delete(key),
+    setStringPref: write,
+    setIntPref: write,
+    setBoolPref: write,
+    observers,
+    addObserver: (branch: string, observer: never) => observers.set(branch, observer),
+    removeObserver: (branch: string) => observers.delete(branch),
+  };
+}
+
+let directory: string;
+let prefs: ReturnType<typeof fakePrefs>;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), "zotero-prefs-"));
+  prefs = fakePrefs({
+    "extensions.myplugin.enabled": true,
+    "extensions.myplugin.limit": 10,
+    "extensions.zotero.debug.log": false,
+  });
+  prefs.user.set("extensions.myplugin.style", "apa");
+  vi.stubGlobal("Services", { prefs });
+  vi.stubGlobal("Zotero", { version: "7.0.11" });
+  vi.stubGlobal("ChromeUtils", { generateQI: () => () => {} });
+  // The observer's caller: the plugin code that wrote the pref
+  vi.stubGlobal("Components", {
+    stack: {
+      caller: {
+        name: "savePrefs",
+        filename: "chrome://myplugin/content/prefs.js",
+        lineNumber: 42,
+        columnNumber: 7,
+        caller: { name: "onCommand", filename: "chrome://myplugin/content/pane.js", lineNumber: 9, columnNumber: 3 },
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+const run = async (args: Record<string, unknown>) => (await handlePrefSnapshot({ directory, ...args }))[0].text;
+
+describe("zotero_pref_snapshot", () => {
+  it("saves a branch, diffs it against the current prefs and restores it", async () => {
+    expect(await run({ action: "save", name: "before", branch: "extensions.myplugin." })).toContain(
+      "Saved 3 pref(s) from extensions.myplugin."
+    );
+    const saved = JSON.parse(readFileSync(join(directory, "before.json"), "utf8"));
+    expect(saved.prefs["extensions.myplugin.style"]).toEqual({ type: "string", value: "apa", userSet: true });
+    expect(saved.prefs["extensions.zotero.debug.log"]).toBeUndefined();
+
+    // What a settings pane might write
+    prefs.user.set("extensions.myplugin.limit", 25);
+    prefs.user.set("extensions.myplugin.lastRun", "2026-10-18");
+    prefs.user.delete("extensions.myplugin.style");
+
+    expect(await run({ action: "diff", from: "before" })).toBe(
+      [
+        '3 difference(s) from "before" to the current prefs:',
+        "",
+        "Added (1):",
+        '  + extensions.myplugin.lastRun = "2026-10-18" (string)',
+        "",
+        "Removed (1):",
+        '  - extensions.myplugin.style = "apa" (string)',
+        "",
+        "Changed (1):",
+        "  ~ extensions.myplugin.limit: 10 (int, default) → 25 (int)",
+      ].join("\n")
+    );
+
+    expect(await run({ action: "restore", name: "before" })).toContain("1 set, 2 reset to default, 1 unchanged");
+    expect([...prefs.user.entries()]).toEqual([["extensions.myplugin.style", "apa"]]);
+    expect(await run({ action: "diff", from: "before" })).toBe('No differences between "before" and the current prefs.');
+  });
+
+  it("reports type changes and refuses bad names", async () => {
+    const diff = diffPrefSnapshots(
+      { name: "a", branch: "", createdAt: "", prefs: { x: { type: "int", value: 1, userSet: true } } },
+      { name: "b", branch: "", createdAt: "", prefs: { x: { type: "string", value: "1", userSet: true } } }
+    );
+    expect(diff.changed).toHaveLength(1);
+
+    await expect(run({ action: "save", name: "../escape" })).rejects.toThrow(/Invalid snapshot name/);
+    await expect(run({ action: "diff", from: "missing" })).rejects.toThrow(/No snapshot named "missing"/);
+  });
+});
+
+describe("zotero_watch_prefs", () => {
+  const watch = async (args: Record<string, unknown>) => (await handleWatchPrefs(args))[0].text;
+
+  it("records changes with old and new values and the writer's stack", async () => {
+    expect(await watch({ action: "get" })).toContain("not started");
+    expect(await watch({ action: "start", branch: "extensions.myplugin.*" })).toBe(
+      "Pref watching started on extensions.myplugin. (3 prefs)"
+    );
+
+    prefs.setIntPref("extensions.myplugin.limit", 25);
+    prefs.setBoolPref("extensions.zotero.debug.log", true);
+    prefs.setStringPref("extensions.myplugin.lastRun", "today");
+
+    const text = await watch({ action: "get" });
+    expect(text).toMatch(/^Recorded 2 pref change\(s\) under extensions\.myplugin\.:/);
+    expect(text).toMatch(/\] extensions\.myplugin\.limit: 10 \(int\) → 25 \(int\)\n  by savePrefs@chrome:\/\/myplugin\/content\/prefs\.js:42:7\n {5}onCommand@/);
+    expect(text).toContain('extensions.myplugin.lastRun: (not set) → "today" (string)');
+    expect(await watch({ action: "get" })).toBe("No pref changes under extensions.myplugin. since last check");
+
+    expect(await watch({ action: "stop" })).toBe("Pref watching stopped");
+    expect(prefs.observers.size).toBe(0);
+  });
+});
@@ -0,0 +1,623 @@
+/**
+ * RDPClient request/response correlation, against a local fake RDP server.
+ *
+ * Replies are deliberately sent out of order across actors and evaluation
+ * results out of order across resultIDs, which is what Zotero does when two
+ * tool calls are in flight at once.
+ */
+
+import { afterEach, describe, expect, it } from "vitest";
+import { RDPClient, RequestAbortedError } from "../src/rdp/client.js";
+import { encodeBulkPacket, encodePacket } from "../src/rdp/framing.js";
+import { hasActor, hasTrait, zoteroMajorVersion } from "../src/rdp/capabilities.js";
+import {
+  CONSOLE_ACTOR,
+  answerBootstrap,
+  startFakeRdpServer,
+  type FakeRdpServer,
+  type FakeRequest,
+  type SendPacket,
+  type SendRaw,
+} from "./fake-rdp-server.mjs";
+
+let server: FakeRdpServer | undefined;
+let client: RDPClient | undefined;
+
+afterEach(async () => {
+  client?.disconnect();
+  client = undefined;
+  await server?.close();
+  server = undefined;
+});
+
+async function connect(
+  onRequest: (request: FakeRequest, send: SendPacket, sendRaw: SendRaw) => void,
+  timeout = 2000
+): Promise<RDPClient> {
+  server = await startFakeRdpServer(onRequest);
+  client = new RDPClient({ host: "127.0.0.1", port: server.port, timeout, maxReconnectAttempts: 0 });
+  client.setKeepaliveEnabled(false);
+  await client.connect();
+  return client;
+}
+
+describe("RDPClient correlation", () => {
+  it("routes replies by actor when they arrive out of order", async () => {
+    const held: Array<() => void> = [];
+    const rdp = await connect((request, send) => {
+      held.push(() => send({ from: request.to, echo: request.type }));
+      if (held.length === 2) {
+        // Answer the second actor first
+        held.reverse().forEach((reply) => reply());
+      }
+    });
+
+    const [a, b] = await Promise.all([
+      rdp.sendMessage({ to: "actorA", type: "first" }),
+      rdp.sendMessage({ to: "actorB", type: "second" }),
+    ]);
+
+    expect(a).toMatchObject({ from: "actorA", echo: "first" });
+    expect(b).toMatchObject({ from: "actorB", echo: "second" });
+  });
+
+  it("keeps FIFO order for requests to the same actor", async () => {
+    const rdp = await connect((request, send) => {
+      send({ from: request.to, echo: request.type });
+    });
+
+    const replies = await Promise.all(
+      ["one", "two", "three"].map((type) => rdp.sendMessage({ to: "actorA", type }))
+    );
+
+    expect(replies.map((r) => r.echo)).toEqual(["one", "two", "three"]);
+  });
+
+  it("matches evaluationResult packets to their resultID", async () => {
+    const results: Array<() => void> = [];
+    let nextResultID = 0;
+    const rdp = await connect((request, send) => {
+      if (answerBootstrap(request, send)) return;
+      if (request.type === "evaluateJSAsync") {
+        const resultID = `result-${++nextResultID}`;
+        send({ from: CONSOLE_ACTOR, resultID });
+        results.push(() =>
+          send({
+            from: CONSOLE_ACTOR,
+            type: "evaluationResult",
+            resultID,
+            input: request.text,
+            result: `value of ${request.text as string}`,
+          })
+        );
+        if (results.length === 2) {
+          results.reverse().forEach((reply) => reply());
+        }
+      }
+    });
+
+    const [first, second] = await Promise.all([rdp.evaluateJS("first()"), rdp.evaluateJS("second()")]);
+
+    expect(first.result).toBe("value of first()");
+    expect(second.result).toBe("value of second()");
+  });
+
+  it("does not let an interleaved event or another actor's reply resolve an evaluation", async () => {
+    const rdp = await connect((request, send) => {
+      if (answerBootstrap(request, send)) return;
+      if (request.type === "evaluateJSAsync") {
+        send({ from: CONSOLE_ACTOR, resultID: "r1" });
+        send({ from: CONSOLE_ACTOR, type: "consoleAPICall", message: { arguments: ["noise"] } });
+        return;
+      }
+      if (request.to === "actorB") {
+        send({ from: "actorB", substring: "other" });
+        send({ from: CONSOLE_ACTOR, type: "evaluationResult", resultID: "r1", result: 42 });
+      }
+    });
+
+    const evaluation = rdp.evaluateJS("21 * 2");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const other = await rdp.sendMessage({ to: "actorB", type: "substring" });
+
+    expect(other).toMatchObject({ substring: "other" });
+    expect((await evaluation).result).toBe(42);
+  });
+
+  it("rejects only the request whose actor answered with an error", async () => {
+    const rdp = await connect((request, send) => {
+      if (request.to === "actorA") {
+        setTimeout(() => send({ from: "actorA", ok: true }), 20);
+      } else {
+        send({ from: request.to, error: "noSuchActor", message: "No such actor for ID: actorB" });
+      }
+    });
+
+    const [a, b] = await Promise.allSettled([
+      rdp.sendMessage({ to: "actorA", type: "ping" }),
+      rdp.sendMessage({ to: "actorB", type: "ping" }),
+    ]);
+
+    expect(a).toMatchObject({ status: "fulfilled", value: { ok: true } });
+    expect(b).toMatchObject({ status: "rejected" });
+    expect((b as PromiseRejectedResult).reason.message).toContain("No such actor");
+  });
+
+  it("discards the late reply of a timed-out request instead of handing it to the next one", async () => {
+    let count = 0;
+    let chatter: NodeJS.Timeout | undefined;
+    const rdp = await connect((request, send) => {
+      // Unrelated console traffic keeps the socket from idling out while the
+      // slow request is pending
+      chatter ??= setInterval(() => send({ from: CONSOLE_ACTOR, type: "consoleAPICall" }), 100);
+      const n = ++count;
+      // The first reply arrives after the client gave up on it; the second
+      // follows it, as an actor answers in order
+      setTimeout(() => send({ from: request.to, n }), n === 1 ? 400 : 150);
+    }, 300);
+
+    try {
+      await expect(rdp.sendMessage({ to: "actorA", type: "slow" })).rejects.toThrow("Request timeout");
+      const next = await rdp.sendMessage({ to: "actorA", type: "next" });
+
+      expect(next).toMatchObject({ n: 2 });
+    } finally {
+      clearInterval(chatter);
+    }
+  });
+});
+
+describe("RDPClient grip expansion", () => {
+  const objectGrip = (actor: string, className: string, kind = "Object") => ({
+    type: "object",
+    actor,
+    class: className,
+    preview: { kind },
+  });
+
+  // A small object graph: { item: { title, tags: Map }, list: [1, 2, 3] }
+  function answerObjectActors(request: FakeRequest, send: SendPacket): void {
+    if (request.type === "release") {
+      send({ from: request.to });
+    } else if (request.type === "prototypeAndProperties") {
+      const properties: Record<string, Record<string, unknown>> = {
+        root: { item: { value: objectGrip("item", "Object") }, list: { value: objectGrip("list", "Array", "ArrayLike") } },
+        item: {
+          title: { value: "A title" },
+          tags: { value: objectGrip("tags", "Map", "MapLike") },
+          self: { value: objectGrip("item", "Object") },
+          computed: { get: { type: "object", actor: "getter", class: "Function" }, set: { type: "undefined" } },
+        },
+      };
+      send({ from: request.to, prototype: { type: "null" }, ownProperties: properties[request.to] ?? {} });
+    } else if (request.type === "enumProperties") {
+      send({ from: request.to, iterator: { actor: "listIterator", count: 3 } });
+    } else if (request.type === "enumEntries") {
+      send({ from: request.to, iterator: { actor: "tagsIterator", count: 1 } });
+    } else if (request.type === "slice" && request.to === "listIterator") {
+      const ownProperties: Record<string, unknown> = {};
+      for (let i = request.start as number; i < (request.count as number); i++) {
+        ownProperties[String(i)] = { value: i + 1 };
+      }
+      send({ from: request.to, ownProperties });
+    } else if (request.type === "slice" && request.to === "tagsIterator") {
+      send({
+        from: request.to,
+        ownProperties: { 0: { value: { type: "mapEntry", preview: { key: "color", value: { type: "undefined" } } } } },
+      });
+    }
+  }
+
+  it("expands nested objects, arrays and Maps through their actors", async () => {
+    const rdp = await connect(answerObjectActors);
+
+    const { value, truncated } = await rdp.expandGrip(objectGrip("root", "Object"));
+
+    expect(truncated).toBe(false);
+    expect(value).toEqual({
+      item: {
+        title: "A title",
+        tags: { __class__: "Map", size: 1, entries: [["color", undefined]] },
+        self: "[Circular Object]",
+        computed: "[Getter]",
+      },
+      list: [1, 2, 3],
+    });
+  });
+
+  it("releases the actors it created, but not the grip it was given", async () => {
+    const released: string[] = [];
+    const rdp = await connect((request, send) => {
+      if (request.type === "release") released.push(request.to);
+      answerObjectActors(request, send);
+    });
+
+    await rdp.expandGrip(objectGrip("root", "Object"));
+
+    expect(released.sort()).toEqual(["getter", "item", "list", "listIterator", "tags", "tagsIterator"]);
+  });
+
+  it("stops at the node budget and reports the expansion as truncated", async () => {
+    const rdp = await connect(answerObjectActors);
+
+    const { value, truncated } = await rdp.expandGrip(objectGrip("list", "Array", "ArrayLike"), { maxNodes: 2 });
+
+    expect(truncated).toBe(true);
+    expect(value).toEqual([1, 2, "[… 1 more]"]);
+  });
+
+  it("falls back to the preview below the depth limit", async () => {
+    const rdp = await connect(answerObjectActors);
+
+    const { value, truncated } = await rdp.expandGrip(objectGrip("root", "Object"), { maxDepth: 1 });
+
+    expect(truncated).toBe(true);
+    expect(value).toEqual({ item: "[Object]", list: "[Array]" });
+  });
+});
+
+describe("RDPClient console listeners", () => {
+  it("starts listeners once per console actor and emits the packets they push", async () => {
+    const started: string[] = [];
+    const rdp = await connect((request, send) => {
+      if (answerBootstrap(request, send)) return;
+      if (request.type === "startListeners") {
+        started.push(request.to);
+        send({ from: request.to, startedListeners: request.listeners });
+        send({ from: request.to, type: "pageError", pageError: { errorMessage: "boom", sourceName: "chrome://p/x.js" } });
+      }
+    });
+    const pageError = new Promise((resolve) => {
+      rdp.on("message", (message: { type?: string }) => {
+        if (message.type === "pageError") resolve(message);
+      });
+    });
+
+    await rdp.startConsoleListeners();
+    await rdp.startConsoleListeners();
+
+    expect(started).toEqual([CONSOLE_ACTOR]);
+    expect(await pageError).toMatchObject({ pageError: { errorMessage: "boom" } });
+  });
+});
+
+describe("RDPClient targets", () => {
+  const READER_CONSOLE = "server1.conn0.windowGlobalTarget9/consoleActor10";
+
+  function answerTargets(request: FakeRequest, send: SendPacket): boolean {
+    if (request.to === "root" && request.type === "listProcesses") {
+      send({ from: "root", processes: [{ actor: "processDescriptor1", id: 0, isParent: true, traits: { watcher: true } }] });
+      return true;
+    }
+    if (request.type === "getWatcher") {
+      send({ from: request.to, actor: "watcher1", traits: {} });
+      return true;
+    }
+    if (request.to === "watcher1" && request.type === "watchTargets") {
+      // Existing frames are announced before the reply
+      send({
+        from: "watcher1",
+        type: "target-available-form",
+        target: {
+          actor: "windowGlobalTarget9",
+          url: "resource://zotero/reader/reader.html",
+          title: "Reader",
+          consoleActor: READER_CONSOLE,
+          browsingContextID: 42,
+        },
+      });
+      send({ from: "watcher1" });
+      return true;
+    }
+    return answerBootstrap(request, send);
+  }
+
+  it("lists frame targets from the watcher and evaluates in the selected one", async () => {
+    const evaluatedOn: string[] = [];
+    const rdp = await connect((request, send) => {
+      if (answerTargets(request, send)) return;
+      if (request.type === "evaluateJSAsync") {
+        evaluatedOn.push(request.to);
+        send({ from: request.to, resultID: "r1" });
+        send({ from: request.to, type: "evaluationResult", resultID: "r1", result: "reader" });
+      }
+    });
+
+    const targets = await rdp.listTargets();
+    expect(targets.map((t) => [t.kind, t.id])).toEqual([
+      ["process", "parentProcessTarget1"],
+      ["frame", "windowGlobalTarget9"],
+    ]);
+
+    const response = await rdp.evaluateJSInTarget("document.title", "reader.html");
+
+    expect(response.result).toBe("reader");
+    expect(evaluatedOn).toEqual([READER_CONSOLE]);
+  });
+
+  it("forgets frames the watcher reports as destroyed", async () => {
+    let sendToClient: SendPacket | undefined;
+    const rdp = await connect((request, send) => {
+      sendToClient = send;
+      answerTargets(request, send);
+    });
+
+    expect(await rdp.listTargets()).toHaveLength(2);
+
+    sendToClient?.({ from: "watcher1", type: "target-destroyed-form", target: { actor: "windowGlobalTarget9" } });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await expect(rdp.resolveTarget("reader.html")).rejects.toThrow("No target matches");
+  });
+});
+
+describe("RDPClient timeouts and cancellation", () => {
+  it("gives up after a per-call timeout shorter than the client's", async () => {
+    const rdp = await connect(() => {
+      // Never answers
+    });
+
+    const started = Date.now();
+    const error = await rdp.sendMessage({ to: "actorA", type: "slow" }, { timeoutMs: 100 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RequestAbortedError);
+    expect(error.reason).toBe("timeout");
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("rejects a request when its signal aborts", async () => {
+    const rdp = await connect(() => {
+      // Never answers
+    });
+    const controller = new AbortController();
+
+    const request = rdp.sendMessage({ to: "actorA", type: "slow" }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(request).rejects.toMatchObject({ name: "RequestAbortedError", reason: "cancelled" });
+  });
+
+  it("keeps the connection open while a request with a longer timeout waits", async () => {
+    const rdp = await connect((request, send) => {
+      // Silent for longer than the client timeout, which is also the socket's idle timeout
+      setTimeout(() => send({ from: request.to, done: true }), 500);
+    }, 200);
+
+    const reply = await rdp.sendMessage({ to: "actorA", type: "slow" }, { timeoutMs: 2000 });
+
+    expect(reply).toMatchObject({ done: true });
+    expect(rdp.isConnected()).toBe(true);
+  });
+
+  // The bootstrap with a thread actor, and the thread's attach
+  function answerThreadBootstrap(request: FakeRequest, send: SendPacket): boolean {
+    if (request.to === "processDescriptor1" && request.type === "getTarget") {
+      send({
+        from: "processDescriptor1",
+        process: { actor: "parentProcessTarget1", consoleActor: CONSOLE_ACTOR, threadActor: "thread1", title: "Zotero", url: "" },
+      });
+      return true;
+    }
+    if (request.to === "thread1" && request.type === "attach") {
+      send({ from: "thread1" });
+      return true;
+    }
+    return answerBootstrap(request, send);
+  }
+
+  const INTERRUPTED = {
+    from: "thread1",
+    type: "paused",
+    frame: { actor: "frame1", type: "call", displayName: "loop", where: { actor: "source1", line: 3, column: 4 } },
+    why: { type: "interrupted", onNext: true },
+  };
+
+  it("ends a script that pauses on the interrupt and resumes the thread", async () => {
+    const requests: string[] = [];
+    let endFrameCode = "";
+    const rdp = await connect((request, send) => {
+      requests.push(`${request.to} ${request.type}`);
+      if (answerThreadBootstrap(request, send)) return;
+      if (request.to === "thread1" && request.type === "interrupt") {
+        send({ from: "thread1" });
+        send(INTERRUPTED);
+      } else if (request.type === "evaluateJSAsync") {
+        endFrameCode = request.text as string;
+        send({ from: CONSOLE_ACTOR, resultID: "r1" });
+        send({ from: CONSOLE_ACTOR, type: "evaluationResult", resultID: "r1", result: true });
+      } else if (request.to === "thread1" && request.type === "resume") {
+        send({ from: "thread1" });
+        send({ from: "thread1", type: "resumed" });
+      }
+    });
+
+    let stackRead = false;
+    const outcome = await rdp.interruptEvaluation({
+      onPaused: async () => {
+        stackRead = requests.at(-1) === "thread1 interrupt";
+      },
+    });
+
+    expect(outcome).toMatchObject({ status: "paused", ended: true, paused: { frame: { displayName: "loop" } } });
+    expect(stackRead).toBe(true);
+    expect(endFrameCode).toContain("getOffsetMetadata(frame.offset).lineNumber !== 3");
+    expect(requests.slice(-3)).toEqual(["thread1 interrupt", `${CONSOLE_ACTOR} evaluateJSAsync`, "thread1 resume"]);
+    expect(rdp.getPausedPacket()).toBeNull();
+  });
+
+  it("cancels an interrupt that does not pause in time", async () => {
+    const requests: string[] = [];
+    const rdp = await connect((request, send) => {
+      requests.push(`${request.to} ${request.type}`);
+      if (answerThreadBootstrap(request, send)) return;
+      if (request.to === "thread1") {
+        // The script is waiting on an await: the interrupt is accepted, nothing pauses
+        send({ from: "thread1" });
+      }
+    });
+
+    const outcome = await rdp.interruptEvaluation({ timeoutMs: 100 });
+
+    expect(outcome.status).toBe("requested");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(requests.slice(-2)).toEqual(["thread1 interrupt", "thread1 resume"]);
+  });
+
+  it("resumes the pause of an interrupt Zotero only answers after giving up on it", async () => {
+    const requests: string[] = [];
+    const queued: FakeRequest[] = [];
+    let sendLater: SendPacket | undefined;
+    const rdp = await connect((request, send) => {
+      requests.push(`${request.to} ${request.type}`);
+      if (answerThreadBootstrap(request, send)) return;
+      // A synchronous loop: the thread's requests wait until it yields
+      queued.push(request);
+      sendLater = send;
+    });
+
+    const outcome = await rdp.interruptEvaluation({ timeoutMs: 100 });
+    expect(outcome.status).toBe("unresponsive");
+
+    // The loop yields: the interrupt pauses the next JavaScript
+    for (const request of queued) sendLater!({ from: request.to });
+    sendLater!(INTERRUPTED);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(requests.filter((r) => r === "thread1 resume")).toHaveLength(2);
+    expect(rdp.getPausedPacket()).toBeNull();
+  });
+});
+
+describe("RDPClient large payloads", () => {
+  it("fetches a long string in ordered chunks and reports progress", async () => {
+    const text = "0123456789".repeat(25);
+    const substrings: Array<[number, number]> = [];
+    const rdp = await connect((request, send) => {
+      if (request.to === "longstr1" && request.type === "substring") {
+        const { start, end } = request as unknown as { start: number; end: number };
+        substrings.push([start, end]);
+        send({ from: "longstr1", substring: text.slice(start, end) });
+      }
+    });
+
+    const progress: number[] = [];
+    const value = await rdp.fetchLongString("longstr1", text.length, {
+      chunkSize: 64,
+      onProgress: (received, total) => {
+        expect(total).toBe(text.length);
+        progress.push(received);
+      },
+    });
+
+    expect(value).toBe(text);
+    expect(substrings).toEqual([
+      [0, 64],
+      [64, 128],
+      [128, 192],
+      [192, 250],
+    ]);
+    expect(progress).toHaveLength(4);
+    expect(progress[progress.length - 1]).toBe(text.length);
+  });
+
+  it("reassembles a packet split across socket writes, counting its length in bytes", async () => {
+    const rdp = await connect((request, send, sendRaw) => {
+      if (request.to === "actorA") {
+        const frame = Buffer.concat([
+          encodePacket({ from: "actorA", value: "Zotero – Bücher 📚" }),
+          encodePacket({ from: "actorB", value: "after" }),
+        ]);
+        // Split inside the length prefix and inside a multi-byte character
+        sendRaw(frame.subarray(0, 1));
+        setTimeout(() => sendRaw(frame.subarray(1, 42)), 10);
+        setTimeout(() => sendRaw(frame.subarray(42)), 20);
+      }
+    });
+
+    const after = rdp.sendMessage({ to: "actorB", type: "wait" });
+    await expect(rdp.sendMessage({ to: "actorA", type: "read" })).resolves.toMatchObject({ value: "Zotero – Bücher 📚" });
+    await expect(after).resolves.toMatchObject({ value: "after" });
+  });
+
+  it("resolves bulk replies split across socket writes and keeps reading JSON after them", async () => {
+    const payload = Buffer.from([0x00, 0x3a, 0xff, 0x0a, 0x62, 0x75, 0x6c, 0x6b]);
+    const rdp = await connect((request, send, sendRaw) => {
+      if (request.to === "heap1" && request.type === "transfer") {
+        expect(request.bulk).toBe(true);
+        expect(Buffer.from(request.data as Buffer).equals(Buffer.from("upload"))).toBe(true);
+        const frame = Buffer.concat([
+          encodeBulkPacket("heap1", "snapshot", payload),
+          encodePacket({ from: "actorB", value: "after" }),
+        ]);
+        sendRaw(frame.subarray(0, 3));
+        setTimeout(() => sendRaw(frame.subarray(3, 20)), 10);
+        setTimeout(() => sendRaw(frame.subarray(20)), 20);
+      }
+    });
+
+    const after = rdp.sendMessage({ to: "actorB", type: "wait" });
+    const reply = await rdp.sendBulk("heap1", "transfer", Buffer.from("upload"));
+
+    expect(reply).toMatchObject({ from: "heap1", type: "snapshot", bulk: true, length: payload.length });
+    expect(Buffer.compare((reply as unknown as { data: Buffer }).data, payload)).toBe(0);
+    await expect(after).resolves.toMatchObject({ value: "after" });
+  });
+});
+
+describe("RDPClient capabilities", () => {
+  it("records traits, versions and actors once per connection", async () => {
+    let getRootCount = 0;
+    const rdp = await connect((request, send) => {
+      if (request.to === "root" && request.type === "getRoot") {
+        getRootCount++;
+        send({
+          from: "root",
+          applicationType: "browser",
+          traits: { networkMonitor: true, noBlackBoxing: false },
+          deviceActor: "server1.conn0.deviceActor1",
+          preferenceActor: "server1.conn0.preferenceActor2",
+        });
+        return;
+      }
+      if (request.to === "server1.conn0.deviceActor1" && request.type === "getDescription") {
+        send({
+          from: "server1.conn0.deviceActor1",
+          value: { name: "Zotero", version: "7.0.11", platformversion: "115.14.0" },
+        });
+        return;
+      }
+      if (request.to === "root" && request.type === "listProcesses") {
+        send({
+          from: "root",
+          processes: [{ actor: "processDescriptor1", id: 0, isParent: true, traits: { watcher: true } }],
+        });
+        return;
+      }
+      if (request.to === "processDescriptor1" && request.type === "getTarget") {
+        send({
+          from: "processDescriptor1",
+          process: { actor: "parentProcessTarget1", consoleActor: CONSOLE_ACTOR, threadActor: "thread1", title: "Zotero", url: "" },
+        });
+      }
+    });
+
+    const capabilities = await rdp.getCapabilities();
+    await rdp.getCapabilities();
+
+    expect(getRootCount).toBe(1);
+    expect(capabilities).toMatchObject({
+      appName: "Zotero",
+      appMajorVersion: 7,
+      platformMajorVersion: 115,
+      traits: { networkMonitor: true },
+      processTraits: { watcher: true },
+      globalActors: ["device", "preference"],
+      targetActors: ["console", "thread"],
+    });
+    expect(zoteroMajorVersion(capabilities)).toBe(7);
+    expect(hasActor(capabilities, "threadActor")).toBe(true);
+    expect(hasTrait(capabilities, "noBlackBoxing")).toBe(false);
+    // Negotiating does not pick a default target
+    expect(rdp.getState().consoleActor).toBeUndefined();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * REPL input preparation: top-level declarations become session bindings and
+ * the last expression is returned. prepareReplInput only rewrites text, so
+ * the result is checked by running the body as an async function here.
+ */
+
+import { describe, expect, it } from "vitest";
+import { prepareReplInput } from "../src/utils/repl.js";
+
+// Run a prepared body the way a session does: as an async function that
+// hands back an exporter for its top-level declarations
+async function run(code: string) {
+  const { body, declared } = prepareReplInput(code);
+  const source =
+    `(async function (exportBindings) { exportBindings(() => ({ ${declared.join(", ")} })); ${body}\n})`;
+  let exported = () => ({});
+  const value = await (0, eval)(source)((collect: () => object) => {
+    exported = collect;
+  });
+  return { value, bindings: exported() as Record<string, unknown> };
+}
+
+describe("prepareReplInput", () => {
+  it("returns the last expression and keeps let/const bindings", async () => {
+    const prepared = prepareReplInput("const a = 1;\nlet b = a + 1\na + b");
+    expect(prepared.body).toBe("var a = 1;\nvar b = a + 1\nreturn a + b");
+    expect(prepared.declared).toEqual(["a", "b"]);
+    expect(prepared.returnsLastExpression).toBe(true);
+
+    const { value, bindings } = await run("const a = 1;\nlet b = a + 1\na + b");
+    expect(value).toBe(3);
+    expect(bindings).toEqual({ a: 1, b: 2 });
+  });
+
+  it("collects names from destructuring, functions and classes", () => {
+    const prepared = prepareReplInput(
+      "const { title, creators: [first = null, ...others], meta: { year } } = item\n" +
+        "let x = 1, y = f(2, 3)\n" +
+        "async function load() {}\n" +
+        "class Thing {}"
+    );
+    expect(prepared.declared).toEqual(["title", "first", "others", "year", "x", "y", "load", "Thing"]);
+    expect(prepared.returnsLastExpression).toBe(false);
+  });
+
+  it("awaits at top level and treats continued lines as one statement", async () => {
+    const code = "const items = await Promise.resolve([1, 2, 3])\nitems\n  .map((n) => n * 2)\n  .filter((n) => n > 2)";
+    const { value, bindings } = await run(code);
+    expect(value).toEqual([4, 6]);
+    expect(bindings.items).toEqual([1, 2, 3]);
+  });
+
+  it("leaves statements, explicit returns and strings alone", () => {
+    expect(prepareReplInput("if (x) { y() }").returnsLastExpression).toBe(false);
+    expect(prepareReplInput("for (const i of list) total += i").body).toBe("for (const i of list) total += i");
+    expect(prepareReplInput("const n = 2\nif (n) return n * 2\n0").body).toBe("var n = 2\nif (n) return n * 2\n0");
+
+    const tricky = prepareReplInput('const s = "let a; const b"; // const c\n`${s}\nconst d`');
+    expect(tricky.declared).toEqual(["s"]);
+    expect(tricky.body).toBe('var s = "let a; const b"; // const c\nreturn `${s}\nconst d`');
+  });
+
+  it("does not rewrite declarations inside blocks or functions", async () => {
+    const code = "function twice(n) { const r = n * 2; return r }\n{ let hidden = 1 }\ntwice(4)";
+    const prepared = prepareReplInput(code);
+    expect(prepared.declared).toEqual(["twice"]);
+    expect(prepared.body).toContain("const r = n * 2");
+    expect(prepared.body).toContain("let hidden = 1");
+    expect((await run(code)).value).toBe(8);
+  });
+});
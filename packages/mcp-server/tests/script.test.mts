@@ -0,0 +1,107 @@
+/**
+ * zotero_run_script: finding scripts in a temporary project, transpiling
+ * TypeScript and injecting args. The RDP client is a stub that runs the
+ * generated code in Node, which is enough to check what Zotero would get.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const holder = vi.hoisted(() => ({ evaluated: [] as string[] }));
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => ({
+    evaluateJS: async (code: string) => {
+      holder.evaluated.push(code);
+      return { result: await (0, eval)(code) };
+    },
+    expandGrip: async (grip: unknown) => ({ value: grip, truncated: false }),
+  }),
+}));
+
+const { buildScriptCode, handleRunScript, loadScript } = await import("../src/tools/script.js");
+
+const projects: string[] = [];
+
+afterEach(() => {
+  while (projects.length) rmSync(projects.pop()!, { recursive: true, force: true });
+  holder.evaluated = [];
+});
+
+function project(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), "zotero-script-"));
+  projects.push(dir);
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(join(dir, path, ".."), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  }
+  return dir;
+}
+
+describe("zotero_run_script", () => {
+  it("runs a script from scripts/zotero with args and returns its value", async () => {
+    const dir = project({
+      "scripts/zotero/count.js": "const ids = args.ids;\nreturn { count: ids.length, first: ids[0] };\n",
+    });
+
+    const [content] = await handleRunScript({ path: "count", args: { ids: [3, 5] }, projectPath: dir });
+
+    expect(content.text).toContain("Script: scripts/zotero/count.js");
+    expect(content.text).toContain("Status: ok");
+    expect(content.text).toContain('"count": 2');
+    expect(holder.evaluated[0]).toMatch(/^\{ const args = \{"ids":\[3,5\]\}; \(\(\) => \{/);
+  });
+
+  it("transpiles TypeScript and drops type-only imports", () => {
+    const dir = project({
+      "scripts/zotero/typed.ts":
+        'import type { Item } from "./types";\nconst title: string = (args.item as Item).title;\ntitle.toUpperCase()\n',
+    });
+
+    const script = loadScript("scripts/zotero/typed.ts", dir);
+
+    expect(script.transpiler).not.toBeNull();
+    expect(script.code).not.toMatch(/import|: string|export/);
+    expect((0, eval)(buildScriptCode(script.code, { item: { title: "gecko" } }))).toBe("GECKO");
+  });
+
+  it("runs a script that awaits without returning, and returns its last value", async () => {
+    const dir = project({
+      "scripts/zotero/wait.js":
+        "const item = await Promise.resolve({ title: args.title });\n" +
+        "if (!item) throw new Error('missing');\n" +
+        "item.title.toUpperCase()\n",
+    });
+
+    const [content] = await handleRunScript({ path: "wait", args: { title: "gecko" }, projectPath: dir });
+
+    expect(content.text).toContain("Status: ok");
+    expect(content.text).toContain("GECKO");
+    expect(holder.evaluated[0]).toMatch(/^\{ const args = \{"title":"gecko"\}; \(async \(\) => \{/);
+  });
+
+  it("rejects module syntax, missing scripts and paths outside the project", () => {
+    const dir = project({
+      "scripts/zotero/module.js": 'import { x } from "./x.js";\nx();\n',
+      "outside.js": "1",
+    });
+
+    expect(() => loadScript("module", dir)).toThrow(/module syntax.*ChromeUtils\.importESModule/s);
+    expect(() => loadScript("missing", dir)).toThrow(/Script not found: missing/);
+    expect(() => loadScript("../outside.js", join(dir, "scripts"))).toThrow(/outside the project/);
+  });
+
+  it("lists the scripts when no path is given", async () => {
+    const dir = project({
+      "scripts/zotero/b.ts": "1",
+      "scripts/zotero/nested/a.js": "1",
+      "scripts/zotero/types.d.ts": "",
+      "scripts/zotero/notes.md": "",
+    });
+
+    const [content] = await handleRunScript({ projectPath: dir });
+
+    expect(content.text).toContain("2 script(s) in scripts/zotero/:\n\n  b.ts\n  nested/a.js");
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * zotero_get_source and zotero_search_source: the generated code runs in
+ * Node against stand-in Zotero files, and the stubbed RDP client reports
+ * function locations the way the object actor's grips do.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const locations = new WeakMap<object, { url: string; line: number }>();
+
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => ({
+    evaluateJS: async (code: string) => {
+      const result = await (0, eval)(code);
+      const grip = { type: "object", class: "Function", location: locations.get(result) };
+      return { result: typeof result === "function" ? grip : result };
+    },
+    gripToValueAsync: async (value: unknown) => value,
+    listSources: async () =>
+      [
+        "chrome://zotero/content/xpcom/itemTreeManager.js",
+        "chrome://zotero/content/xpcom/itemTreeManager.js",
+        "resource://gre/modules/XPCOMUtils.sys.mjs",
+        "chrome://zotero/content/include.js -> chrome://zotero/content/xpcom/pluginAPI.js",
+        "chrome://myplugin/content/index.js",
+      ].map((url, i) => ({ actor: `source${i}`, url })),
+  }),
+}));
+
+const { handleGetSource, handleSearchSource } = await import("../src/tools/source.js");
+
+const FILES: Record<string, string> = {
+  "chrome://zotero/content/xpcom/itemTreeManager.js": [
+    "class ItemTreeManager {",
+    "\tregisterColumn(option) {",
+    "\t\treturn this._addColumn(option);",
+    "\t}",
+    "}",
+  ].join("\n"),
+  "chrome://zotero/content/xpcom/pluginAPI.js": "Zotero.ItemTreeManager.registerColumn({ dataKey: 'x' });",
+  "chrome://myplugin/content/index.js": "registerColumn();",
+};
+
+const text = async (result: Promise<{ text: string }[]>) => (await result)[0].text;
+
+beforeEach(() => {
+  const { registerColumn } = {
+    registerColumn(this: { _addColumn: (o: unknown) => unknown }, option: unknown) {
+      return this._addColumn(option);
+    },
+  };
+  locations.set(registerColumn, { url: "chrome://zotero/content/xpcom/itemTreeManager.js", line: 2 });
+  vi.stubGlobal("Zotero", {
+    ItemTreeManager: { registerColumn, version: 1 },
+    File: {
+      getContentsFromURLAsync: async (url: string) => {
+        if (!(url in FILES)) throw new Error("NS_ERROR_FILE_NOT_FOUND");
+        return FILES[url];
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("zotero_get_source", () => {
+  it("shows a function's source at its script location", async () => {
+    const source = await text(handleGetSource({ path: "Zotero.ItemTreeManager.registerColumn" }));
+    expect(source).toContain(
+      "Zotero.ItemTreeManager.registerColumn\nchrome://zotero/content/xpcom/itemTreeManager.js:2\n\n2  registerColumn(option) {\n"
+    );
+
+    await expect(handleGetSource({ path: "Zotero.ItemTreeManager.version" })).rejects.toThrow(
+      "'Zotero.ItemTreeManager.version' is number, not a function"
+    );
+    await expect(handleGetSource({ path: "Zotero.x;alert()" })).rejects.toThrow(/Invalid object path/);
+  });
+
+  it("reads a range of lines from a file", async () => {
+    expect(
+      await text(handleGetSource({ url: "chrome://zotero/content/xpcom/itemTreeManager.js", startLine: 2, endLine: 3 }))
+    ).toBe(
+      [
+        "chrome://zotero/content/xpcom/itemTreeManager.js (lines 2-3 of 5)",
+        "",
+        "2  \tregisterColumn(option) {",
+        "3  \t\treturn this._addColumn(option);",
+      ].join("\n")
+    );
+    await expect(handleGetSource({ url: "chrome://zotero/content/missing.js" })).rejects.toThrow(
+      "Cannot read chrome://zotero/content/missing.js: NS_ERROR_FILE_NOT_FOUND"
+    );
+    await expect(handleGetSource({ url: "file:///etc/passwd" })).rejects.toThrow(/Unsupported URL/);
+  });
+});
+
+describe("zotero_search_source", () => {
+  it("searches Zotero's loaded scripts by default and others by URL", async () => {
+    expect(await text(handleSearchSource({ pattern: "/registerColumn\\s*\\(/" }))).toBe(
+      [
+        'Found 2 match(es) for "/registerColumn\\s*\\(/" in 2 of 2 script(s):',
+        "",
+        "chrome://zotero/content/xpcom/itemTreeManager.js",
+        "  2: registerColumn(option) {",
+        "",
+        "chrome://zotero/content/xpcom/pluginAPI.js",
+        "  1: Zotero.ItemTreeManager.registerColumn({ dataKey: 'x' });",
+      ].join("\n")
+    );
+
+    expect(await text(handleSearchSource({ pattern: "registerColumn", url: "myplugin" }))).toContain(
+      "chrome://myplugin/content/index.js\n  1: registerColumn();"
+    );
+    expect(await text(handleSearchSource({ pattern: "registerColumn", limit: 1 }))).toContain(
+      "Stopped at the match limit"
+    );
+  });
+});
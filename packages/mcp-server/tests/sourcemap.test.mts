@@ -0,0 +1,98 @@
+/**
+ * Source maps: the VLQ decoder and the choice of map for a script URL,
+ * against a small map generated with a reference implementation
+ * (source-map-js), whose decoded positions the expectations repeat.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createStackMapper } from "../src/utils/sourcemap.js";
+
+// Generated line 2: `(()=>{function a(b){throw new Error(b)}a("x")})();`, and
+// line 3 starts with the hooks. The last segment of line 3 (column 530) takes a
+// three-digit VLQ, and switching back to the first source a negative delta.
+const MAP = {
+  version: 3,
+  sources: ["../../../../src/index.ts", "../../../../src/hooks.ts"],
+  names: ["registerNotifier", "onStartup"],
+  mappings: ";MAWA,SAASA,MACP,oBAGFA;ACZEC,khBDFF",
+  file: "index.js",
+};
+
+const projects: string[] = [];
+
+afterEach(() => {
+  while (projects.length) rmSync(projects.pop()!, { recursive: true, force: true });
+});
+
+function project(maps: Record<string, object>): string {
+  const dir = mkdtempSync(join(tmpdir(), "zotero-sourcemap-"));
+  projects.push(dir);
+  for (const [path, map] of Object.entries(maps)) {
+    mkdirSync(join(dir, path, ".."), { recursive: true });
+    writeFileSync(join(dir, path), JSON.stringify(map));
+  }
+  return dir;
+}
+
+const URL = "chrome://myplugin/content/scripts/index.js";
+
+describe("source maps", () => {
+  it("decodes mappings to original positions and names", () => {
+    const mapper = createStackMapper(project({ "build/addon/content/scripts/index.js.map": MAP }))!;
+
+    expect(mapper.mapLocation(URL, 2, 16)).toEqual({ source: "src/index.ts", line: 12, column: 10, name: "registerNotifier" });
+    // Between segments: the last one starting at or before the column
+    expect(mapper.mapLocation(URL, 2, 30)).toEqual({ source: "src/index.ts", line: 13, column: 3, name: undefined });
+    expect(mapper.mapLocation(URL, 3, 1)).toEqual({ source: "src/hooks.ts", line: 4, column: 3, name: "onStartup" });
+    expect(mapper.mapLocation(URL, 3, 531)).toEqual({ source: "src/index.ts", line: 2, column: 1, name: undefined });
+    expect(mapper.mapLocation(URL, 1, 1)).toBeNull();
+
+    expect(
+      mapper.mapStack(
+        [
+          `a@${URL}:2:16`,
+          `async*@${URL}:3:1`,
+          "notify@chrome://zotero/content/xpcom/notifier.js:280:19",
+        ].join("\n")
+      )
+    ).toEqual({
+      stack: [
+        "registerNotifier@src/index.ts:12:10",
+        "async*onStartup@src/hooks.ts:4:3",
+        "notify@chrome://zotero/content/xpcom/notifier.js:280:19",
+      ].join("\n"),
+      mapped: 2,
+      ambiguous: [],
+    });
+  });
+
+  it("picks the map with the longest path match and reports ties", () => {
+    const other = { ...MAP, sources: ["../../../../src/other.ts", "../../../../src/hooks.ts"] };
+    const dir = project({
+      "build/addon/content/scripts/index.js.map": MAP,
+      "build/myplugin/content/scripts/index.js.map": other,
+      "build/addon/bootstrap.js.map": { ...MAP, sources: ["../../src/bootstrap.ts"] },
+    });
+    const mapper = createStackMapper(dir)!;
+
+    // The package name in the URL matches one build path further
+    expect(mapper.mapLocation(URL, 2, 16)?.source).toBe("src/other.ts");
+    expect(mapper.mapLocation("jar:file:///tmp/myplugin.xpi!/content/scripts/index.js", 2, 16)?.source).toBe(
+      "src/other.ts"
+    );
+    // A unique file name is enough when no path matches
+    expect(mapper.mapLocation("chrome://myplugin/content/bootstrap.js", 2, 16)?.source).toBe("src/bootstrap.ts");
+
+    const elsewhere = "chrome://otherplugin/content/scripts/index.js";
+    expect(mapper.mapLocation(elsewhere, 2, 16)).toBeNull();
+    expect(mapper.ambiguousMaps(elsewhere)).toHaveLength(2);
+    expect(mapper.mapStack(`a@${elsewhere}:2:16`)).toEqual({
+      stack: `a@${elsewhere}:2:16`,
+      mapped: 0,
+      ambiguous: [elsewhere],
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * zotero_spy: the generated code wraps functions of a stand-in Zotero in
+ * Node (the stubbed RDP client evaluates it), and the calls made through the
+ * wrappers come back from action='get'.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/index.js", () => ({
+  getRdpClient: async () => ({
+    evaluateJS: async (code: string) => ({ result: (0, eval)(code) }),
+    gripToValueAsync: async (value: unknown) => value,
+  }),
+}));
+
+const { handleSpy } = await import("../src/tools/spy.js");
+
+const spy = async (args: Record<string, unknown>) => (await handleSpy(args))[0].text;
+
+class Item {
+  constructor(public libraryID: number, public key: string, public id: number) {}
+  async saveTx() {
+    return this.id;
+  }
+}
+
+let zotero: Record<string, any>;
+
+beforeEach(() => {
+  zotero = {
+    Item,
+    Notifier: {
+      async trigger(event: string, type: string, ids: number[]) {
+        if (type === "bogus") throw new Error("Invalid type 'bogus'");
+        return ids.length;
+      },
+      registerObserver: () => "observer1",
+    },
+    MyPlugin: { run: (label: string) => label.toUpperCase() },
+  };
+  vi.stubGlobal("Zotero", zotero);
+  // The wrapper's caller: the plugin code that made the call
+  vi.stubGlobal("Components", {
+    stack: {
+      caller: {
+        name: "onSelect",
+        filename: "chrome://myplugin/content/pane.js",
+        lineNumber: 12,
+        columnNumber: 5,
+        caller: { name: "handleEvent", filename: "chrome://zotero/content/itemTree.js", lineNumber: 80 },
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("zotero_spy", () => {
+  it("records arguments, results, rejections and callers, then unwraps", async () => {
+    const { trigger } = zotero.Notifier;
+    const { saveTx } = Item.prototype;
+
+    expect(await spy({ action: "start", targets: ["Zotero.Notifier", "Zotero.Item.prototype.saveTx"] })).toMatch(
+      /^Spying on 3 function\(s\): Zotero\.Notifier\.trigger, Zotero\.Notifier\.registerObserver, Zotero\.Item\.prototype\.saveTx\n/
+    );
+
+    await zotero.Notifier.trigger("modify", "item", [1, 2]);
+    await zotero.Notifier.trigger("add", "bogus", []).catch(() => {});
+    expect(await new Item(1, "ABCD2345", 7).saveTx()).toBe(7);
+
+    const text = await spy({ action: "get" });
+    expect(text).toMatch(/^Recorded 3 call\(s\):/);
+    expect(text).toMatch(
+      /\] Zotero\.Notifier\.trigger\("modify", "item", \[1, 2\]\) → resolved 2 \(\d+\.\d ms\)\n {2}by onSelect@chrome:\/\/myplugin\/content\/pane\.js:12:5\n {5}handleEvent@chrome:\/\/zotero\/content\/itemTree\.js:80:0/
+    );
+    expect(text).toContain('Zotero.Notifier.trigger("add", "bogus", []) ✗ rejected Error: Invalid type \'bogus\'');
+    expect(text).toContain("Zotero.Item.prototype.saveTx() → resolved 7");
+    expect(await spy({ action: "get" })).toBe("No calls to 3 spied function(s) since last check");
+
+    expect(await spy({ action: "stop" })).toBe("Unwrapped 3 function(s); spy stopped");
+    expect(zotero.Notifier.trigger).toBe(trigger);
+    expect(Item.prototype.saveTx).toBe(saveTx);
+    expect(zotero._mcpSpy).toBeUndefined();
+  });
+
+  it("leaves functions replaced by a plugin reload in place", async () => {
+    await spy({ action: "start", targets: ["Zotero.MyPlugin.run"] });
+    expect(zotero.MyPlugin.run("a")).toBe("A");
+
+    // What a reload does: a new plugin object with new functions
+    const reloaded = { run: (label: string) => label };
+    zotero.MyPlugin = reloaded;
+
+    const text = await spy({ action: "get" });
+    expect(text).toContain('Zotero.MyPlugin.run("a") → "A"');
+    expect(text).toContain("No longer installed (replaced, e.g. by a plugin reload): Zotero.MyPlugin.run.");
+
+    expect(await spy({ action: "stop" })).toBe(
+      "Unwrapped 0 function(s), 1 had been replaced since (left as they are); spy stopped"
+    );
+    expect(zotero.MyPlugin.run).toBe(reloaded.run);
+  });
+});